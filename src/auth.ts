@@ -0,0 +1,220 @@
+import type { ZDSLite } from './index';
+import type { DispatchPayload } from './dispatch';
+import { ApiKeyInfo, ApiKeyPermissions, ApiKeyRole, DslAggMetrics, DslAggs, DslBucketAgg, DslHighlight, DslQuery, DslSort, GeoDistanceSort } from './types';
+
+/**
+ * The access a request needs on one table. `rows` is set when the request returns rows of the table,
+ * with the `_source` it selects them with (`undefined` for whole rows), and `fields` lists the columns
+ * whose values the request returns or compares (aggregated fields, query clauses, sorts, highlights and joins).
+ */
+export interface AccessCheck {
+  table: string;
+  role: ApiKeyRole;
+  rows?: { source?: string[] };
+  fields?: string[];
+}
+
+const ROLE_RANK: Record<ApiKeyRole, number> = { read: 1, write: 2, admin: 3 };
+
+// ZDSLite's own tables (API keys, column metadata, migrations, full-text indexes) share this prefix.
+const INTERNAL_TABLE_PREFIX = '_zdslite_';
+
+/**
+ * The role of a key on a table: the table's own entry, or the `'*'` entry. No key has a role on
+ * ZDSLite's internal tables.
+ */
+export function roleOf(permissions: ApiKeyPermissions, table: string): ApiKeyRole | null {
+  if (isInternalTable(table)) return null;
+  return permissions.tables[table] ?? permissions.tables['*'] ?? null;
+}
+
+/**
+ * Lists the access a `/query` payload needs. `dropIndex` does not name a table, so it needs `admin` on `'*'`;
+ * `listTables` needs nothing, but its result should be filtered to the readable tables.
+ */
+export function accessChecks(payload: DispatchPayload): AccessCheck[] {
+  if (!payload || typeof payload !== 'object') return [];
+  const { method, table, dsl } = payload;
+  switch (method) {
+    case 'search': case 'searchHits':
+      return readChecks(table, dsl, 'rows');
+    case 'aggregate':
+      return readChecks(table, dsl, 'aggregations');
+    case 'count': case 'explain': case 'compile':
+      return readChecks(table, dsl, 'none');
+    case 'describe': case 'listIndexes':
+      return table ? [{ table, role: 'read' }] : [];
+    case 'insert': case 'update': case 'delete': case 'upsert':
+      return table ? [{ table, role: 'write' }] : [];
+    case 'bulk':
+      return bulkChecks(payload.data);
+    case 'create': case 'drop': case 'createIndex': case 'createFullTextIndex': case 'dropFullTextIndex':
+    case 'registerColumnType': case 'registerSchema':
+      return table ? [{ table, role: 'admin' }] : [];
+    case 'dropIndex':
+      return [{ table: '*', role: 'admin' }];
+    case 'transaction':
+      return Array.isArray(payload.operations) ? payload.operations.flatMap(accessChecks) : [];
+    default:
+      return [];
+  }
+}
+
+// A query reads its table and the targets of its joins, and compares the fields of its query, sort, highlight
+// and joins. Searches also return their rows, and searches and aggregations return the values of the fields
+// their `aggs` name and the rows of their `top_hits`.
+function readChecks(table: string | undefined, dsl: DslQuery | undefined, returns: 'rows' | 'aggregations' | 'none'): AccessCheck[] {
+  if (!table) return [];
+  const joins = Array.isArray(dsl?.join) ? dsl!.join.filter(j => j && typeof j === 'object') : [];
+  const tables = [table, ...joins.map(j => j.target).filter(Boolean)];
+  const fields = [
+    ...queryFields(dsl?.query), ...sortFields(dsl?.sort), ...highlightFields(dsl?.highlight),
+    ...joins.flatMap(j => [j.on?.left, j.on?.right]),
+  ];
+  const topHits: (string[] | undefined)[] = [];
+  if (returns !== 'none' && dsl?.aggs && typeof dsl.aggs === 'object') {
+    const aggregated = aggregationFields(dsl.aggs);
+    fields.push(...aggregated.fields);
+    topHits.push(...aggregated.topHits);
+  }
+  // Fields may be qualified with a join alias, so they are checked against every table of the query.
+  const named = fields.filter((f): f is string => typeof f === 'string');
+  return tables.flatMap(t => [
+    { table: t, role: 'read' as const, fields: named, ...(returns === 'rows' ? { rows: { source: dsl?._source } } : {}) },
+    ...topHits.map(source => ({ table: t, role: 'read' as const, rows: { source } })),
+  ]);
+}
+
+// Lists the fields a query clause compares, through nested `bool` clauses.
+function queryFields(clause: unknown): string[] {
+  if (!clause || typeof clause !== 'object') return [];
+  const [type, spec] = Object.entries(clause)[0] || [];
+  if (!spec || typeof spec !== 'object') return [];
+  switch (type) {
+    case 'bool':
+      return ['must', 'filter', 'should', 'must_not'].flatMap(k => (Array.isArray(spec[k]) ? spec[k].flatMap(queryFields) : queryFields(spec[k])));
+    case 'multi_match':
+      return Array.isArray(spec.fields) ? spec.fields : [];
+    case 'exists': case 'password_verify':
+      return [spec.field];
+    case 'geo_distance': case 'geo_bounding_box':
+      return [spec.fields?.lat, spec.fields?.lon];
+    default:
+      return Object.keys(spec);
+  }
+}
+
+function sortFields(sort: DslSort[] | undefined): string[] {
+  if (!Array.isArray(sort)) return [];
+  return sort.flatMap(entry => {
+    if (!entry || typeof entry !== 'object') return [];
+    if ('_geo_distance' in entry) { const geo = (entry as GeoDistanceSort)._geo_distance; return [geo?.fields?.lat, geo?.fields?.lon]; }
+    return Object.keys(entry);
+  });
+}
+
+function highlightFields(highlight: DslHighlight | undefined): string[] {
+  const fields = highlight && typeof highlight === 'object' ? highlight.fields : undefined;
+  if (!fields || typeof fields !== 'object') return [];
+  return Array.isArray(fields) ? fields : Object.keys(fields);
+}
+
+// Lists the fields of the group_by, metrics and bucket aggregations, and the `_source` and sort of each top_hits metric.
+function aggregationFields(aggs: DslAggs): { fields: string[]; topHits: (string[] | undefined)[] } {
+  const fields: string[] = [];
+  const topHits: (string[] | undefined)[] = [];
+  const addMetrics = (metrics: DslAggMetrics | undefined) => Object.values(metrics || {}).forEach(metric => {
+    const [type, arg] = (metric && typeof metric === 'object' ? Object.entries(metric)[0] : undefined) || [];
+    if (type === 'top_hits') { topHits.push(arg?._source); fields.push(...sortFields(arg?.sort)); }
+    else if (typeof arg === 'string') fields.push(arg);
+    else if (typeof arg?.field === 'string') fields.push(arg.field);
+  });
+  const addBuckets = (buckets: { [name: string]: DslBucketAgg } | undefined) => Object.values(buckets || {}).forEach(bucket => {
+    Object.entries(bucket && typeof bucket === 'object' ? bucket : {}).forEach(([type, spec]: [string, any]) => {
+      if (type === 'metrics') addMetrics(spec);
+      else if (type === 'aggs') addBuckets(spec);
+      else if (typeof spec?.field === 'string') fields.push(spec.field);
+    });
+  });
+  if (Array.isArray(aggs.group_by)) fields.push(...aggs.group_by.filter(f => typeof f === 'string'));
+  addMetrics(aggs.metrics);
+  addBuckets(aggs.buckets);
+  return { fields, topHits };
+}
+
+/**
+ * Lists the access bulk operations need: `write` on the table of each operation.
+ */
+export function bulkChecks(operations: unknown): AccessCheck[] {
+  if (!Array.isArray(operations)) return [];
+  const tables = operations.map(op => {
+    const meta = op && typeof op === 'object' ? Object.values(op)[0] as any : undefined;
+    return meta && typeof meta._index === 'string' ? meta._index : undefined;
+  });
+  return [...new Set(tables.filter((t): t is string => !!t))].map(table => ({ table, role: 'write' as const }));
+}
+
+/**
+ * Checks a key against the access a request needs.
+ * @returns {Promise<string | null>} A promise that resolves with the reason the request is denied, or null if it is allowed.
+ */
+export async function authorize(db: ZDSLite, key: ApiKeyInfo, checks: AccessCheck[]): Promise<string | null> {
+  for (const check of checks) {
+    if (isInternalTable(check.table)) return `Table '${check.table}' is internal to ZDSLite and cannot be accessed with an API key.`;
+    const role = roleOf(key.permissions, check.table);
+    if (!role || ROLE_RANK[role] < ROLE_RANK[check.role]) {
+      return check.table === '*'
+        ? `API key '${key.name}' needs '${check.role}' access on all tables ('*').`
+        : `API key '${key.name}' needs '${check.role}' access on table '${check.table}'.`;
+    }
+    const fields = [...(check.fields || []), ...(Array.isArray(check.rows?.source) ? check.rows!.source : [])];
+    if ((check.rows || fields.length > 0) && await requiresExplicitSource(db, key.permissions, check.table)) {
+      if (check.rows && selectsAllColumns(check.rows.source)) {
+        return `Table '${check.table}' cannot be read with _source '*' by API key '${key.name}'; list the columns in _source.`;
+      }
+      const hashed = await hashedColumns(db, check.table);
+      const field = fields.find(f => typeof f === 'string' && hashed.includes(columnName(f)));
+      if (field) return `HASHED column '${field}' of table '${check.table}' cannot be read, searched or sorted on by API key '${key.name}'.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Keeps the tables a key can read.
+ */
+export function readableTables(key: ApiKeyInfo, tables: string[]): string[] {
+  return tables.filter(t => roleOf(key.permissions, t) !== null);
+}
+
+// Payloads are not type-checked, so the table may not be a string.
+function isInternalTable(table: unknown): boolean {
+  return typeof table === 'string' && table.startsWith(INTERNAL_TABLE_PREFIX);
+}
+
+// Without `_source`, or with `*` (or `alias.*`), a query returns every column.
+function selectsAllColumns(source: string[] | undefined): boolean {
+  return !Array.isArray(source) || source.length === 0 || source.some(f => typeof f === 'string' && (f.trim() === '*' || f.trim().endsWith('.*')));
+}
+
+// The column a field or `_source` entry names, without its `as` alias, table alias or JSON path.
+function columnName(field: string): string {
+  return field.replace(/\s+as\s+.*$/i, '').split('->')[0].trim().split('.').pop()!.replace(/[`"]/g, '');
+}
+
+async function requiresExplicitSource(db: ZDSLite, permissions: ApiKeyPermissions, table: string): Promise<boolean> {
+  const explicit = permissions.explicitSource ?? ['HASHED'];
+  if (explicit.includes(table)) return true;
+  if (!explicit.includes('HASHED')) return false;
+  return (await hashedColumns(db, table)).length > 0;
+}
+
+async function hashedColumns(db: ZDSLite, table: string): Promise<string[]> {
+  try {
+    const { columns } = await db.describe(table);
+    return columns.filter(c => c.zdsliteType === 'HASHED').map(c => c.name);
+  } catch {
+    // A missing table is reported by the query itself.
+    return [];
+  }
+}
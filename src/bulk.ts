@@ -0,0 +1,45 @@
+import { ZDSLiteValidationError } from './errors';
+import { BulkAction, BulkOperation } from './types';
+
+const BULK_ACTIONS: BulkAction[] = ['index', 'create', 'update', 'upsert', 'delete'];
+
+/**
+ * Parses an Elasticsearch-style NDJSON bulk body into `bulk()` operations. Each action line
+ * (`{ "index": { "_index": "users", "_id": 1 } }`) is followed by a source line, except for `delete`:
+ * the document for `index`, `create` and `upsert`, and `{ "doc": ..., "query"?: ... }` for `update`.
+ * Blank lines are ignored.
+ * @param text The NDJSON body.
+ * @returns {BulkOperation[]} The operations, in order.
+ * @throws {ZDSLiteValidationError} If a line is not valid JSON or the lines do not form actions.
+ */
+export function parseBulkNdjson(text: string): BulkOperation[] {
+  const lines = text.split(/\r?\n/).map((line, i) => ({ line, number: i + 1 })).filter(l => l.line.trim() !== '');
+  const operations: BulkOperation[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const actionLine = parseLine(lines[i].line, lines[i].number);
+    const keys = Object.keys(actionLine);
+    const action = keys[0] as BulkAction;
+    if (keys.length !== 1 || !BULK_ACTIONS.includes(action)) {
+      throw new ZDSLiteValidationError(`Line ${lines[i].number}: expected an action line with one of ${BULK_ACTIONS.join(', ')}.`);
+    }
+    const meta = actionLine[action];
+    if (typeof meta !== 'object' || meta === null || Array.isArray(meta)) throw new ZDSLiteValidationError(`Line ${lines[i].number}: the "${action}" action must be an object.`);
+    if (action === 'delete') {
+      operations.push({ delete: meta });
+      continue;
+    }
+    const sourceLine = lines[++i];
+    if (!sourceLine) throw new ZDSLiteValidationError(`Line ${lines[i - 1].number}: the "${action}" action must be followed by a source line.`);
+    const source = parseLine(sourceLine.line, sourceLine.number);
+    operations.push(action === 'update' ? { update: { ...meta, ...source } } : { [action]: { ...meta, doc: source } } as BulkOperation);
+  }
+  return operations;
+}
+
+function parseLine(line: string, number: number): Record<string, any> {
+  let parsed: any;
+  try { parsed = JSON.parse(line); }
+  catch (error: any) { throw new ZDSLiteValidationError(`Line ${number}: invalid JSON (${error.message}).`); }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new ZDSLiteValidationError(`Line ${number}: expected a JSON object.`);
+  return parsed;
+}
@@ -1,12 +1,14 @@
 #!/usr/bin/env node
 
-import { ZDSLite, ZDSLiteError, ZDSLiteQueryError, ZDSLiteValidationError } from './index';
+import { ZDSLite, ZDSLiteError, ZDSLiteErrorCode, ZDSLiteQueryError, ZDSLiteValidationError, loadMigrations, parseBulkNdjson, queryError, rootError, ApiKeyRole } from './index';
 import minimist from 'minimist';
 import fs from 'fs';
 import path from 'path';
-import * as repl from 'repl'; // Import REPL module
-import util from 'util';
 import { startServer } from './server';
+import { startRepl } from './repl';
+import { DispatchPayload, dispatch, parsePayloads } from './dispatch';
+import { formatRows, inferColumns, parseRecords, resolveFormat, toSqliteValues } from './transfer';
+import { FormatOptions, formatResult, outputFormat } from './format';
 
 // --- Helper Function ---
 function printHelp() {
@@ -16,12 +18,30 @@ Official Zynapse Link (https://zynapse.link) utility
 
 Usage (Single Command):
   zdslite --db <path> '<json_query>'
+  zdslite --db <path> --file <query.json|script.ndjson> [--tx]
+  zdslite --db <path> '<json_query>' --format table|json|ndjson|csv|tsv [--max-width <n>] [--no-header]
   cat query.json | zdslite --db <path>
+  zdslite --db <path> '{"method": "searchStream", "table": "<table>", "dsl": {...}}' > rows.ndjson
 
 Usage (Interactive REPL):
   zdslite --connect <path>
   zdslite -c <path>
 
+Usage (Migrations):
+  zdslite migrate --db <path> --dir <migrations_dir> [up|down|status] [--to <version>] [--steps <n>]
+
+Usage (Bulk Operations):
+  zdslite bulk --db <path> --file <ops.ndjson> [--chunk-size <n>] [--atomic]
+
+Usage (Import / Export):
+  zdslite import --db <path> --table <table> --file <data.csv|.ndjson|.json> [--batch-size <n>] [--primary-key <col>] [--uuid <col>] [--hashed <col>]
+  zdslite export --db <path> --table <table> [--dsl '<json_query>'] [--format csv|ndjson|json] [--file <out>]
+
+Usage (API Keys):
+  zdslite keys create --db <path> --name <name> --table <table>:<read|write|admin> [--table ...] [--explicit-source <table>]
+  zdslite keys list --db <path>
+  zdslite keys revoke <id> --db <path>
+
 Usage (API Server):
   zdslite --server --db <path> [--port <number>]
   zdslite -s -d <path> [-p <number>]
@@ -31,168 +51,381 @@ Options:
   --connect, -c   Start an interactive REPL session connected to the DB.
   --server, -s    Start a persistent API server.
   --port, -p      Port for the API server (default: 3000).
+  --dir           Directory of migration files (e.g. 001_create_users.sql).
+  --to            Target migration version.
+  --steps         Number of migrations to apply or roll back.
+  --file          Query or script file (a JSON object, array or NDJSON), NDJSON file of bulk operations
+                  (Elasticsearch bulk format), or the import/export file.
+  --tx            Run every query of a script in one transaction.
+  --chunk-size    Number of bulk operations to commit at a time (default: all at once).
+  --atomic        Roll back every bulk operation if one fails.
+  --batch-size    Number of imported rows to commit at a time (default: 1000).
+  --primary-key   Column to declare as PRIMARY KEY when import creates the table.
+  --uuid          Column to create as UUID PRIMARY KEY when import creates the table.
+  --hashed        Column to create as HASHED when import creates the table (repeatable).
+  --dsl           DSL query selecting the exported rows (default: all rows).
+  --name          Name of the API key to create.
+  --table         Table to import into or export, or the role of an API key on a table, e.g. users:write or '*:read' (repeatable).
+  --explicit-source  Table that the API key cannot read with _source '*' (repeatable; default: HASHED tables).
+  --format        Output format: json (default), table, ndjson, csv or tsv. For import/export, the file
+                  format: csv, ndjson or json (default: from the file extension; ndjson for stdout).
+  --max-width     Truncate table cells to this many characters (default: 40; 0 for no limit).
+  --no-header     Leave out the header row of table, csv and tsv output.
+  --explain       Show the compiled SQL and query plan of a search/aggregate instead of running it.
   --help, -h      Show this help message.
 
+Exit Codes:
+  0 success, 1 other error, 2 validation, 3 schema mismatch, 4 not found, 5 constraint violation,
+  6 unique conflict, 7 database busy, 8 query failed, 9 migration failed.
+
 REPL Examples:
   zdslite> await db.create('users', { id: 'INTEGER', name: 'TEXT' })
   zdslite> await db.insert('users', { id: 1, name: 'Alice' })
   zdslite> await db.search('users', { query: { term: { id: 1 } } })
   zdslite> .tables
+  zdslite> .schema users
+  zdslite> .explain users { "query": { "term": { "email": "a@b.c" } } }
+  zdslite> .format table
+  zdslite> .count users {"query": {"term": {"status": "active"}}}
+  zdslite> .indexes users
+  zdslite> .dsl
+  zdslite(dsl)> {"method": "search", "table": "users", "dsl": {"size": 5}}
+  zdslite(dsl)> .dsl
+  zdslite> .read queries.ndjson
+  zdslite> .timing off
   zdslite> .exit
 `);
 }
 
 /**
- * Starts the interactive REPL mode.
+ * Runs a single query command, or a script of commands (a JSON array or NDJSON), from the main argument,
+ * `--file` or stdin. With `--tx`, every command runs in one transaction.
  */
-function startReplMode(dbPath: string) {
-  console.log(`Connecting to ${dbPath}...`);
-  let db: ZDSLite;
-  try {
-    db = new ZDSLite(dbPath);
-    console.log(`Connected. Welcome to ZDSLite REPL!`);
-    console.log(`Type .help for commands, or use the 'db' object.`);
-  } catch (e: any) {
-    console.error(`Failed to connect: ${e.message}`);
+async function runSingleCommand(args: minimist.ParsedArgs, dbPath: string) {
+  const input = readCommandInput(args);
+  if (input.trim() === '') {
+    console.error('Error: A JSON query is required, as the main argument, with --file, or on stdin.\n');
+    printHelp();
     process.exit(1);
   }
 
-  // Create the REPL server
-  const replServer = repl.start({
-    prompt: 'zdslite> ',
-    useColors: true,
-  });
-
-  // Inject the 'db' instance into the REPL's context
-  replServer.context.db = db;
-
-  // Add a custom .tables command
-  replServer.defineCommand('tables', {
-    help: 'List all tables in the database',
-    async action() {
-      this.clearBufferedCommand();
-      try {
-        // Use db.run, which is part of ZDSLite, but for a raw query
-        const result = db.run("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%';");
-        // Note: db.run in the TS version returns RunResult, not the data.
-        // For a REPL, we might want a db.query() method that returns data.
-        // For now, let's adjust to use search as a workaround.
-        const tables = await db.search('sqlite_master', {
-            _source: ['name'],
-            query: {
-                bool: {
-                    must: [
-                        { term: { type: 'table' } }
-                    ],
-                    must_not: [
-                        { match_phrase: { name: 'sqlite_' } }
-                    ]
-                }
-            },
-            size: 100
-        });
-        console.log(tables.map(t => t.name));
-
-      } catch (e: any) {
-        console.error('Failed to list tables:', e.message);
+  try {
+    const { payloads, script } = parsePayloads(input);
+    // With --explain, search and aggregate payloads are explained instead of executed.
+    const calls = args.explain ? payloads.map(explainPayload) : payloads;
+    const db = new ZDSLite(dbPath, { errorMode: 'throw' });
+    try {
+      if (!script && calls[0].method === 'searchStream') {
+        if (!calls[0].table) throw new ZDSLiteValidationError('"table" is required for "searchStream"');
+        if (args.format === 'table' || args.format === 'tsv') throw new ZDSLiteValidationError('"searchStream" prints ndjson, csv or json.');
+        // Every matching row is printed as it is read, so memory stays flat for large tables.
+        const format = args.format === undefined ? 'ndjson' : resolveFormat(args.format);
+        await writeOutput(formatRows(db.searchStream(calls[0].table, calls[0].dsl || {}), format, { header: args.header }));
+        return;
       }
-      this.displayPrompt();
+      if (calls.some(c => c.method === 'searchStream')) throw new ZDSLiteValidationError('"searchStream" cannot run in a script.');
+
+      const format = outputFormat(args.format ?? 'json');
+      const options = formatOptions(args);
+      const print = (result: any) => process.stdout.write(formatResult(result, format, options));
+      let result: any;
+      if (!script && !args.tx) result = await dispatch(db, calls[0], { local: true });
+      else if (args.tx) result = await dispatch(db, { method: 'transaction', operations: calls }, { local: true });
+      else result = await runScript(db, calls, print);
+
+      print(result);
+    } finally {
+      db.close();
+    }
+  } catch (error: any) {
+    reportError(error);
+    process.exit(exitCodeOf(error));
+  }
+}
+
+// Turns a search or aggregate payload into an `explain` payload for its method; other methods cannot be explained.
+function explainPayload(payload: DispatchPayload): DispatchPayload {
+  if (!['search', 'searchHits', 'aggregate'].includes(payload.method)) {
+    throw new ZDSLiteValidationError(`--explain only explains "search", "searchHits" and "aggregate" payloads, not "${payload.method}".`);
+  }
+  return { ...payload, method: 'explain', options: { ...payload.options, method: payload.method } };
+}
+
+// The query comes from the main argument, --file, or stdin when it is piped.
+function readCommandInput(args: minimist.ParsedArgs): string {
+  if (args._[0] !== undefined) return String(args._[0]);
+  if (args.file) return fs.readFileSync(path.resolve(args.file), 'utf8');
+  if (!process.stdin.isTTY) return fs.readFileSync(0, 'utf8');
+  return '';
+}
+
+// The --no-header and --max-width options of the output formats.
+function formatOptions(args: minimist.ParsedArgs): FormatOptions {
+  const maxWidth = args['max-width'] !== undefined ? parseInt(args['max-width'], 10) : undefined;
+  if (maxWidth !== undefined && !(maxWidth >= 0)) throw new ZDSLiteValidationError('--max-width must be a non-negative integer.');
+  return { header: args.header, maxWidth };
+}
+
+/**
+ * Runs the statements of a script in order, each committed on its own. If one fails, the results of
+ * the statements before it are printed, and the error names the failed statement.
+ */
+async function runScript(db: ZDSLite, calls: DispatchPayload[], print: (results: any[]) => void): Promise<any[]> {
+  const results: any[] = [];
+  for (const [i, call] of calls.entries()) {
+    try {
+      results.push(await dispatch(db, call, { local: true }));
+    } catch (error: any) {
+      if (results.length > 0) print(results);
+      throw queryError(`Statement ${i + 1} ('${call.method}') failed; the ${results.length} statement(s) before it were applied.`, { cause: error });
     }
+  }
+  return results;
+}
+
+/**
+ * Writes chunks of text to stdout (or another stream), waiting for the reader when the pipe is full.
+ * A reader that stops early (e.g. `| head`) ends the stream without an error.
+ */
+async function writeOutput(chunks: AsyncIterable<string>, out: NodeJS.WritableStream = process.stdout) {
+  let closed = false;
+  out.on('error', (error: any) => {
+    if (error.code !== 'EPIPE') throw error;
+    closed = true;
   });
+  for await (const chunk of chunks) {
+    if (closed) break;
+    if (!out.write(chunk)) {
+      await new Promise<void>(resolve => {
+        const done = () => { ['drain', 'close', 'error'].forEach(e => out.off(e, done)); resolve(); };
+        ['drain', 'close', 'error'].forEach(e => out.on(e, done));
+      });
+    }
+  }
 }
 
 /**
- * Runs a single query command from the arguments.
+ * Runs the `migrate` command: applies, rolls back, or reports migrations from a directory.
  */
-async function runSingleCommand(args: minimist.ParsedArgs, dbPath: string) {
-  const queryJsonString = args._[0];
-  if (!queryJsonString) {
-    console.error('Error: A JSON query string is required as the main argument.\n');
+async function runMigrateCommand(args: minimist.ParsedArgs) {
+  const dbPath = args.db;
+  const dir = args.dir;
+  if (!dbPath || !dir) {
+    console.error('Error: migrate requires --db <path> and --dir <migrations_dir>.\n');
     printHelp();
     process.exit(1);
   }
 
-  let queryPayload;
-  try {
-    queryPayload = JSON.parse(queryJsonString);
-  } catch (e: any) {
-    console.error('Error: Invalid JSON query string provided.', e.message);
+  const action = (args._[1] || 'up') as 'up' | 'down' | 'status';
+  if (!['up', 'down', 'status'].includes(action)) {
+    console.error(`Error: Unknown migrate action "${action}". Use up, down, or status.`);
     process.exit(1);
   }
 
-  const { method, table, dsl, data, query, doc, columns } = queryPayload;
+  try {
+    const db = new ZDSLite(dbPath, { errorMode: 'throw' });
+    const migrations = loadMigrations(dir);
+    let result: any;
+    if (action === 'status') {
+      result = await db.migrationStatus(migrations);
+    } else {
+      const steps = args.steps !== undefined ? parseInt(args.steps, 10) : undefined;
+      result = await db.migrate(migrations, { direction: action, to: args.to, steps });
+    }
+    console.log(JSON.stringify(result, null, 2));
+    db.close();
+  } catch (error: any) {
+    reportError(error);
+    process.exit(exitCodeOf(error));
+  }
+}
 
-  if (!method) {
-    console.error('Error: JSON query must include a "method" key.');
+/**
+ * Runs the `bulk` command: applies an NDJSON file of bulk operations and prints the per-item results.
+ * Exits with the code of the first failed operation, if any.
+ */
+async function runBulkCommand(args: minimist.ParsedArgs) {
+  const dbPath = args.db;
+  const file = args.file;
+  if (!dbPath || !file) {
+    console.error('Error: bulk requires --db <path> and --file <ops.ndjson>.\n');
+    printHelp();
     process.exit(1);
   }
-  
-  if (!table && !['dropIndex'].includes(method)) {
-     console.error('Error: JSON query must include a "table" key.');
-     process.exit(1);
+
+  try {
+    const operations = parseBulkNdjson(fs.readFileSync(path.resolve(file), 'utf8'));
+    const chunkSize = args['chunk-size'] !== undefined ? parseInt(args['chunk-size'], 10) : undefined;
+    const db = new ZDSLite(dbPath, { errorMode: 'throw' });
+    const result = await db.bulk(operations, { chunkSize, atomic: args.atomic });
+    console.log(JSON.stringify(result, null, 2));
+    db.close();
+    const failed = result.items.map(item => Object.values(item)[0]!).find(item => item.error);
+    if (failed) process.exit(EXIT_CODES[failed.error!.code as ZDSLiteErrorCode] || 1);
+  } catch (error: any) {
+    reportError(error);
+    process.exit(exitCodeOf(error));
+  }
+}
+
+/**
+ * Runs the `import` command: loads a CSV, NDJSON or JSON file into a table, creating the table with
+ * inferred column types if it does not exist. Rows are inserted in batches, and the summary lists every
+ * row that could not be read or inserted. Exits with the code of the first rejected row, if any.
+ */
+async function runImportCommand(args: minimist.ParsedArgs) {
+  const dbPath = args.db;
+  const table = args.table;
+  const file = args.file;
+  if (!dbPath || !table || !file) {
+    console.error('Error: import requires --db <path>, --table <table> and --file <file>.\n');
+    printHelp();
+    process.exit(1);
   }
 
   try {
-    const db = new ZDSLite(dbPath);
-    let result: any;
+    const format = resolveFormat(args.format, file);
+    const { records, errors } = parseRecords(fs.readFileSync(path.resolve(file), 'utf8'), format);
+    const batchSize = args['batch-size'] !== undefined ? parseInt(args['batch-size'], 10) : 1000;
+    if (!(batchSize > 0)) throw new ZDSLiteValidationError('--batch-size must be a positive integer.');
+    const db = new ZDSLite(dbPath, { errorMode: 'throw' });
 
-    switch (method) {
-      case 'search':
-        if (!dsl) throw new ZDSLiteValidationError('"dsl" object is required for "search"');
-        result = await db.search(table, dsl);
-        break;
-      
-      case 'aggregate':
-        if (!dsl) throw new ZDSLiteValidationError('"dsl" object is required for "aggregate"');
-        result = await db.aggregate(table, dsl);
-        break;
-      
-      case 'insert':
-        if (!data) throw new ZDSLiteValidationError('"data" object/array is required for "insert"');
-        result = await db.insert(table, data);
-        break;
-      
-      case 'update':
-        if (!doc) throw new ZDSLiteValidationError('"doc" object is required for "update"');
-        if (!query) throw new ZDSLiteValidationError('"query" clause is required for "update"');
-        result = await db.update(table, doc, query);
-        break;
-      
-      case 'delete':
-         if (!query) throw new ZDSLiteValidationError('"query" object is required for "delete"');
-        result = await db.delete(table, { query });
-        break;
-        
-      case 'create':
-        if (!columns) throw new ZDSLiteValidationError('"columns" object is required for "create"');
-        result = await db.create(table, columns);
-        break;
-
-      case 'drop':
-        result = await db.drop(table);
-        break;
-      
-      default:
-        throw new ZDSLiteValidationError(`Unsupported method: ${method}`);
+    const created = !(await db.listTables()).includes(table);
+    if (created) {
+      const hashed = [].concat(args.hashed || []).map(String);
+      await db.create(table, inferColumns(records.map(r => r.doc), { primaryKey: args['primary-key'], uuid: args.uuid, hashed }));
     }
-    
-    // Print successful result as JSON
-    console.log(JSON.stringify(result, null, 2));
-    
+    const schema = created ? null : (await db.describe(table)).schema;
+    const operations = records.map(r => ({ create: { _index: table, doc: schema ? r.doc : toSqliteValues(r.doc) } }));
+    // Each batch is committed on its own; a rejected row is rolled back alone.
+    const result = await db.bulk(operations, { chunkSize: batchSize });
+    let imported = 0;
+    result.items.forEach((item, i) => {
+      const { error } = item.create!;
+      if (error) errors.push({ row: records[i].row, error: error.reason, code: error.code });
+      else imported++;
+    });
+    errors.sort((a, b) => a.row - b.row);
+
+    console.log(JSON.stringify({ table, created, format, imported, failed: errors.length, errors }, null, 2));
+    db.close();
+    if (errors.length > 0) process.exit(EXIT_CODES[errors[0].code as ZDSLiteErrorCode] || 1);
   } catch (error: any) {
-    // Handle custom errors
-    console.error(`ZDSLite Error: ${error.name || 'Error'}`);
-    console.error(`Message: ${error.message}\n`);
-    
-    if (error instanceof ZDSLiteQueryError) {
-      console.error("--- Failed SQL ---");
-      console.error(error.sql);
-      console.error("\n--- DB Cause ---");
-      console.error(error.cause);
+    reportError(error);
+    process.exit(exitCodeOf(error));
+  }
+}
+
+/**
+ * Runs the `export` command: streams the rows of a table that match a DSL query as CSV, NDJSON or JSON,
+ * to stdout or to `--file`.
+ */
+async function runExportCommand(args: minimist.ParsedArgs) {
+  const dbPath = args.db;
+  const table = args.table;
+  if (!dbPath || !table) {
+    console.error('Error: export requires --db <path> and --table <table>.\n');
+    printHelp();
+    process.exit(1);
+  }
+
+  try {
+    const format = args.format === undefined && !args.file ? 'ndjson' : resolveFormat(args.format, args.file);
+    let dsl = {};
+    if (args.dsl !== undefined) {
+      try { dsl = JSON.parse(args.dsl); }
+      catch (e: any) { throw new ZDSLiteValidationError(`Invalid --dsl JSON: ${e.message}`); }
     }
-    
+    const db = new ZDSLite(dbPath, { errorMode: 'throw' });
+    // The table is checked before the output file is created.
+    await db.describe(table);
+    const out = args.file ? fs.createWriteStream(path.resolve(args.file)) : process.stdout;
+    await writeOutput(formatRows(db.searchStream(table, dsl), format, { header: args.header }), out);
+    if (out !== process.stdout) await new Promise<void>((resolve, reject) => (out as fs.WriteStream).end((error?: Error | null) => (error ? reject(error) : resolve())));
+    db.close();
+  } catch (error: any) {
+    reportError(error);
+    process.exit(exitCodeOf(error));
+  }
+}
+
+/**
+ * Runs the `keys` command: creates, lists, or revokes the API keys of the API server.
+ */
+async function runKeysCommand(args: minimist.ParsedArgs) {
+  const dbPath = args.db;
+  const action = args._[1];
+  if (!dbPath || !['create', 'list', 'revoke'].includes(action)) {
+    console.error('Error: keys requires an action (create, list or revoke) and --db <path>.\n');
+    printHelp();
     process.exit(1);
   }
+
+  try {
+    const db = new ZDSLite(dbPath, { errorMode: 'throw' });
+    let result: any;
+    if (action === 'create') {
+      const tables: Record<string, ApiKeyRole> = {};
+      for (const entry of [].concat(args.table || [])) {
+        const [table, role] = String(entry).split(':');
+        if (!table || !role) throw new ZDSLiteValidationError(`Invalid --table "${entry}". Use <table>:<read|write|admin>.`);
+        tables[table] = role as ApiKeyRole;
+      }
+      if (Object.keys(tables).length === 0) throw new ZDSLiteValidationError('keys create requires at least one --table <table>:<role>.');
+      const explicitSource = args['explicit-source'] !== undefined ? [].concat(args['explicit-source']).map(String) : undefined;
+      result = await db.createApiKey(args.name, { tables, ...(explicitSource ? { explicitSource } : {}) });
+      if (!result.acknowledged) throw result.error;
+      console.error('Store this key now: it cannot be shown again.');
+    } else if (action === 'list') {
+      result = await db.listApiKeys();
+    } else {
+      if (!args._[2]) throw new ZDSLiteValidationError('Usage: zdslite keys revoke <id> --db <path>');
+      result = await db.revokeApiKey(String(args._[2]));
+      if (!result.acknowledged) throw result.error;
+    }
+    console.log(JSON.stringify(result, null, 2));
+    db.close();
+  } catch (error: any) {
+    reportError(error);
+    process.exit(exitCodeOf(error));
+  }
+}
+
+// Exit codes by error code, so that scripts can tell failures apart. Any other error exits with 1.
+const EXIT_CODES: Partial<Record<ZDSLiteErrorCode, number>> = {
+  VALIDATION_FAILED: 2,
+  SCHEMA_MISMATCH: 3,
+  NOT_FOUND: 4,
+  CONSTRAINT_VIOLATION: 5,
+  UNIQUE_CONFLICT: 6,
+  DATABASE_BUSY: 7,
+  QUERY_FAILED: 8,
+  MIGRATION_FAILED: 9,
+};
+
+// A failed transaction exits with the code of the error that made it roll back.
+function exitCodeOf(error: any): number {
+  const root = rootError(error);
+  return (root instanceof ZDSLiteError && EXIT_CODES[root.code]) || 1;
+}
+
+/**
+ * Prints an error, including the failed SQL and its cause for query errors.
+ */
+function reportError(error: any) {
+  // Handle custom errors
+  console.error(`ZDSLite Error: ${error.name || 'Error'}${error instanceof ZDSLiteError ? ` (${error.code})` : ''}`);
+  console.error(`Message: ${error.message}\n`);
+  
+  if (error instanceof ZDSLiteQueryError && error.sql) {
+    console.error("--- Failed SQL ---");
+    console.error(error.sql);
+    console.error("\n--- DB Cause ---");
+    console.error(error.cause);
+  } else if (error instanceof ZDSLiteError && error.cause) {
+    console.error("--- Cause ---");
+    console.error(error.cause);
+  }
 }
 
 /**
@@ -207,10 +440,11 @@ async function main() {
       server: 's',
       port: 'p'
     },
-    string: ['connect', 'db'],
-    boolean: ['help', 'server'],
+    string: ['_', 'connect', 'db', 'dir', 'to', 'name', 'table', 'explicit-source', 'file', 'format', 'dsl', 'primary-key', 'uuid', 'hashed'],
+    boolean: ['help', 'server', 'explain', 'atomic', 'tx', 'header'],
     default: {
-      port: '3000'
+      port: '3000',
+      header: true
     }
   });
 
@@ -228,6 +462,21 @@ async function main() {
     const port = parseInt(argv.port || '3000', 10);
     startServer({ dbPath, port });
   }
+  else if (argv._[0] === 'migrate') {
+    await runMigrateCommand(argv);
+  }
+  else if (argv._[0] === 'bulk') {
+    await runBulkCommand(argv);
+  }
+  else if (argv._[0] === 'import') {
+    await runImportCommand(argv);
+  }
+  else if (argv._[0] === 'export') {
+    await runExportCommand(argv);
+  }
+  else if (argv._[0] === 'keys') {
+    await runKeysCommand(argv);
+  }
   else if (argv.connect) {
     // REPL Mode
     const dbPath = argv.connect;
@@ -236,7 +485,7 @@ async function main() {
          printHelp();
          process.exit(1);
     }
-    startReplMode(dbPath);
+    startRepl(dbPath);
   } else if (argv.db) {
     // --- Single Command Mode ---
     await runSingleCommand(argv, argv.db);
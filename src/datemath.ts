@@ -0,0 +1,198 @@
+import { SqlValue, DateFormat } from './types';
+import { ZDSLiteValidationError } from './errors';
+
+/**
+ * Date math units: years, months, weeks, days, hours, minutes and seconds. Quarters are only used for rounding.
+ */
+export type DateUnit = 'y' | 'q' | 'M' | 'w' | 'd' | 'h' | 'H' | 'm' | 's';
+
+export interface DateMathOptions {
+  /** The current time in epoch milliseconds, used for `now`. Defaults to `Date.now()`. */
+  now?: number;
+  /** Rounds `/unit` up to the last millisecond of the period instead of down to its start. */
+  roundUp?: boolean;
+  /** A UTC offset ("+01:00") or IANA time zone ("Europe/Paris") used for rounding and for dates without an offset. */
+  timeZone?: string;
+  /** How a numeric anchor such as "1735689600||+1d" is read. */
+  format?: DateFormat;
+}
+
+// "2025", "2025-01", "2025-01-31", "2025-01-31T10:00", "2025-01-31 10:00:00.123+02:00", ...
+const DATE_REGEX = /^(\d{4})(?:-(\d{2})(?:-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/;
+const MATH_REGEX = /([+-])(\d*)([yMwdhHms])|\/([yMwdhHms])/g;
+const OFFSET_REGEX = /^([+-])(\d{2}):?(\d{2})$/;
+
+const MINUTE = 60_000;
+const HOUR = 3_600_000;
+const DAY = 86_400_000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns true if a string uses date math: it starts with `now` or anchors a date with `||`.
+ */
+export function isDateMath(value: string): boolean {
+  return /^now\b/.test(value) || value.includes('||');
+}
+
+/**
+ * Evaluates an Elasticsearch-style date math expression, e.g. "now-7d/d" or "2025-01-01||+1M/M".
+ * @param expression The expression. A plain date ("2025-01-01") is also accepted.
+ * @param options The current time, rounding direction, time zone and numeric anchor format.
+ * @returns {number} The resulting instant in epoch milliseconds.
+ * @throws {ZDSLiteValidationError} If the expression or time zone is invalid.
+ */
+export function parseDateMath(expression: string, options: DateMathOptions = {}): number {
+  const timeZone = options.timeZone || 'UTC';
+  const text = String(expression).trim();
+  let anchor: string; let math: string;
+  if (text.startsWith('now')) { anchor = 'now'; math = text.slice(3); }
+  else if (text.includes('||')) { [anchor, math] = text.split('||', 2); }
+  else { anchor = text; math = ''; }
+
+  let time = anchor === 'now' ? (options.now ?? Date.now()) : parseDate(anchor, timeZone, options.format);
+  // The operations must cover the whole remainder, e.g. "+1d/d".
+  if (math.replace(MATH_REGEX, '') !== '') throw new ZDSLiteValidationError(`Invalid date math: ${expression}`);
+  for (const match of math.matchAll(MATH_REGEX)) {
+    if (match[4]) { time = roundDate(time, match[4] as DateUnit, timeZone, options.roundUp); continue; }
+    const amount = (match[2] === '' ? 1 : Number(match[2])) * (match[1] === '-' ? -1 : 1);
+    time = addToDate(time, amount, match[3] as DateUnit, timeZone);
+  }
+  return time;
+}
+
+/**
+ * Parses a date string, or an epoch number when `format` is an epoch format.
+ * Dates without an offset are read in `timeZone`.
+ */
+export function parseDate(value: SqlValue, timeZone = 'UTC', format?: DateFormat): number {
+  if (typeof value === 'number' || (typeof value === 'string' && format && format !== 'iso' && /^-?\d+$/.test(value.trim()))) {
+    const epoch = Number(value);
+    return format === 'epoch_second' ? epoch * 1000 : epoch;
+  }
+  const match = typeof value === 'string' ? value.trim().match(DATE_REGEX) : null;
+  if (!match) throw new ZDSLiteValidationError(`Invalid date: ${value}`);
+  const [, year, month = '1', day = '1', hour = '0', minute = '0', second = '0', millis = '0', zone] = match;
+  const wall = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second), Number(millis.padEnd(3, '0')));
+  if (zone) return wall - (zone === 'Z' ? 0 : parseOffset(zone)!);
+  return fromWallTime(wall, timeZone);
+}
+
+/**
+ * Converts an instant to the value stored in a column of the given format.
+ */
+export function formatDate(epochMillis: number, format: DateFormat = 'iso'): SqlValue {
+  switch (format) {
+    case 'epoch_millis': return epochMillis;
+    case 'epoch_second': return Math.floor(epochMillis / 1000);
+    case 'iso': return new Date(epochMillis).toISOString();
+    default: throw new ZDSLiteValidationError(`Unsupported date format: ${format}. Use 'iso', 'epoch_millis' or 'epoch_second'.`);
+  }
+}
+
+/**
+ * Formats an instant as ISO 8601 in a time zone, e.g. "2025-01-01T00:00:00.000+01:00" ("Z" for UTC).
+ */
+export function toDateString(epochMillis: number, timeZone = 'UTC'): string {
+  const offset = timeZoneOffset(epochMillis, timeZone);
+  const local = new Date(epochMillis + offset).toISOString().slice(0, -1);
+  if (offset === 0) return `${local}Z`;
+  const minutes = Math.abs(offset) / MINUTE;
+  return `${local}${offset < 0 ? '-' : '+'}${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Rounds an instant down to the start of its calendar period in a time zone (weeks start on Monday),
+ * or with `roundUp`, up to the last millisecond of the period.
+ */
+export function roundDate(epochMillis: number, unit: DateUnit, timeZone = 'UTC', roundUp = false): number {
+  const wall = new Date(toWallTime(epochMillis, timeZone));
+  const y = wall.getUTCFullYear(); const mo = wall.getUTCMonth(); const d = wall.getUTCDate();
+  const h = wall.getUTCHours(); const mi = wall.getUTCMinutes(); const s = wall.getUTCSeconds();
+  let start: number; let next: number;
+  switch (unit) {
+    case 'y': start = Date.UTC(y, 0, 1); next = Date.UTC(y + 1, 0, 1); break;
+    case 'q': start = Date.UTC(y, mo - (mo % 3), 1); next = Date.UTC(y, mo - (mo % 3) + 3, 1); break;
+    case 'M': start = Date.UTC(y, mo, 1); next = Date.UTC(y, mo + 1, 1); break;
+    case 'w': start = Date.UTC(y, mo, d - ((wall.getUTCDay() + 6) % 7)); next = start + 7 * DAY; break;
+    case 'd': start = Date.UTC(y, mo, d); next = Date.UTC(y, mo, d + 1); break;
+    case 'h': case 'H': start = Date.UTC(y, mo, d, h); next = start + HOUR; break;
+    case 'm': start = Date.UTC(y, mo, d, h, mi); next = start + MINUTE; break;
+    case 's': start = Date.UTC(y, mo, d, h, mi, s); next = start + 1000; break;
+    default: throw new ZDSLiteValidationError(`Invalid date unit: ${unit}`);
+  }
+  return roundUp ? fromWallTime(next, timeZone) - 1 : fromWallTime(start, timeZone);
+}
+
+/**
+ * Rounds an instant down to a multiple of a fixed interval, counted in local time of the time zone.
+ */
+export function roundFixed(epochMillis: number, intervalMillis: number, timeZone = 'UTC'): number {
+  const wall = toWallTime(epochMillis, timeZone);
+  return fromWallTime(Math.floor(wall / intervalMillis) * intervalMillis, timeZone);
+}
+
+/**
+ * Validates a time zone, throwing a ZDSLiteValidationError if it is neither a UTC offset nor a known IANA zone.
+ */
+export function validateTimeZone(timeZone: string): void {
+  timeZoneOffset(0, timeZone);
+}
+
+// Calendar units move the local (wall clock) date, so "+1d" keeps the time of day across DST changes,
+// and month arithmetic clamps to the end of shorter months ("2025-01-31||+1M" is 2025-02-28).
+function addToDate(epochMillis: number, amount: number, unit: DateUnit, timeZone: string): number {
+  switch (unit) {
+    case 'h': case 'H': return epochMillis + amount * HOUR;
+    case 'm': return epochMillis + amount * MINUTE;
+    case 's': return epochMillis + amount * 1000;
+  }
+  const wall = new Date(toWallTime(epochMillis, timeZone));
+  if (unit === 'd' || unit === 'w') {
+    wall.setUTCDate(wall.getUTCDate() + amount * (unit === 'w' ? 7 : 1));
+  } else {
+    const months = wall.getUTCMonth() + amount * (unit === 'y' ? 12 : unit === 'q' ? 3 : 1);
+    const lastDay = new Date(Date.UTC(wall.getUTCFullYear(), months + 1, 0)).getUTCDate();
+    wall.setUTCDate(Math.min(wall.getUTCDate(), lastDay));
+    wall.setUTCMonth(months);
+  }
+  return fromWallTime(wall.getTime(), timeZone);
+}
+
+function toWallTime(epochMillis: number, timeZone: string): number {
+  return epochMillis + timeZoneOffset(epochMillis, timeZone);
+}
+
+function fromWallTime(wall: number, timeZone: string): number {
+  // The offset is looked up twice so that wall times near a DST change resolve to the right side.
+  const guess = wall - timeZoneOffset(wall, timeZone);
+  return wall - timeZoneOffset(guess, timeZone);
+}
+
+function parseOffset(zone: string): number | null {
+  const match = zone.match(OFFSET_REGEX);
+  if (!match) return null;
+  return (match[1] === '-' ? -1 : 1) * (Number(match[2]) * HOUR + Number(match[3]) * MINUTE);
+}
+
+// Returns the offset of a time zone from UTC at the given instant, in milliseconds.
+function timeZoneOffset(epochMillis: number, timeZone: string): number {
+  if (timeZone === 'UTC' || timeZone === 'Z') return 0;
+  const fixed = parseOffset(timeZone);
+  if (fixed !== null) return fixed;
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+      });
+    } catch {
+      throw new ZDSLiteValidationError(`Invalid time_zone: ${timeZone}. Use an offset such as "+01:00" or an IANA name such as "Europe/Paris".`);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(epochMillis))) parts[part.type] = Number(part.value);
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wall - (epochMillis - (((epochMillis % 1000) + 1000) % 1000));
+}
@@ -0,0 +1,225 @@
+import type { ZDSLite } from './index';
+import { ZDSLiteValidationError } from './errors';
+import { loadMigrations } from './migrations';
+
+/**
+ * A method call described as JSON, as sent to the API server's `/query` endpoint.
+ */
+export interface DispatchPayload {
+  method: string;
+  table?: string;
+  dsl?: any;
+  data?: any;
+  query?: any;
+  doc?: any;
+  columns?: any;
+  conflictKey?: string | string[];
+  fields?: string[];
+  options?: any;
+  indexName?: string;
+  /** The method calls to run in one transaction, for `method: 'transaction'`. */
+  operations?: DispatchPayload[];
+  column?: string;
+  type?: any;
+  schema?: any;
+  sql?: string;
+  params?: any[];
+  /** The migrations to apply, or the directory to load them from, for `migrate` and `migrationStatus`. */
+  migrations?: any[] | string;
+  name?: string;
+  permissions?: any;
+  id?: string;
+  key?: string;
+  password?: string;
+  hash?: string;
+}
+
+/**
+ * The methods that only run with `{ local: true }`, i.e. from the CLI: raw SQL, manual transactions,
+ * migrations, API key management and password checks. The API server does not expose them.
+ */
+export const LOCAL_METHODS = [
+  'run', 'beginTransaction', 'commit', 'rollback', 'migrate', 'migrationStatus',
+  'createApiKey', 'listApiKeys', 'hasActiveApiKeys', 'revokeApiKey', 'verifyApiKey', 'verifyPassword', 'needsRehash',
+];
+
+/**
+ * Calls the ZDSLite method named by a payload with the arguments it carries.
+ * `transaction` runs `operations` in order in one transaction and resolves with their results;
+ * if one fails, all of them are rolled back.
+ * @param db The database to run the method on.
+ * @param payload The method name and its arguments.
+ * @param context `local: true` also allows the {@link LOCAL_METHODS}.
+ * @returns {Promise<any>} A promise that resolves with the method's result.
+ * @throws {ZDSLiteValidationError} If the method is unknown or its arguments are missing.
+ */
+export async function dispatch(db: ZDSLite, payload: DispatchPayload, context: { local?: boolean } = {}): Promise<any> {
+  if (!payload || typeof payload !== 'object') throw new ZDSLiteValidationError('The request body must be a JSON object.');
+  const { method, table, dsl, data, query, doc, columns, conflictKey, fields, options, indexName, operations } = payload;
+  if (context.local && LOCAL_METHODS.includes(method)) return dispatchLocal(db, payload);
+
+  switch (method) {
+    case 'search':
+      if (!table || !dsl) throw new ZDSLiteValidationError('"table" and "dsl" are required for "search"');
+      return db.search(table, dsl);
+    case 'searchHits':
+      if (!table || !dsl) throw new ZDSLiteValidationError('"table" and "dsl" are required for "searchHits"');
+      return db.searchHits(table, dsl);
+    case 'count':
+      if (!table) throw new ZDSLiteValidationError('"table" is required for "count"');
+      return db.count(table, dsl || {});
+    case 'aggregate':
+      if (!table || !dsl) throw new ZDSLiteValidationError('"table" and "dsl" are required for "aggregate"');
+      return db.aggregate(table, dsl);
+    case 'insert':
+      if (!table || !data) throw new ZDSLiteValidationError('"table" and "data" are required for "insert"');
+      return db.insert(table, data);
+    case 'update':
+      if (!table || !doc || !query) throw new ZDSLiteValidationError('"table", "doc", and "query" are required for "update"');
+      return db.update(table, doc, query);
+    case 'delete':
+      if (!table || !query) throw new ZDSLiteValidationError('"table" and "query" are required for "delete"');
+      return db.delete(table, { query });
+    case 'upsert':
+      if (!table || !doc || !conflictKey) throw new ZDSLiteValidationError('"table", "doc", and "conflictKey" are required for "upsert"');
+      return db.upsert(table, doc, conflictKey);
+    case 'create':
+      if (!table || !columns) throw new ZDSLiteValidationError('"table" and "columns" are required for "create"');
+      return db.create(table, columns);
+    case 'drop':
+      if (!table) throw new ZDSLiteValidationError('"table" is required for "drop"');
+      return db.drop(table);
+    case 'createIndex':
+      if (!table || !fields) throw new ZDSLiteValidationError('"table" and "fields" are required for "createIndex"');
+      return db.createIndex(table, fields, options);
+    case 'dropIndex':
+      if (!indexName) throw new ZDSLiteValidationError('"indexName" is required for "dropIndex"');
+      return db.dropIndex(indexName);
+    case 'createFullTextIndex':
+      if (!table || !fields) throw new ZDSLiteValidationError('"table" and "fields" are required for "createFullTextIndex"');
+      return db.createFullTextIndex(table, fields, options);
+    case 'dropFullTextIndex':
+      if (!table) throw new ZDSLiteValidationError('"table" is required for "dropFullTextIndex"');
+      return db.dropFullTextIndex(table);
+    case 'registerColumnType':
+      if (!table || !payload.column || !payload.type) throw new ZDSLiteValidationError('"table", "column", and "type" are required for "registerColumnType"');
+      return db.registerColumnType(table, payload.column, payload.type);
+    case 'registerSchema':
+      if (!table || !payload.schema) throw new ZDSLiteValidationError('"table" and "schema" are required for "registerSchema"');
+      return db.registerSchema(table, payload.schema);
+    case 'describe':
+      if (!table) throw new ZDSLiteValidationError('"table" is required for "describe"');
+      return db.describe(table);
+    case 'listTables':
+      return db.listTables();
+    case 'listIndexes':
+      if (!table) throw new ZDSLiteValidationError('"table" is required for "listIndexes"');
+      return db.listIndexes(table);
+    case 'explain':
+      if (!table || !dsl) throw new ZDSLiteValidationError('"table" and "dsl" are required for "explain"');
+      return db.explain(table, dsl, options);
+    case 'compile':
+      if (!table || !dsl) throw new ZDSLiteValidationError('"table" and "dsl" are required for "compile"');
+      return db.compile(table, dsl, options);
+    case 'bulk':
+      if (!Array.isArray(data)) throw new ZDSLiteValidationError('"data" array of operations is required for "bulk"');
+      return db.bulk(data, options);
+    case 'transaction': {
+      if (!Array.isArray(operations)) throw new ZDSLiteValidationError('"operations" array is required for "transaction"');
+      if (operations.some(op => op && op.method === 'transaction')) throw new ZDSLiteValidationError('Transactions cannot be nested.');
+      const results: any[] = [];
+      await db.transaction(async (tx) => {
+        for (const op of operations) {
+          const result = await dispatch(tx, op, context);
+          // DML methods report failures in their result outside of a transaction; inside one they throw.
+          if (result && result.acknowledged === false) throw result.error;
+          results.push(result);
+        }
+      });
+      return results;
+    }
+    default:
+      if (!method) throw new ZDSLiteValidationError(`Invalid or missing 'method' in request body.`);
+      throw new ZDSLiteValidationError(context.local ? `Unsupported method: '${method}'.` : `Method '${method}' is not supported via the API server.`);
+  }
+}
+
+// Runs the methods that are not exposed by the API server.
+async function dispatchLocal(db: ZDSLite, payload: DispatchPayload): Promise<any> {
+  const { method, sql, params, migrations, options, name, permissions, id, key, password, hash } = payload;
+  const loaded = () => {
+    if (typeof migrations === 'string') return loadMigrations(migrations);
+    if (!Array.isArray(migrations)) throw new ZDSLiteValidationError(`"migrations" (an array or a directory) is required for "${method}"`);
+    return migrations;
+  };
+
+  switch (method) {
+    case 'run':
+      if (!sql) throw new ZDSLiteValidationError('"sql" is required for "run"');
+      return db.run(sql, params);
+    case 'beginTransaction':
+      return db.beginTransaction();
+    case 'commit':
+      return db.commit();
+    case 'rollback':
+      return db.rollback();
+    case 'migrate':
+      return db.migrate(loaded(), options);
+    case 'migrationStatus':
+      return db.migrationStatus(loaded());
+    case 'createApiKey':
+      if (!name || !permissions) throw new ZDSLiteValidationError('"name" and "permissions" are required for "createApiKey"');
+      return db.createApiKey(name, permissions);
+    case 'listApiKeys':
+      return db.listApiKeys();
+    case 'hasActiveApiKeys':
+      return db.hasActiveApiKeys();
+    case 'revokeApiKey':
+      if (!id) throw new ZDSLiteValidationError('"id" is required for "revokeApiKey"');
+      return db.revokeApiKey(id);
+    case 'verifyApiKey':
+      if (!key) throw new ZDSLiteValidationError('"key" is required for "verifyApiKey"');
+      return db.verifyApiKey(key);
+    case 'verifyPassword':
+      if (typeof password !== 'string' || !hash) throw new ZDSLiteValidationError('"password" and "hash" are required for "verifyPassword"');
+      return db.verifyPassword(password, hash);
+    case 'needsRehash':
+      if (!hash) throw new ZDSLiteValidationError('"hash" is required for "needsRehash"');
+      return db.needsRehash(hash);
+  }
+}
+
+/**
+ * Parses the input of CLI single-command mode: one payload (a JSON object), or a script of payloads
+ * (a JSON array, or NDJSON with one payload per line; blank lines are ignored).
+ * @throws {ZDSLiteValidationError} If the input is empty, not valid JSON, or not made of objects.
+ */
+export function parsePayloads(text: string): { payloads: DispatchPayload[]; script: boolean } {
+  if (text.trim() === '') throw new ZDSLiteValidationError('A JSON query is required.');
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    const lines = text.split(/\r?\n/).map((line, i) => ({ line, number: i + 1 })).filter(l => l.line.trim() !== '');
+    if (lines.length < 2) throw new ZDSLiteValidationError(`Invalid JSON query (${error.message}).`);
+    const payloads = lines.map(({ line, number }) => {
+      let payload: any;
+      try { payload = JSON.parse(line); }
+      catch (e: any) { throw new ZDSLiteValidationError(`Line ${number}: invalid JSON (${e.message}).`); }
+      if (!isPayload(payload)) throw new ZDSLiteValidationError(`Line ${number}: expected a JSON object with a "method".`);
+      return payload;
+    });
+    return { payloads, script: true };
+  }
+  if (Array.isArray(parsed)) {
+    const invalid = parsed.findIndex(p => !isPayload(p));
+    if (invalid >= 0) throw new ZDSLiteValidationError(`Statement ${invalid + 1}: expected a JSON object with a "method".`);
+    return { payloads: parsed, script: true };
+  }
+  if (!isPayload(parsed)) throw new ZDSLiteValidationError('JSON query must be an object with a "method" key.');
+  return { payloads: [parsed], script: false };
+}
+
+function isPayload(value: any): value is DispatchPayload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && typeof value.method === 'string';
+}
@@ -1,3 +1,19 @@
+import { SchemaViolation } from './types';
+
+/**
+ * The stable code of each error class. Codes do not change between releases, unlike messages.
+ */
+export type ZDSLiteErrorCode =
+  | 'ZDSLITE_ERROR'
+  | 'VALIDATION_FAILED'
+  | 'SCHEMA_MISMATCH'
+  | 'NOT_FOUND'
+  | 'QUERY_FAILED'
+  | 'CONSTRAINT_VIOLATION'
+  | 'UNIQUE_CONFLICT'
+  | 'DATABASE_BUSY'
+  | 'MIGRATION_FAILED';
+
 /**
  * Base error for all ZDSLite-specific errors.
  * @extends Error
@@ -5,9 +21,12 @@
 export class ZDSLiteError extends Error {
   /** The underlying error that caused this error. */
   public cause?: any;
+  /** The stable code of the error class. */
+  public code: ZDSLiteErrorCode;
   constructor(message: string, options?: { cause?: any }) {
     super(message);
     this.name = 'ZDSLiteError';
+    this.code = 'ZDSLITE_ERROR';
     this.cause = options?.cause;
   }
 }
@@ -17,9 +36,37 @@ export class ZDSLiteError extends Error {
  * @extends ZDSLiteError
  */
 export class ZDSLiteValidationError extends ZDSLiteError {
-  constructor(message: string) {
+  /** Every failing field, when a document does not match its table schema. */
+  public errors?: SchemaViolation[];
+  constructor(message: string, options?: { errors?: SchemaViolation[] }) {
     super(message);
     this.name = 'ZDSLiteValidationError';
+    this.code = 'VALIDATION_FAILED';
+    this.errors = options?.errors;
+  }
+}
+
+/**
+ * Thrown when a document does not match the schema of its table. `errors` lists every failing field.
+ * @extends ZDSLiteValidationError
+ */
+export class ZDSLiteSchemaError extends ZDSLiteValidationError {
+  constructor(message: string, options?: { errors?: SchemaViolation[] }) {
+    super(message, options);
+    this.name = 'ZDSLiteSchemaError';
+    this.code = 'SCHEMA_MISMATCH';
+  }
+}
+
+/**
+ * Thrown when a table or column that a call names does not exist.
+ * @extends ZDSLiteError
+ */
+export class ZDSLiteNotFoundError extends ZDSLiteError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZDSLiteNotFoundError';
+    this.code = 'NOT_FOUND';
   }
 }
 
@@ -34,6 +81,112 @@ export class ZDSLiteQueryError extends ZDSLiteError {
   constructor(message: string, options?: { cause?: any; sql?: string; }) {
     super(message, options);
     this.name = 'ZDSLiteQueryError';
+    this.code = 'QUERY_FAILED';
     this.sql = options?.sql;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Thrown when a write violates a NOT NULL, CHECK, FOREIGN KEY or other constraint.
+ * @extends ZDSLiteQueryError
+ */
+export class ZDSLiteConstraintError extends ZDSLiteQueryError {
+  /** The SQLite result code, e.g. `SQLITE_CONSTRAINT_NOTNULL`. */
+  public sqliteCode?: string;
+  constructor(message: string, options?: { cause?: any; sql?: string; sqliteCode?: string }) {
+    super(message, options);
+    this.name = 'ZDSLiteConstraintError';
+    this.code = 'CONSTRAINT_VIOLATION';
+    this.sqliteCode = options?.sqliteCode;
+  }
+}
+
+/**
+ * Thrown when a write conflicts with an existing row on a UNIQUE or PRIMARY KEY constraint.
+ * @extends ZDSLiteConstraintError
+ */
+export class ZDSLiteUniqueConflictError extends ZDSLiteConstraintError {
+  constructor(message: string, options?: { cause?: any; sql?: string; sqliteCode?: string }) {
+    super(message, options);
+    this.name = 'ZDSLiteUniqueConflictError';
+    this.code = 'UNIQUE_CONFLICT';
+  }
+}
+
+/**
+ * Thrown when the database is busy or locked by another connection. The call may succeed if retried.
+ * @extends ZDSLiteQueryError
+ */
+export class ZDSLiteBusyError extends ZDSLiteQueryError {
+  constructor(message: string, options?: { cause?: any; sql?: string }) {
+    super(message, options);
+    this.name = 'ZDSLiteBusyError';
+    this.code = 'DATABASE_BUSY';
+  }
+}
+
+/**
+ * Thrown when a schema migration cannot be applied or rolled back,
+ * or when an applied migration no longer matches its recorded checksum.
+ * @extends ZDSLiteError
+ */
+export class ZDSLiteMigrationError extends ZDSLiteError {
+  /** The version of the migration that failed, if any. */
+  public version?: string;
+  constructor(message: string, options?: { cause?: any; version?: string; }) {
+    super(message, options);
+    this.name = 'ZDSLiteMigrationError';
+    this.code = 'MIGRATION_FAILED';
+    this.version = options?.version;
+  }
+}
+
+/**
+ * Creates the query error for a failed statement, using the most specific class for the SQLite error
+ * found in its chain of causes: a unique conflict, another constraint violation, or a busy database.
+ * @param message The error message.
+ * @param options The cause and the failed SQL.
+ */
+export function queryError(message: string, options: { cause?: any; sql?: string } = {}): ZDSLiteQueryError {
+  let sqliteCode: string | undefined;
+  for (let e = options.cause, depth = 0; e && depth < 10 && !sqliteCode; e = e.cause, depth++) {
+    if (typeof e.code === 'string' && e.code.startsWith('SQLITE_')) sqliteCode = e.code;
+  }
+  // better-sqlite3 refuses writes while a statement is being iterated on the same connection.
+  if (!sqliteCode && /connection is busy/.test(options.cause?.message || '')) return new ZDSLiteBusyError(message, options);
+  if (!sqliteCode) return new ZDSLiteQueryError(message, options);
+  if (sqliteCode === 'SQLITE_CONSTRAINT_UNIQUE' || sqliteCode === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+    return new ZDSLiteUniqueConflictError(message, { ...options, sqliteCode });
+  }
+  if (sqliteCode.startsWith('SQLITE_CONSTRAINT')) return new ZDSLiteConstraintError(message, { ...options, sqliteCode });
+  if (sqliteCode.startsWith('SQLITE_BUSY') || sqliteCode.startsWith('SQLITE_LOCKED')) return new ZDSLiteBusyError(message, options);
+  return new ZDSLiteQueryError(message, options);
+}
+
+// The HTTP status of each error code. Other errors are reported as 500.
+const STATUS_BY_CODE: Partial<Record<ZDSLiteErrorCode, number>> = {
+  VALIDATION_FAILED: 400,
+  SCHEMA_MISMATCH: 400,
+  CONSTRAINT_VIOLATION: 400,
+  NOT_FOUND: 404,
+  UNIQUE_CONFLICT: 409,
+  DATABASE_BUSY: 503,
+};
+
+/**
+ * Finds the error to report for a failure. A query error that only wraps another ZDSLite error,
+ * such as the error of a rolled-back transaction, is reported as that error.
+ */
+export function rootError(error: any): any {
+  while (error instanceof ZDSLiteError && error.code === 'QUERY_FAILED' && error.cause instanceof ZDSLiteError) error = error.cause;
+  return error;
+}
+
+/**
+ * The HTTP status an error is reported with: 400 for invalid input and constraint violations, 404 for missing
+ * tables and columns, 409 for unique conflicts, 503 for a busy database, and 500 otherwise.
+ */
+export function errorStatus(error: any): number {
+  const root = rootError(error);
+  return (root instanceof ZDSLiteError && STATUS_BY_CODE[root.code]) || 500;
+}
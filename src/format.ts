@@ -0,0 +1,95 @@
+import { ZDSLiteValidationError } from './errors';
+import { csvRow } from './transfer';
+
+/**
+ * An output format of the CLI and the REPL.
+ */
+export type OutputFormat = 'table' | 'json' | 'ndjson' | 'csv' | 'tsv';
+
+export interface FormatOptions {
+  /** Print the header row (table, csv and tsv). Defaults to true. */
+  header?: boolean;
+  /** Truncate table cells to this many characters; 0 turns truncation off. Defaults to 40. */
+  maxWidth?: number;
+}
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'ndjson', 'csv', 'tsv'];
+
+/**
+ * Checks an output format name.
+ * @throws {ZDSLiteValidationError} If the format is not supported.
+ */
+export function outputFormat(format: string): OutputFormat {
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) throw new ZDSLiteValidationError(`Unsupported output format "${format}". Use ${OUTPUT_FORMATS.join(', ')}.`);
+  return format as OutputFormat;
+}
+
+/**
+ * Lists the rows of a result: the documents of an array (scalars become a `value` column), the `hits`
+ * of a `searchHits()` envelope, or the result itself for any other object.
+ * @returns {Record<string, any>[] | null} The rows, or null for a scalar result.
+ */
+export function resultRows(result: any): Record<string, any>[] | null {
+  if (Array.isArray(result)) return result.map(r => (typeof r === 'object' && r !== null && !Array.isArray(r) ? r : { value: r }));
+  if (typeof result !== 'object' || result === null) return null;
+  return Array.isArray(result.hits) ? resultRows(result.hits) : [result];
+}
+
+/**
+ * Formats a result for printing. `json` keeps the result as it is; the other formats print its rows
+ * (see {@link resultRows}), with the columns of every row in order of appearance. Objects in cells are
+ * printed as JSON. A scalar result is printed as text in every format but `json`.
+ * @returns {string} The text, ending with a line break.
+ */
+export function formatResult(result: any, format: OutputFormat, options: FormatOptions = {}): string {
+  if (format === 'json') return JSON.stringify(result, null, 2) + '\n';
+  const rows = resultRows(result);
+  if (!rows) return (format === 'ndjson' ? JSON.stringify(result) : String(result)) + '\n';
+  if (format === 'ndjson') return rows.map(row => JSON.stringify(row) + '\n').join('');
+
+  const header = options.header ?? true;
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  if (format === 'csv') {
+    return (header && columns.length > 0 ? csvRow(columns) : '') + rows.map(row => csvRow(columns.map(c => row[c]))).join('');
+  }
+  if (format === 'tsv') {
+    const lines = rows.map(row => columns.map(c => tsvField(row[c])));
+    return (header && columns.length > 0 ? [columns.map(tsvField), ...lines] : lines).map(line => line.join('\t') + '\n').join('');
+  }
+  return formatTable(rows, columns, header, options.maxWidth ?? 40);
+}
+
+// Aligns the cells in columns, right-aligning numbers, and ends with the row count.
+function formatTable(rows: Record<string, any>[], columns: string[], header: boolean, maxWidth: number): string {
+  const cells = rows.map(row => columns.map(c => truncate(tableCell(row[c]), maxWidth)));
+  const names = columns.map(c => truncate(c, maxWidth));
+  const widths = columns.map((_, i) => Math.max(header ? names[i].length : 0, ...cells.map(line => line[i].length)));
+  const numeric = columns.map(c => rows.every(row => row[c] === null || row[c] === undefined || typeof row[c] === 'number'));
+  const line = (values: string[], align: boolean) => values
+    .map((v, i) => (align && numeric[i] ? v.padStart(widths[i]) : v.padEnd(widths[i])))
+    .join(' | ')
+    .trimEnd() + '\n';
+
+  let text = '';
+  if (header && columns.length > 0) text += line(names, false) + widths.map(w => '-'.repeat(w)).join('-+-') + '\n';
+  text += cells.map(values => line(values, true)).join('');
+  if (header) text += `(${rows.length} ${rows.length === 1 ? 'row' : 'rows'})\n`;
+  return text;
+}
+
+// Line breaks and tabs are escaped so that each row stays on one line.
+function tableCell(value: any): string {
+  if (value === null || value === undefined) return 'NULL';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.replace(/\r?\n/g, '\\n').replace(/\t/g, '\\t');
+}
+
+function tsvField(value: any): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+}
+
+function truncate(text: string, maxWidth: number): string {
+  return maxWidth > 0 && text.length > maxWidth ? text.slice(0, Math.max(maxWidth - 1, 0)) + '…' : text;
+}
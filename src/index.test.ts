@@ -1,5 +1,17 @@
-import { ZDSLite, ZDSLiteValidationError, ZDSLiteQueryError } from './index';
+import {
+  ZDSLite, ZDSLiteError, ZDSLiteValidationError, ZDSLiteQueryError, ZDSLiteMigrationError, ZDSLiteNotFoundError, ZDSLiteSchemaError,
+  ZDSLiteConstraintError, ZDSLiteUniqueConflictError, ZDSLiteBusyError, queryError, parseBulkNdjson, BulkOperation, Migration, TableSchema, TypedUpdateDoc, loadMigrations, parseDateMath } from './index';
 import { validate as validateUUID } from 'uuid';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createRequestHandler } from './server';
+import { dispatch, parsePayloads } from './dispatch';
+import { formatRows, inferColumns, parseCsv, parseRecords } from './transfer';
+import { formatResult } from './format';
+import { completeQuery } from './repl';
 
 describe('ZDSLite Unit Tests', () => {
   let db: ZDSLite;
@@ -115,6 +127,80 @@ describe('ZDSLite Unit Tests', () => {
     });
   });
 
+  describe('JSON Partial Updates', () => {
+    const getMeta = async (sku: string) => JSON.parse((await db.search('items', { query: { term: { sku } } }))[0].meta);
+
+    beforeEach(async () => {
+      await db.create('items', { id: 'INTEGER PRIMARY KEY', sku: 'TEXT UNIQUE', meta: 'TEXT' });
+      await db.insert('items', { sku: 'a1', meta: { details: { price: 5, color: 'red' }, tags: ['new'], legacy: true } });
+    });
+
+    it('should set, remove and append JSON paths without touching other keys', async () => {
+      const result = await db.update('items', {
+        'meta.details.price': 10, 'meta->>details.size': { w: 2 }, $unset: ['meta.legacy'], $push: { 'meta.tags': 'sale' }
+      }, { term: { sku: 'a1' } });
+      expect(result.acknowledged).toBe(true);
+      expect(await getMeta('a1')).toEqual({ details: { price: 10, color: 'red', size: { w: 2 } }, tags: ['new', 'sale'] });
+    });
+
+    it('should create missing documents and arrays', async () => {
+      await db.insert('items', { sku: 'b2' });
+      await db.update('items', { 'meta.details.price': 3, $push: { 'meta.tags': 'first' } }, { term: { sku: 'b2' } });
+      expect(await getMeta('b2')).toEqual({ details: { price: 3 }, tags: ['first'] });
+    });
+
+    it('should build the JSON column on upsert insert and edit it on conflict', async () => {
+      await db.upsert('items', { sku: 'c3', 'meta.details.price': 7, $push: { 'meta.tags': 'x' } }, 'sku');
+      expect(await getMeta('c3')).toEqual({ details: { price: 7 }, tags: ['x'] });
+      await db.upsert('items', { sku: 'a1', 'meta.details.price': 8 }, 'sku');
+      expect(await getMeta('a1')).toEqual({ details: { price: 8, color: 'red' }, tags: ['new'], legacy: true });
+    });
+
+    it('should reject conflicting whole-column and path updates', async () => {
+      await expect(db.update('items', { meta: {}, 'meta.details.price': 1 }, { term: { sku: 'a1' } }))
+        .rejects.toThrow(ZDSLiteValidationError);
+    });
+  });
+
+  describe('Update Operators', () => {
+    beforeEach(async () => {
+      await db.create('pages', { id: 'INTEGER PRIMARY KEY', slug: 'TEXT UNIQUE', views: 'INTEGER', score: 'REAL', low: 'INTEGER', note: 'TEXT', seen_at: 'TEXT', meta: 'TEXT', secret: 'HASHED' });
+      await db.insert('pages', { slug: 'home', views: 10, score: 2, low: 5, note: 'x', meta: { hits: 1 } });
+    });
+
+    it('should apply $inc, $mul, $min, $max, $set, $unset and $currentDate in one statement', async () => {
+      const result = await db.update('pages', {
+        $inc: { views: 5, 'meta.hits': 2 }, $mul: { score: 1.5 }, $min: { low: 3 }, $max: { 'meta.best': 7 },
+        $set: { slug: 'start' }, $unset: ['note'], $currentDate: ['seen_at']
+      }, { term: { slug: 'home' } });
+      expect(result.acknowledged).toBe(true);
+      const [page] = await db.search('pages', { query: { term: { id: 1 } } });
+      expect(page).toMatchObject({ slug: 'start', views: 15, score: 3, low: 3, note: null });
+      expect(JSON.parse(page.meta)).toEqual({ hits: 3, best: 7 });
+      expect(page.seen_at).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/);
+    });
+
+    it('should start operators from the operand on upsert insert and apply them on conflict', async () => {
+      await db.upsert('pages', { slug: 'about', $inc: { views: 1 } }, 'slug');
+      await db.upsert('pages', { slug: 'about', $inc: { views: 1 } }, 'slug');
+      await db.upsert('pages', { slug: 'home', $inc: { views: 1 } }, 'slug');
+      const pages = await db.search('pages', { _source: ['slug', 'views'], sort: [{ slug: 'asc' }] });
+      expect(pages).toEqual([{ slug: 'about', views: 2 }, { slug: 'home', views: 11 }]);
+    });
+
+    it('should hash $set values and reject arithmetic on HASHED columns', async () => {
+      await db.update('pages', { $set: { secret: 'pw' } }, { term: { slug: 'home' } });
+      const [page] = await db.search('pages', { query: { term: { slug: 'home' } } });
+      expect(db.verifyPassword('pw', page.secret)).toBe(true);
+      await expect(db.update('pages', { $inc: { secret: 1 } }, { term: { slug: 'home' } })).rejects.toThrow(ZDSLiteValidationError);
+    });
+
+    it('should reject unknown operators and non-numeric $inc', async () => {
+      await expect(db.update('pages', { $rename: { note: 'n' } }, { term: { slug: 'home' } })).rejects.toThrow(ZDSLiteValidationError);
+      await expect(db.update('pages', { $inc: { views: '1' } } as any, { term: { slug: 'home' } })).rejects.toThrow(ZDSLiteValidationError);
+    });
+  });
+
   describe('Hashing', () => {
     const plainPassword = 'my-secret-password';
 
@@ -185,6 +271,308 @@ describe('ZDSLite Unit Tests', () => {
     });
   });
 
+  describe('Metadata Persistence', () => {
+    let filePath: string;
+
+    beforeEach(() => {
+      filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'zdslite-')), 'meta.db');
+    });
+
+    afterEach(() => {
+      fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+    });
+
+    it('should keep UUID and HASHED columns after reconnecting', async () => {
+      const first = new ZDSLite(filePath);
+      await first.create('accounts', { id: 'UUID PRIMARY KEY', username: 'TEXT', password: 'HASHED' });
+      first.close();
+
+      const second = new ZDSLite(filePath);
+      await second.insert('accounts', { username: 'alice', password: 'secret' });
+      const rows = await second.search('accounts', {});
+      second.close();
+
+      expect(validateUUID(rows[0].id)).toBe(true);
+      expect(rows[0].password).toMatch(/^zdslite-scrypt:v1:64:/);
+    });
+
+    it('should register special types on an existing table', async () => {
+      const first = new ZDSLite(filePath);
+      first.run('CREATE TABLE legacy (id TEXT PRIMARY KEY, password TEXT)');
+      await first.registerColumnType('legacy', 'id', 'UUID');
+      const result = await first.registerColumnType('legacy', 'password', 'HASHED');
+      expect(result.acknowledged).toBe(true);
+      first.close();
+
+      const second = new ZDSLite(filePath);
+      await second.insert('legacy', { password: 'secret' });
+      const rows = await second.search('legacy', {});
+      second.close();
+
+      expect(validateUUID(rows[0].id)).toBe(true);
+      expect(rows[0].password).toMatch(/^zdslite-scrypt:v1:64:/);
+    });
+
+    it('should reject registering a column that does not exist', async () => {
+      await expect(db.registerColumnType('users', 'missing', 'HASHED'))
+        .rejects.toThrow(ZDSLiteNotFoundError);
+    });
+
+    it('should forget special types when the table is dropped', async () => {
+      await db.create('customers', { id: 'INTEGER PRIMARY KEY', password: 'HASHED' });
+      await db.drop('customers');
+      await db.create('customers', { id: 'INTEGER PRIMARY KEY', password: 'TEXT' });
+      await db.insert('customers', { id: 1, password: 'plain' });
+      const rows = await db.search('customers', {});
+      expect(rows[0].password).toBe('plain');
+    });
+
+    it('should restore special types when a drop or create is rolled back', async () => {
+      await db.create('customers', { id: 'INTEGER PRIMARY KEY', password: 'HASHED' });
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      await expect(db.transaction(async tx => {
+        await tx.drop('customers');
+        throw new Error('Changed my mind');
+      })).rejects.toThrow(ZDSLiteQueryError);
+      await db.bulk([{ create: { _index: 'customers', doc: { id: 9, password: 'secret' } } }]);
+      await db.transaction(async tx => {
+        await tx.insert('customers', { id: 1, password: 'secret' });
+      });
+
+      await db.beginTransaction();
+      await db.drop('customers');
+      await db.create('customers', { id: 'INTEGER PRIMARY KEY', password: 'TEXT' });
+      await db.rollback();
+      consoleErrorSpy.mockRestore();
+      await db.insert('customers', { id: 2, password: 'secret' });
+
+      const rows = await db.search('customers', { sort: [{ id: 'asc' }] });
+      expect(rows.map(r => r.password)).toEqual([expect.stringMatching(/^zdslite-scrypt:/), expect.stringMatching(/^zdslite-scrypt:/), expect.stringMatching(/^zdslite-scrypt:/)]);
+    });
+  });
+
+  describe('Schema Introspection', () => {
+    beforeEach(async () => {
+      await db.create('accounts', {
+        id: 'UUID PRIMARY KEY',
+        user_id: 'INTEGER REFERENCES users(id) ON DELETE CASCADE',
+        password: 'HASHED',
+        plan: "TEXT NOT NULL DEFAULT 'free'",
+        meta: 'TEXT'
+      });
+      await db.createIndex('accounts', ['meta->>region']);
+      await db.createFullTextIndex('accounts', ['plan']);
+    });
+
+    it('should list user tables without internal tables', async () => {
+      expect(await db.listTables()).toEqual(['accounts', 'users']);
+    });
+
+    it('should describe columns, special types and foreign keys', async () => {
+      const description = await db.describe('accounts');
+      const byName = Object.fromEntries(description.columns.map(c => [c.name, c]));
+      expect(byName.id).toMatchObject({ type: 'TEXT', primaryKey: true, zdsliteType: 'UUID' });
+      expect(byName.password.zdsliteType).toBe('HASHED');
+      expect(byName.plan).toMatchObject({ notNull: true, defaultValue: "'free'", zdsliteType: null });
+      expect(description.foreignKeys).toEqual([{ column: 'user_id', references: { table: 'users', column: 'id' }, onUpdate: 'NO ACTION', onDelete: 'CASCADE' }]);
+      expect(description.fullText).toEqual({ fields: ['plan'], tokenizer: 'unicode61' });
+    });
+
+    it('should list indexes, including constraint and expression indexes', async () => {
+      const indexes = await db.listIndexes('users');
+      expect(indexes).toEqual([expect.objectContaining({ unique: true, origin: 'u', columns: ['email'], sql: null })]);
+
+      const jsonIndex = (await db.listIndexes('accounts')).find(i => i.name === 'idx_accounts_meta_region');
+      expect(jsonIndex).toMatchObject({ unique: false, origin: 'c', columns: [null] });
+      expect(jsonIndex!.sql).toContain('$.region');
+    });
+
+    it('should throw for a table that does not exist', async () => {
+      await expect(db.describe('missing')).rejects.toThrow(ZDSLiteNotFoundError);
+    });
+  });
+
+  describe('Typed Schemas', () => {
+    const productSchema: TableSchema = {
+      id: { type: 'uuid', primaryKey: true },
+      name: { type: 'string', required: true, max: 20 },
+      sku: { type: 'string', pattern: '^[A-Z]{3}-\\d{3}$', unique: true },
+      price: { type: 'number', min: 0 },
+      stock: { type: 'integer', default: 0 },
+      status: { type: 'string', enum: ['draft', 'live'], default: 'draft' },
+      featured: { type: 'boolean', default: false },
+      tags: { type: 'array', items: { type: 'string' }, max: 3 },
+      meta: { type: 'object', properties: { color: { type: 'string' }, labels: { type: 'array', items: { type: 'string' } }, size: { type: 'object', properties: { width: { type: 'number', required: true } } } } },
+    };
+
+    const violationsOf = async (promise: Promise<unknown>) => {
+      const error = await promise.then(() => null, e => e);
+      expect(error).toBeInstanceOf(ZDSLiteValidationError);
+      return error.errors;
+    };
+
+    beforeEach(async () => {
+      await db.create('products', productSchema);
+    });
+
+    it('should generate the table definition from the schema', async () => {
+      const byName = Object.fromEntries((await db.describe('products')).columns.map(c => [c.name, c]));
+      expect(byName.id).toMatchObject({ type: 'TEXT', primaryKey: true, zdsliteType: 'UUID' });
+      expect(byName.name).toMatchObject({ type: 'TEXT', notNull: true });
+      expect(byName.price.type).toBe('REAL');
+      expect(byName.status.defaultValue).toBe("'draft'");
+      expect(byName.featured).toMatchObject({ type: 'INTEGER', defaultValue: '0' });
+      expect((await db.describe('products')).schema).toEqual(productSchema);
+    });
+
+    it('should fill in defaults and store booleans as 0/1', async () => {
+      await db.insert('products', { name: 'Lamp', featured: true, meta: { size: { width: 20 } } });
+      const [lamp] = await db.search('products', {});
+      expect(validateUUID(lamp.id)).toBe(true);
+      expect(lamp).toMatchObject({ stock: 0, status: 'draft', featured: 1 });
+    });
+
+    it('should list every failing field path on insert', async () => {
+      const errors = await violationsOf(db.insert('products', [
+        { name: 'Chair', sku: 'CHR-001' },
+        { sku: 'bad', price: -1, stock: 1.5, status: 'gone', tags: ['a', 2], meta: { color: 3, size: {} } },
+      ]));
+      expect(errors).toEqual([
+        { path: '[1].name', message: 'is required' },
+        { path: '[1].sku', message: 'must match the pattern ^[A-Z]{3}-\\d{3}$' },
+        { path: '[1].price', message: 'must be >= 0' },
+        { path: '[1].stock', message: 'must be an integer' },
+        { path: '[1].status', message: 'must be one of: "draft", "live"' },
+        { path: '[1].tags[1]', message: 'must be a string' },
+        { path: '[1].meta.color', message: 'must be a string' },
+        { path: '[1].meta.size.width', message: 'is required' },
+      ]);
+      expect(await db.search('products', {})).toEqual([]);
+    });
+
+    it('should validate update values, JSON paths and operators', async () => {
+      await db.insert('products', { name: 'Desk', tags: ['wood'], meta: { color: 'oak' } });
+
+      const errors = await violationsOf(db.update('products', {
+        name: 'A name that is far too long', 'meta.size.width': 'wide',
+        $inc: { status: 1 }, $unset: ['name'], $push: { 'meta.labels': 7 },
+      }, { term: { name: 'Desk' } }));
+      expect(errors.map((e: { path: string }) => e.path)).toEqual(['name', 'meta.size.width', 'status', 'name', 'meta.labels[]']);
+      expect(errors[0].message).toBe('must be at most 20 characters');
+
+      const result = await db.update('products', { featured: true, 'meta.color': 'walnut', $inc: { stock: 5 }, $push: { 'meta.labels': 'sale' } }, { term: { name: 'Desk' } });
+      expect(result.acknowledged).toBe(true);
+      const [desk] = await db.search('products', {});
+      expect(desk).toMatchObject({ featured: 1, stock: 5 });
+      expect(JSON.parse(desk.meta)).toEqual({ color: 'walnut', labels: ['sale'] });
+    });
+
+    it('should require required fields on upsert', async () => {
+      const errors = await violationsOf(db.upsert('products', { sku: 'LMP-001', price: 10 }, 'sku'));
+      expect(errors).toEqual([{ path: 'name', message: 'is required' }]);
+      const result = await db.upsert('products', { sku: 'LMP-001', name: 'Lamp', $inc: { stock: 1 } }, 'sku');
+      expect(result.acknowledged).toBe(true);
+    });
+
+    it('should reject invalid schema definitions', async () => {
+      await expect(db.create('bad', { a: { type: 'text' as any } })).rejects.toThrow(/unsupported type/);
+      await expect(db.create('bad', { a: { type: 'integer', default: 'x' } })).rejects.toThrow(/invalid default/);
+      await expect(db.create('bad', { a: { type: 'string', pattern: '(' } })).rejects.toThrow(ZDSLiteValidationError);
+    });
+
+    it('should persist registered schemas and validate passwords before hashing', async () => {
+      const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'zdslite-')), 'schema.db');
+      try {
+        const first = new ZDSLite(filePath);
+        first.run('CREATE TABLE members (id INTEGER PRIMARY KEY, email TEXT, password TEXT)');
+        await first.registerSchema('members', { email: { type: 'string', required: true }, password: { type: 'hashed', min: 8 } });
+        first.close();
+
+        const second = new ZDSLite(filePath);
+        const errors = await violationsOf(second.insert('members', { password: 'short' }));
+        expect(errors).toEqual([{ path: 'email', message: 'is required' }, { path: 'password', message: 'must be at least 8 characters' }]);
+        await second.insert('members', { email: 'a@example.com', password: 'long enough' });
+        const [member] = await second.search('members', {});
+        second.close();
+        expect(member.password).toMatch(/^zdslite-scrypt:v1:64:/);
+      } finally {
+        fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+      }
+    });
+
+    it('should reject a schema for columns that do not exist', async () => {
+      await expect(db.registerSchema('users', { missing: { type: 'string' } })).rejects.toThrow(ZDSLiteNotFoundError);
+    });
+  });
+
+  describe('Typed Table Handles', () => {
+    interface User {
+      id: number;
+      name: string;
+      age: number | null;
+      email: string;
+      status: string;
+      meta?: { tier: string; limits: { seats: number } };
+    }
+
+    it('should search with typed clauses and narrow rows with _source', async () => {
+      const users = db.table<User>('users');
+      const rows = await users.search({
+        _source: ['name', 'age as years'],
+        query: { bool: { must: [{ term: { status: 'active' } }, { range: { age: { gte: 40 } } }] } },
+        sort: [{ age: 'desc' }],
+      });
+      expect(rows).toEqual([{ name: 'Bob', years: 45 }]);
+      const bob: { name: string; years: number | null } = rows[0];
+      expect(bob.name).toBe('Bob');
+      // @ts-expect-error 'email' is not selected by _source.
+      expect(rows[0].email).toBeUndefined();
+
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      // @ts-expect-error 'nmae' is not a column of User.
+      await expect(users.search({ query: { term: { nmae: 'Bob' } } })).resolves.toEqual([]);
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should type JSON accessor paths, updates and upserts', async () => {
+      db.run('ALTER TABLE users ADD COLUMN meta TEXT');
+      const users = db.table<User>('users');
+      await users.update({ 'meta.tier': 'gold', $inc: { age: 1 } }, { term: { name: 'Alice' } });
+      await users.update({ $set: { 'meta.limits.seats': 5 } }, { term: { name: 'Alice' } });
+
+      const [alice] = await users.search({ _source: ['age', 'meta->>limits.seats as seats'], query: { term: { 'meta->>tier': 'gold' } } });
+      expect(alice).toEqual({ age: 31, seats: 5 });
+
+      // @ts-expect-error 'meta.plan' is not a path of User['meta'].
+      const invalidPath = { 'meta.plan': 'x' } satisfies TypedUpdateDoc<User>;
+      // @ts-expect-error $inc takes numbers.
+      const invalidInc = { $inc: { age: '1' } } satisfies TypedUpdateDoc<User>;
+      expect([invalidPath, invalidInc]).toHaveLength(2);
+
+      const result = await users.upsert({ email: 'bob@example.com', name: 'Robert', status: 'active' }, 'email');
+      expect(result.acknowledged).toBe(true);
+      expect((await users.search({ query: { term: { email: 'bob@example.com' } } }))[0].name).toBe('Robert');
+    });
+
+    it('should insert, delete and aggregate through the handle', async () => {
+      const users = db.table<User>('users');
+      await users.insert([{ name: 'Dana', age: 52, email: 'dana@example.com', status: 'inactive' }]);
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      // @ts-expect-error 'nickname' is not a column of User.
+      await expect(users.insert({ nickname: 'D' })).resolves.toMatchObject({ acknowledged: false });
+      consoleErrorSpy.mockRestore();
+
+      const groups = await users.aggregate({ aggs: { group_by: ['status'], metrics: { total: { count: '*' }, oldest: { max: 'age' } } }, sort: [{ status: 'asc' }] });
+      expect(groups).toEqual([{ status: 'active', total: 2, oldest: 45 }, { status: 'inactive', total: 2, oldest: 52 }]);
+      const buckets = await users.aggregate({ aggs: { buckets: { by_status: { terms: { field: 'status' } } } } });
+      expect(buckets.by_status.buckets).toHaveLength(2);
+
+      const deleted = await users.delete({ query: { term: { status: 'inactive' } } });
+      expect(deleted).toEqual({ acknowledged: true, deletedCount: 2 });
+      expect(() => db.table('bad-name!')).toThrow(ZDSLiteValidationError);
+    });
+  });
+
   describe('Querying: Search and Aggregate', () => {
     it('should search with a term query', async () => {
       const users = await db.search('users', { query: { term: { name: 'Alice' } } });
@@ -241,6 +629,208 @@ describe('ZDSLite Unit Tests', () => {
     });
   });
 
+  describe('Bucket Aggregations', () => {
+    beforeEach(async () => {
+      await db.create('sales', { id: 'INTEGER PRIMARY KEY', region: 'TEXT', product: 'TEXT', amount: 'REAL', sold_at: 'TEXT' });
+      await db.insert('sales', [
+        { region: 'eu', product: 'laptop', amount: 1200, sold_at: '2025-01-15T10:00:00.000Z' },
+        { region: 'eu', product: 'mouse', amount: 25, sold_at: '2025-01-20T12:00:00.000Z' },
+        { region: 'eu', product: 'laptop', amount: 1100, sold_at: '2025-02-02T09:00:00.000Z' },
+        { region: 'us', product: 'mouse', amount: 30, sold_at: '2025-02-10T18:30:00.000Z' },
+        { region: null, product: 'cable', amount: 5, sold_at: '2025-03-01T00:00:00.000Z' },
+      ]);
+    });
+
+    it('should compute nested terms buckets with metrics', async () => {
+      const result = await db.aggregate('sales', {
+        aggs: {
+          metrics: { total: { sum: 'amount' } },
+          buckets: {
+            by_region: {
+              terms: { field: 'region' },
+              metrics: { revenue: { sum: 'amount' } },
+              aggs: { by_product: { terms: { field: 'product', order: { _key: 'asc' } } } }
+            }
+          }
+        }
+      });
+      expect(result.total).toBe(2360);
+      expect(result.by_region.buckets).toEqual([
+        { key: 'eu', doc_count: 3, revenue: 2325, by_product: { buckets: [{ key: 'laptop', doc_count: 2 }, { key: 'mouse', doc_count: 1 }] } },
+        { key: 'us', doc_count: 1, revenue: 30, by_product: { buckets: [{ key: 'mouse', doc_count: 1 }] } },
+      ]);
+    });
+
+    it('should honor terms size, metric order and missing', async () => {
+      const result = await db.aggregate('sales', {
+        aggs: { buckets: { top: { terms: { field: 'region', size: 2, missing: 'n/a', order: { revenue: 'asc' } }, metrics: { revenue: { sum: 'amount' } } } } }
+      });
+      expect(result.top.buckets.map((b: any) => b.key)).toEqual(['n/a', 'us']);
+    });
+
+    it('should compute histogram and range buckets', async () => {
+      const result = await db.aggregate('sales', {
+        query: { range: { amount: { gte: 20 } } },
+        aggs: {
+          buckets: {
+            prices: { histogram: { field: 'amount', interval: 1000 } },
+            tiers: { range: { field: 'amount', ranges: [{ to: 100 }, { key: 'premium', from: 100 }] } }
+          }
+        }
+      });
+      expect(result.prices.buckets).toEqual([{ key: 0, doc_count: 2 }, { key: 1000, doc_count: 2 }]);
+      expect(result.tiers.buckets).toEqual([{ key: '*-100', to: 100, doc_count: 2 }, { key: 'premium', from: 100, doc_count: 2 }]);
+    });
+
+    it('should compute calendar date_histogram buckets', async () => {
+      const result = await db.aggregate('sales', {
+        aggs: { buckets: { per_month: { date_histogram: { field: 'sold_at', calendar_interval: 'month' } } } }
+      });
+      expect(result.per_month.buckets).toEqual([
+        { key: Date.UTC(2025, 0, 1), key_as_string: '2025-01-01T00:00:00.000Z', doc_count: 2 },
+        { key: Date.UTC(2025, 1, 1), key_as_string: '2025-02-01T00:00:00.000Z', doc_count: 2 },
+        { key: Date.UTC(2025, 2, 1), key_as_string: '2025-03-01T00:00:00.000Z', doc_count: 1 },
+      ]);
+    });
+
+    it('should reject invalid bucket definitions', async () => {
+      await expect(db.aggregate('sales', { aggs: { buckets: { h: { histogram: { field: 'amount', interval: 0 } } } } }))
+        .rejects.toThrow(ZDSLiteValidationError);
+      // Empty buckets are never returned, so an explicit 0 is rejected instead of being treated as 1.
+      await expect(db.aggregate('sales', { aggs: { buckets: { h: { histogram: { field: 'amount', interval: 1000, min_doc_count: 0 } } } } }))
+        .rejects.toThrow(/min_doc_count/);
+      await expect(db.aggregate('sales', { aggs: { buckets: { d: { date_histogram: { field: 'sold_at', calendar_interval: 'month', min_doc_count: 0 } } } } }))
+        .rejects.toThrow(ZDSLiteValidationError);
+    });
+  });
+
+  describe('Date Math and Date Ranges', () => {
+    const now = Date.UTC(2025, 2, 15, 13, 30); // 2025-03-15T13:30:00Z
+
+    beforeEach(async () => {
+      await db.create('events', { id: 'INTEGER PRIMARY KEY', at: 'TEXT', at_ms: 'INTEGER', at_s: 'INTEGER' });
+      const times = [Date.UTC(2025, 0, 31, 23, 30), Date.UTC(2025, 1, 28, 12), Date.UTC(2025, 2, 14, 8), Date.UTC(2025, 2, 15, 9)];
+      await db.insert('events', times.map(t => ({ at: new Date(t).toISOString(), at_ms: t, at_s: t / 1000 })));
+    });
+
+    it('should evaluate date math with rounding, month clamping and time zones', () => {
+      expect(parseDateMath('now-1d/d', { now })).toBe(Date.UTC(2025, 2, 14));
+      expect(parseDateMath('now-1d/d', { now, roundUp: true })).toBe(Date.UTC(2025, 2, 15) - 1);
+      expect(parseDateMath('2025-01-31||+1M')).toBe(Date.UTC(2025, 1, 28));
+      expect(parseDateMath('now/d', { now, timeZone: 'Asia/Tokyo' })).toBe(Date.UTC(2025, 2, 14, 15));
+      expect(parseDateMath('2025-03-30T12:00||+1d/d', { timeZone: 'Europe/Paris' })).toBe(Date.UTC(2025, 2, 30, 22));
+      expect(() => parseDateMath('now+1x')).toThrow(ZDSLiteValidationError);
+    });
+
+    it('should filter ISO and epoch columns with date math in range', async () => {
+      const ids = async (range: any) => (await db.search('events', { query: { range }, sort: [{ id: 'asc' }] })).map(e => e.id);
+      // 2025-02-28||/M covers the whole month: gte rounds down, lte rounds up.
+      expect(await ids({ at: { gte: '2025-02-28||/M', lte: '2025-02-28||/M' } })).toEqual([2]);
+      expect(await ids({ at_ms: { gt: '2025-01-31||/d', format: 'epoch_millis' } })).toEqual([2, 3, 4]);
+      expect(await ids({ at_s: { gte: '2025-03-14', lt: '2025-03-15||+1d', format: 'epoch_second' } })).toEqual([3, 4]);
+      // In Tokyo (UTC+9), 2025-01-31T23:30Z is already February 1st.
+      expect(await ids({ at: { gte: '2025-02-01', lt: '2025-03-01', time_zone: '+09:00' } })).toEqual([1, 2]);
+    });
+
+    it('should compute date_range buckets and time-zone-aware date_histogram buckets', async () => {
+      const result = await db.aggregate('events', {
+        aggs: {
+          buckets: {
+            windows: { date_range: { field: 'at_ms', format: 'epoch_millis', ranges: [{ to: '2025-03-01' }, { key: 'march', from: '2025-03-01||/M' }] } },
+            per_month: { date_histogram: { field: 'at', calendar_interval: 'month', time_zone: '+09:00' } },
+          }
+        }
+      });
+      expect(result.windows.buckets).toEqual([
+        { key: '*-2025-03-01T00:00:00.000Z', to: Date.UTC(2025, 2, 1), to_as_string: '2025-03-01T00:00:00.000Z', doc_count: 2 },
+        { key: 'march', from: Date.UTC(2025, 2, 1), from_as_string: '2025-03-01T00:00:00.000Z', doc_count: 2 },
+      ]);
+      expect(result.per_month.buckets).toEqual([
+        { key: Date.UTC(2025, 0, 31, 15), key_as_string: '2025-02-01T00:00:00.000+09:00', doc_count: 2 },
+        { key: Date.UTC(2025, 1, 28, 15), key_as_string: '2025-03-01T00:00:00.000+09:00', doc_count: 2 },
+      ]);
+    });
+
+    it('should bucket epoch columns with date_histogram', async () => {
+      const result = await db.aggregate('events', { aggs: { buckets: { per_day: { date_histogram: { field: 'at_s', fixed_interval: '1d', format: 'epoch_second' } } } } });
+      expect(result.per_day.buckets.map((b: any) => b.key_as_string)).toEqual([
+        '2025-01-31T00:00:00.000Z', '2025-02-28T00:00:00.000Z', '2025-03-14T00:00:00.000Z', '2025-03-15T00:00:00.000Z',
+      ]);
+    });
+
+    it('should reject an invalid time zone', async () => {
+      expect(() => db.compile('events', { query: { range: { at: { gte: 'now-1d', time_zone: 'Mars/Olympus' } } } })).toThrow(ZDSLiteValidationError);
+    });
+  });
+
+  describe('Aggregation Metrics', () => {
+    beforeEach(async () => {
+      await db.create('orders_m', { id: 'INTEGER PRIMARY KEY', customer: 'TEXT', amount: 'REAL' });
+      await db.insert('orders_m', [
+        { customer: 'ann', amount: 10 }, { customer: 'ann', amount: 20 }, { customer: 'ann', amount: 30 },
+        { customer: 'bob', amount: 100 }, { customer: 'cy', amount: null }, { customer: 'cy', amount: 4 },
+      ]);
+    });
+
+    it('should compute cardinality, value_count, median, percentiles and stats', async () => {
+      const [row] = await db.aggregate('orders_m', {
+        aggs: {
+          metrics: {
+            customers: { cardinality: 'customer' }, amounts: { value_count: 'amount' }, mid: { median: 'amount' },
+            pct: { percentiles: { field: 'amount', percents: [25, 50] } }, st: { extended_stats: 'amount' }
+          }
+        }
+      });
+      expect(row.customers).toBe(3);
+      expect(row.amounts).toBe(5);
+      expect(row.mid).toBe(20);
+      expect(row.pct).toEqual({ '25.0': 10, '50.0': 20 });
+      expect(row.st).toMatchObject({ count: 5, min: 4, max: 100, sum: 164, sum_of_squares: 11416 });
+      expect(row.st.variance).toBeCloseTo(1207.36);
+      expect(row.st.std_deviation).toBeCloseTo(Math.sqrt(1207.36));
+    });
+
+    it('should filter groups with having before sort and size', async () => {
+      const rows = await db.aggregate('orders_m', {
+        aggs: { group_by: ['customer'], metrics: { orders: { count: '*' }, total: { sum: 'amount' } }, having: { range: { orders: { gte: 2 } } } },
+        sort: [{ total: 'desc' }], size: 1
+      });
+      expect(rows).toEqual([{ customer: 'ann', orders: 3, total: 60 }]);
+    });
+
+    it('should return top_hits per group', async () => {
+      const rows = await db.aggregate('orders_m', {
+        aggs: { group_by: ['customer'], metrics: { biggest: { top_hits: { size: 1, sort: [{ amount: 'desc' }], _source: ['amount'] } } } },
+        sort: [{ customer: 'asc' }]
+      });
+      expect(rows).toEqual([
+        { customer: 'ann', biggest: [{ amount: 30 }] },
+        { customer: 'bob', biggest: [{ amount: 100 }] },
+        { customer: 'cy', biggest: [{ amount: 4 }] },
+      ]);
+    });
+
+    it('should drop buckets with bucket_selector before applying size', async () => {
+      const result = await db.aggregate('orders_m', {
+        aggs: {
+          buckets: {
+            by_customer: {
+              terms: { field: 'customer', size: 1, order: { total: 'desc' } },
+              metrics: { total: { sum: 'amount' }, latest: { top_hits: { size: 1, sort: [{ id: 'desc' }], _source: ['id'] } } },
+              bucket_selector: { range: { doc_count: { gt: 1 } } }
+            }
+          }
+        }
+      });
+      expect(result.by_customer.buckets).toEqual([{ key: 'ann', doc_count: 3, total: 60, latest: [{ id: 3 }] }]);
+    });
+
+    it('should reject percentiles outside 0-100', async () => {
+      await expect(db.aggregate('orders_m', { aggs: { metrics: { p: { percentiles: { field: 'amount', percents: [150] } } } } }))
+        .rejects.toThrow(ZDSLiteValidationError);
+    });
+  });
+
   describe('Advanced Queries', () => {
     beforeEach(async () => {
       // Create a second table for JOIN tests
@@ -308,6 +898,919 @@ describe('ZDSLite Unit Tests', () => {
     });
   });
 
+  describe('Prefix, Wildcard, Regexp and Fuzzy Queries', () => {
+    const skus = async (query: any) => (await db.search('products', { query, sort: [{ sku: 'asc' }] })).map(p => p.sku);
+
+    beforeEach(async () => {
+      await db.create('products', { id: 'INTEGER PRIMARY KEY', sku: 'TEXT', name: 'TEXT' });
+      await db.insert('products', [
+        { sku: 'AB-100', name: 'Keyboard' }, { sku: 'AB-200', name: 'Keybaord' }, { sku: 'ab-300', name: 'Mouse' },
+        { sku: 'AC_1*', name: 'Monitor' }, { sku: 'ABC', name: 'Kyeboard' },
+      ]);
+    });
+
+    it('should match prefixes with a range and case-insensitively', async () => {
+      expect(await skus({ prefix: { sku: 'AB-' } })).toEqual(['AB-100', 'AB-200']);
+      expect(await skus({ prefix: { sku: { value: 'ab-', case_insensitive: true } } })).toEqual(['AB-100', 'AB-200', 'ab-300']);
+      expect(db.compile('products', { query: { prefix: { sku: 'AB-' } } }).sql).toContain('`sku` >= ? AND `sku` < ?');
+    });
+
+    it('should match wildcards and escape special characters', async () => {
+      expect(await skus({ wildcard: { sku: 'AB-?00' } })).toEqual(['AB-100', 'AB-200']);
+      expect(await skus({ wildcard: { sku: 'AC_1\\*' } })).toEqual(['AC_1*']);
+      expect(await skus({ wildcard: { sku: { value: 'a*0', case_insensitive: true } } })).toEqual(['AB-100', 'AB-200', 'ab-300']);
+    });
+
+    it('should match whole values with regexp', async () => {
+      expect(await skus({ regexp: { sku: 'AB-[12]\\d+' } })).toEqual(['AB-100', 'AB-200']);
+      expect(await skus({ regexp: { sku: { value: 'ab-\\d+', case_insensitive: true } } })).toEqual(['AB-100', 'AB-200', 'ab-300']);
+      expect(() => db.compile('products', { query: { regexp: { sku: '(' } } })).toThrow(ZDSLiteValidationError);
+      // Patterns that can backtrack catastrophically are rejected before they run on every row.
+      for (const pattern of ['(a+)+$', '(x*)*', '([a-z]+){2,}', '((ab)*c)+', '(a)\\1', 'a'.repeat(1001)]) {
+        expect(() => db.compile('products', { query: { regexp: { sku: pattern } } })).toThrow(ZDSLiteValidationError);
+      }
+      expect(await skus({ regexp: { sku: '(?:AB|ab)-([0-9])+' } })).toEqual(['AB-100', 'AB-200', 'ab-300']);
+    });
+
+    it('should match misspellings with fuzzy, counting transpositions as one edit', async () => {
+      expect(await skus({ fuzzy: { name: 'Keyboard' } })).toEqual(['AB-100', 'AB-200', 'ABC']);
+      expect(await skus({ fuzzy: { name: { value: 'Keyboard', fuzziness: 1, transpositions: false } } })).toEqual(['AB-100']);
+      expect(await skus({ fuzzy: { name: { value: 'Keyboard', prefix_length: 2 } } })).toEqual(['AB-100', 'AB-200']);
+    });
+
+    it('should reject unsupported query types', async () => {
+      await expect(db.search('products', { query: { nope: {} } as any })).rejects.toThrow(ZDSLiteValidationError);
+    });
+  });
+
+  describe('Geo Queries', () => {
+    const paris = { lat: 48.8566, lon: 2.3522 };
+    const fields = { lat: 'lat', lon: 'lon' };
+
+    beforeEach(async () => {
+      await db.create('places', { id: 'INTEGER PRIMARY KEY', name: 'TEXT', lat: 'REAL', lon: 'REAL', meta: 'TEXT' });
+      await db.insert('places', [
+        { name: 'Paris', lat: 48.8566, lon: 2.3522, meta: { geo: { lat: 48.8566, lon: 2.3522 } } },
+        { name: 'Brussels', lat: 50.8503, lon: 4.3517, meta: { geo: { lat: 50.8503, lon: 4.3517 } } },
+        { name: 'London', lat: 51.5074, lon: -0.1278, meta: { geo: { lat: 51.5074, lon: -0.1278 } } },
+        { name: 'Berlin', lat: 52.52, lon: 13.405, meta: { geo: { lat: 52.52, lon: 13.405 } } },
+        { name: 'Suva', lat: -18.1416, lon: 178.4419, meta: {} },
+        { name: 'Apia', lat: -13.8333, lon: -171.7667, meta: {} },
+      ]);
+    });
+
+    it('should filter by distance, sort by it and return it', async () => {
+      const places = await db.search('places', {
+        query: { geo_distance: { fields, origin: paris, distance: '400km' } },
+        sort: [{ _geo_distance: { fields, origin: paris, unit: 'km', distance_field: 'km' } }],
+        _source: ['name']
+      });
+      expect(places.map(p => p.name)).toEqual(['Paris', 'Brussels', 'London']);
+      expect(places[1].km).toBeCloseTo(264, 0);
+      expect(places[2].km).toBeCloseTo(344, 0);
+    });
+
+    it('should use a bounding box prefilter that works on JSON fields', async () => {
+      const query = { geo_distance: { fields: { lat: 'meta->>geo.lat', lon: 'meta->>geo.lon' }, origin: paris, distance: 300000 } };
+      expect(db.compile('places', { query }).sql).toContain('BETWEEN ? AND ?');
+      expect((await db.search('places', { query })).map(p => p.name)).toEqual(['Paris', 'Brussels']);
+    });
+
+    it('should filter by a bounding box, including across the antimeridian', async () => {
+      const europe = await db.search('places', { query: { geo_bounding_box: { fields, top_left: { lat: 53, lon: 0 }, bottom_right: { lat: 48, lon: 10 } } } });
+      expect(europe.map(p => p.name)).toEqual(['Paris', 'Brussels']);
+      const pacific = await db.search('places', { query: { geo_bounding_box: { fields, top_left: { lat: -10, lon: 170 }, bottom_right: { lat: -20, lon: -170 } } } });
+      expect(pacific.map(p => p.name)).toEqual(['Suva', 'Apia']);
+    });
+
+    it('should page through distance-sorted results with searchHits cursors', async () => {
+      const sort = [{ _geo_distance: { fields, origin: paris } }];
+      const first = await db.searchHits('places', { query: { exists: { field: 'lat' } }, sort, size: 2, _source: ['name'] });
+      const second = await db.searchHits('places', { query: { exists: { field: 'lat' } }, sort, size: 2, _source: ['name'], search_after: first.next_cursor! });
+      expect([...first.hits, ...second.hits].map(p => p.name)).toEqual(['Paris', 'Brussels', 'London', 'Berlin']);
+    });
+
+    it('should reject invalid points and distances', async () => {
+      expect(() => db.compile('places', { query: { geo_distance: { fields, origin: { lat: 95, lon: 0 }, distance: '1km' } } })).toThrow(ZDSLiteValidationError);
+      expect(() => db.compile('places', { query: { geo_distance: { fields, origin: paris, distance: 'far' as any } } })).toThrow(ZDSLiteValidationError);
+    });
+  });
+
+  describe('Search Envelope and Cursor Pagination', () => {
+    beforeEach(async () => {
+      await db.insert('users', [
+        { id: 4, name: 'Dana', age: 30, email: 'dana@example.com', status: 'active' },
+        { id: 5, name: 'Eli', age: null, email: 'eli@example.com', status: 'active' },
+      ]);
+    });
+
+    it('should return hits with the total count', async () => {
+      const result = await db.searchHits('users', { query: { term: { status: 'active' } }, size: 2 });
+      expect(result.hits.length).toBe(2);
+      expect(result.total).toEqual({ value: 4, relation: 'eq' });
+      expect(result.next_cursor).toEqual(expect.any(String));
+      expect(result.hits[0]._sort_0).toBeUndefined();
+    });
+
+    it('should stop counting at a numeric track_total_hits', async () => {
+      const result = await db.searchHits('users', { track_total_hits: 2 });
+      expect(result.total).toEqual({ value: 2, relation: 'gte' });
+      const untracked = await db.searchHits('users', { track_total_hits: false });
+      expect(untracked.total).toBeNull();
+    });
+
+    it('should page through all results with next_cursor, including ties and NULLs', async () => {
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await db.searchHits('users', { sort: [{ age: 'desc' }], size: 2, search_after: cursor });
+        seen.push(...page.hits.map(h => h.name));
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor);
+      expect(seen).toEqual(['Bob', 'Alice', 'Dana', 'Charlie', 'Eli']);
+    });
+
+    it('should accept raw sort values in search_after', async () => {
+      const users = await db.search('users', { sort: [{ id: 'asc' }], search_after: [3] });
+      expect(users.map(u => u.id)).toEqual([4, 5]);
+    });
+
+    it('should reject an invalid cursor', async () => {
+      await expect(db.searchHits('users', { search_after: 'not-a-cursor' }))
+        .rejects.toThrow(ZDSLiteValidationError);
+    });
+  });
+
+  describe('Full-Text Search', () => {
+    beforeEach(async () => {
+      await db.create('articles', { id: 'INTEGER PRIMARY KEY', title: 'TEXT', body: 'TEXT' });
+      await db.insert('articles', [
+        { id: 1, title: 'Fast laptop review', body: 'The new laptop is fast and light.' },
+        { id: 2, title: 'Mouse buyers guide', body: 'A fast mouse for gaming. Fast fast fast.' },
+        { id: 3, title: 'Keyboard news', body: 'Nothing to see here.' },
+      ]);
+      await db.createFullTextIndex('articles', ['title', 'body']);
+    });
+
+    it('should use the full-text index for match and return a _score', async () => {
+      const results = await db.search('articles', { query: { match: { body: 'fast' } } });
+      expect(results.map(r => r.id).sort()).toEqual([1, 2]);
+      expect(results[0]._score).toBeGreaterThan(0);
+      // Sorted by relevance by default: article 2 mentions "fast" more often.
+      expect(results[0].id).toBe(2);
+    });
+
+    it('should support match_phrase and multi_match', async () => {
+      const phrase = await db.search('articles', { query: { match_phrase: { body: 'new laptop' } } });
+      expect(phrase.map(r => r.id)).toEqual([1]);
+
+      const multi = await db.search('articles', { query: { multi_match: { query: 'keyboard', fields: ['title', 'body'] } } });
+      expect(multi.map(r => r.id)).toEqual([3]);
+    });
+
+    it('should keep the index in sync with updates and deletes', async () => {
+      await db.update('articles', { body: 'Now with a fast switch.' }, { term: { id: 3 } });
+      await db.delete('articles', { query: { term: { id: 2 } } });
+      const results = await db.search('articles', { query: { match: { body: 'fast' } }, sort: [{ id: 'asc' }] });
+      expect(results.map(r => r.id)).toEqual([1, 3]);
+    });
+
+    it('should return highlighted snippets', async () => {
+      const results = await db.search('articles', {
+        query: { match: { title: 'laptop' } },
+        highlight: { fields: ['title'], pre_tags: ['['], post_tags: [']'] }
+      });
+      expect(results[0]._highlight).toEqual({ title: 'Fast [laptop] review' });
+      expect(results[0]._highlight_title).toBeUndefined();
+    });
+
+    it('should fall back to LIKE after the index is dropped', async () => {
+      await db.dropFullTextIndex('articles');
+      const results = await db.search('articles', { query: { match: { body: 'fast' } } });
+      expect(results.length).toBe(2);
+      expect(results[0]._score).toBeUndefined();
+    });
+  });
+
+  describe('Schema Migrations', () => {
+    const migrations: Migration[] = [
+      {
+        version: 1,
+        name: 'create_products',
+        up: 'CREATE TABLE products (id INTEGER PRIMARY KEY, name TEXT); CREATE INDEX idx_products_name ON products (name);',
+        down: 'DROP TABLE products;'
+      },
+      {
+        version: 2,
+        name: 'seed_products',
+        up: async (tx) => { await tx.insert('products', { id: 1, name: 'Laptop' }); },
+        down: async (tx) => { await tx.delete('products', { query: { term: { id: 1 } } }); }
+      },
+    ];
+
+    it('should apply pending migrations in order and record them', async () => {
+      const result = await db.migrate(migrations);
+      expect(result.migrations).toEqual(['1', '2']);
+      expect((await db.search('products', {})).length).toBe(1);
+
+      const again = await db.migrate(migrations);
+      expect(again.migrations).toEqual([]);
+      const status = await db.migrationStatus(migrations);
+      expect(status.map(s => s.state)).toEqual(['applied', 'applied']);
+    });
+
+    it('should roll back one migration by default', async () => {
+      await db.migrate(migrations);
+      const result = await db.migrate(migrations, { direction: 'down' });
+      expect(result.migrations).toEqual(['2']);
+      expect((await db.search('products', {})).length).toBe(0);
+      const status = await db.migrationStatus(migrations);
+      expect(status.map(s => s.state)).toEqual(['applied', 'pending']);
+    });
+
+    it('should roll back a failing migration and stop', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const broken: Migration[] = [
+        migrations[0],
+        { version: 2, name: 'broken', up: 'INSERT INTO products (id, name) VALUES (1, \'A\'); INSERT INTO missing_table VALUES (1);' },
+      ];
+      await expect(db.migrate(broken)).rejects.toThrow(ZDSLiteMigrationError);
+      consoleErrorSpy.mockRestore();
+
+      expect((await db.search('products', {})).length).toBe(0);
+      const status = await db.migrationStatus(broken);
+      expect(status.map(s => s.state)).toEqual(['applied', 'pending']);
+    });
+
+    it('should detect checksum drift', async () => {
+      await db.migrate([migrations[0]]);
+      const changed = [{ ...migrations[0], up: 'CREATE TABLE products (id INTEGER PRIMARY KEY);' }];
+      await expect(db.migrate(changed)).rejects.toThrow(ZDSLiteMigrationError);
+      const status = await db.migrationStatus(changed);
+      expect(status[0].state).toBe('drifted');
+    });
+
+    it('should load SQL migrations with up and down sections from a directory', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zdslite-migrations-'));
+      fs.writeFileSync(path.join(dir, '002_add_index.sql'), 'CREATE INDEX idx_a ON a (x);');
+      fs.writeFileSync(path.join(dir, '001_create_a.sql'), '-- up\nCREATE TABLE a (x TEXT);\n-- down\nDROP TABLE a;\n');
+      fs.writeFileSync(path.join(dir, 'README.md'), 'ignored');
+      const loaded = loadMigrations(dir);
+      fs.rmSync(dir, { recursive: true, force: true });
+
+      expect(loaded.map(m => [m.version, m.name])).toEqual([['001', 'create_a'], ['002', 'add_index']]);
+      expect(loaded[0].up).toBe('CREATE TABLE a (x TEXT);');
+      expect(loaded[0].down).toBe('DROP TABLE a;');
+      expect(loaded[1].down).toBeUndefined();
+    });
+  });
+
+  describe('API Server Routes', () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      server = http.createServer(createRequestHandler(db));
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    const request = async (method: string, route: string, body?: unknown) => {
+      const response = await fetch(`${baseUrl}${route}`, { method, headers: { 'Content-Type': 'application/json' }, body: body === undefined ? undefined : JSON.stringify(body) });
+      return { status: response.status, body: await response.json() as any };
+    };
+
+    it('should search and count with Elasticsearch-style responses', async () => {
+      const search = await request('POST', '/users/_search?size=1', { query: { term: { status: 'active' } }, sort: [{ age: 'desc' }] });
+      expect(search.status).toBe(200);
+      expect(search.body.hits.total).toEqual({ value: 2, relation: 'eq' });
+      expect(search.body.hits.hits).toEqual([{ _index: 'users', _id: '2', _score: null, _source: expect.objectContaining({ name: 'Bob' }) }]);
+      expect(search.body.next_cursor).toEqual(expect.any(String));
+
+      const count = await request('POST', '/users/_count', { query: { range: { age: { lt: 40 } } } });
+      expect(count.body).toEqual({ count: 2 });
+      expect((await request('GET', '/users/_count')).body).toEqual({ count: 3 });
+
+      const aggregate = await request('POST', '/users/_aggregate', { aggs: { group_by: ['status'], metrics: { n: { count: '*' } } }, sort: [{ status: 'asc' }] });
+      expect(aggregate.body).toEqual([{ status: 'active', n: 2 }, { status: 'inactive', n: 1 }]);
+    });
+
+    it('should create, read, replace and delete documents by id', async () => {
+      const created = await request('POST', '/users/_doc', { name: 'Dana', email: 'dana@example.com' });
+      expect(created).toEqual({ status: 201, body: { _index: 'users', _id: '4', result: 'created' } });
+
+      const fetched = await request('GET', '/users/_doc/4');
+      expect(fetched.body).toMatchObject({ found: true, _source: { id: 4, name: 'Dana' } });
+
+      expect((await request('PUT', '/users/_doc/4', { status: 'active' })).body.result).toBe('updated');
+      expect((await request('PUT', '/users/_doc/9', { name: 'Ivy' })).status).toBe(201);
+      expect((await request('GET', '/users/_doc/4')).body._source).toMatchObject({ name: 'Dana', status: 'active' });
+
+      expect((await request('DELETE', '/users/_doc/4')).body.result).toBe('deleted');
+      expect(await request('DELETE', '/users/_doc/4')).toEqual({ status: 404, body: { _index: 'users', _id: '4', result: 'not_found' } });
+      expect((await request('GET', '/users/_doc/4')).body).toEqual({ _index: 'users', _id: '4', found: false });
+    });
+
+    it('should create a new id once when PUTs race, and report the failure of the write', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const racing = await Promise.all([1, 2].map(n => request('PUT', '/users/_doc/12', { name: `Racer ${n}` })));
+      expect(racing.map(r => r.status).sort()).toEqual([200, 201]);
+      expect(await db.count('users', { query: { term: { id: 12 } } })).toBe(1);
+
+      const conflict = await request('PUT', '/users/_doc/13', { name: 'Copy', email: 'bob@example.com' });
+      consoleErrorSpy.mockRestore();
+      expect(conflict.status).toBe(409);
+      expect(conflict.body.code).toBe('UNIQUE_CONFLICT');
+      expect(await db.count('users', { query: { term: { id: 13 } } })).toBe(0);
+    });
+
+    it('should update and delete by query', async () => {
+      const updated = await request('POST', '/users/_update_by_query', { query: { term: { status: 'active' } }, doc: { $inc: { age: 1 } } });
+      expect(updated.body).toEqual({ updated: 2 });
+      const deleted = await request('POST', '/users/_delete_by_query', { query: { range: { age: { gt: 40 } } } });
+      expect(deleted.body).toEqual({ deleted: 1 });
+    });
+
+    it('should create and drop tables and report errors with HTTP statuses', async () => {
+      expect((await request('PUT', '/notes', { columns: { id: 'INTEGER PRIMARY KEY', body: 'TEXT' } })).body).toEqual({ acknowledged: true, index: 'notes' });
+      expect((await request('GET', '/notes')).body.columns.map((c: { name: string }) => c.name)).toEqual(['id', 'body']);
+      expect((await request('DELETE', '/notes')).status).toBe(200);
+
+      expect((await request('GET', '/notes/_search')).status).toBe(404);
+      expect((await request('POST', '/users/_search', { query: { nope: {} } })).status).toBe(400);
+      expect((await request('PATCH', '/users/_search')).status).toBe(405);
+      expect((await request('GET', '/users/_unknown')).status).toBe(404);
+    });
+
+    it('should stream search results as NDJSON', async () => {
+      const response = await fetch(`${baseUrl}/users/_stream`, { method: 'POST', body: JSON.stringify({ sort: [{ id: 'asc' }], _source: ['id'] }) });
+      expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+      expect((await response.text()).split('\n')).toEqual(['{"id":1}', '{"id":2}', '{"id":3}', '']);
+      expect((await request('POST', '/missing/_stream', {})).status).toBe(404);
+    });
+
+    it('should apply NDJSON bulk bodies', async () => {
+      const body = [
+        '{ "create": { "_id": 5 } }',
+        '{ "name": "Finn", "email": "finn@example.com" }',
+        '{ "delete": { "_index": "users", "_id": 2 } }',
+      ].join('\n') + '\n';
+      const response = await fetch(`${baseUrl}/users/_bulk`, { method: 'POST', headers: { 'Content-Type': 'application/x-ndjson' }, body });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ errors: false, items: [{ create: { _id: '5', status: 201 } }, { delete: { _id: '2', result: 'deleted' } }] });
+      expect((await fetch(`${baseUrl}/_bulk`, { method: 'POST', body: '{ "create": {} }\n{}' })).status).toBe(400);
+    });
+
+    it('should map errors to HTTP statuses with their codes', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const conflict = await request('POST', '/users/_doc', { name: 'Copy', email: 'bob@example.com' });
+      consoleErrorSpy.mockRestore();
+      expect(conflict.status).toBe(409);
+      expect(conflict.body).toMatchObject({ name: 'ZDSLiteUniqueConflictError', code: 'UNIQUE_CONFLICT' });
+
+      expect((await request('GET', '/missing')).body).toMatchObject({ code: 'NOT_FOUND' });
+      await db.registerSchema('users', { age: { type: 'integer', min: 0 } });
+      const invalid = await request('PUT', '/users/_doc/1', { age: -5 });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body).toMatchObject({ code: 'SCHEMA_MISMATCH', errors: [{ path: 'age', message: 'must be >= 0' }] });
+      expect(await request('POST', '/query', { method: 'nope' })).toMatchObject({ status: 400, body: { code: 'VALIDATION_FAILED' } });
+      expect(await request('POST', '/query', { method: 'run', sql: 'DROP TABLE users' })).toMatchObject({ status: 400, body: { code: 'VALIDATION_FAILED' } });
+      expect(await db.listTables()).toContain('users');
+    });
+
+    it('should keep the legacy /query endpoint, with index management and transactions', async () => {
+      const legacy = await request('POST', '/query', { method: 'search', table: 'users', dsl: { query: { term: { name: 'Alice' } } } });
+      expect(legacy.body[0].email).toBe('alice@example.com');
+      expect((await request('POST', '/query', { method: 'createIndex', table: 'users', fields: ['status'] })).body).toEqual({ acknowledged: true, indexName: 'idx_users_status' });
+
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const failed = await request('POST', '/query', { method: 'transaction', operations: [
+        { method: 'update', table: 'users', doc: { status: 'archived' }, query: { term: { name: 'Alice' } } },
+        { method: 'insert', table: 'users', data: { name: 'Copy', email: 'bob@example.com' } },
+      ] });
+      consoleErrorSpy.mockRestore();
+      expect(failed.status).toBe(409);
+      expect(failed.body.code).toBe('UNIQUE_CONFLICT');
+      expect((await db.search('users', { query: { term: { name: 'Alice' } } }))[0].status).toBe('active');
+
+      const committed = await request('POST', '/query', { method: 'transaction', operations: [
+        { method: 'update', table: 'users', doc: { status: 'archived' }, query: { term: { name: 'Alice' } } },
+        { method: 'count', table: 'users', dsl: { query: { term: { status: 'archived' } } } },
+      ] });
+      expect(committed.body).toEqual([{ acknowledged: true, updatedCount: 1 }, 1]);
+    });
+  });
+
+  describe('Search Streaming', () => {
+    it('should stream every matching row, in order, without the default size', async () => {
+      await db.insert('users', Array.from({ length: 20 }, (_, i) => ({ name: `User ${i}`, email: `user${i}@example.com`, status: 'active' })));
+      const names: string[] = [];
+      for await (const row of db.searchStream('users', { query: { term: { status: 'active' } }, sort: [{ id: 'desc' }], _source: ['name'] })) names.push(row.name);
+      expect(names).toHaveLength(22);
+      expect(names.slice(0, 2)).toEqual(['User 19', 'User 18']);
+
+      const limited: any[] = [];
+      for await (const row of db.searchStream('users', { size: 3, from: 1, sort: [{ id: 'asc' }] })) limited.push(row.id);
+      expect(limited).toEqual([2, 3, 4]);
+    });
+
+    it('should read in batches, leaving the connection free for reads and writes while it is open', async () => {
+      const strict = new ZDSLite(':memory:', { errorMode: 'throw' });
+      try {
+        await strict.create('items', { id: 'INTEGER PRIMARY KEY', name: 'TEXT', rank: 'INTEGER' });
+        // Equal ranks are ordered by rowid across batch boundaries.
+        await strict.insert('items', Array.from({ length: 1200 }, (_, i) => ({ name: `item ${i}`, rank: i % 3 })));
+        const ids: number[] = [];
+        for await (const row of strict.searchStream('items', { sort: [{ rank: 'desc' }] })) {
+          if (ids.length === 0) {
+            expect(await strict.count('items')).toBe(1200);
+            expect((await strict.insert('items', { name: 'late', rank: -1 })).acknowledged).toBe(true);
+            await strict.createApiKey('reader', { tables: { items: 'read' } });
+          }
+          ids.push(row.id);
+        }
+        expect(ids).toHaveLength(1201);
+        expect(new Set(ids).size).toBe(1201);
+        expect(ids.slice(0, 2)).toEqual([3, 6]);
+        expect(ids[ids.length - 1]).toBe(1201);
+
+        const first: string[] = [];
+        for await (const row of strict.searchStream('items', { size: 700, from: 1 })) first.push(row.name);
+        expect(first).toHaveLength(700);
+        expect([first[0], first[699]]).toEqual(['item 1', 'item 700']);
+        await expect(strict.searchStream('items', { query: { nope: {} } as any }).next()).rejects.toThrow(ZDSLiteValidationError);
+      } finally {
+        strict.close();
+      }
+    });
+
+    it('should stream joins and WITHOUT ROWID tables across batches, and throw when a batch fails', async () => {
+      await db.create('orders', { id: 'INTEGER PRIMARY KEY', user_id: 'INTEGER', total: 'REAL' });
+      await db.insert('orders', Array.from({ length: 800 }, (_, i) => ({ user_id: (i % 3) + 1, total: i })));
+      const orderIds: number[] = [];
+      for await (const row of db.searchStream('users', {
+        _source: ['users.name', 'orders.id as order_id'], join: [{ type: 'INNER', target: 'orders', on: { left: 'users.id', right: 'orders.user_id' } }], sort: [{ 'users.id': 'asc' }],
+      })) orderIds.push(row.order_id);
+      expect(orderIds).toHaveLength(800);
+      expect(new Set(orderIds).size).toBe(800);
+
+      db.run('CREATE TABLE codes (code TEXT PRIMARY KEY, n INTEGER) WITHOUT ROWID');
+      await db.insert('codes', Array.from({ length: 600 }, (_, i) => ({ code: `c${String(i).padStart(4, '0')}`, n: i % 2 })));
+      const codes: string[] = [];
+      for await (const row of db.searchStream('codes', { sort: [{ n: 'asc' }] })) codes.push(row.code);
+      expect(new Set(codes).size).toBe(600);
+
+      // errorMode 'result' has no fallback for a stream that is already under way.
+      const read: string[] = [];
+      await expect((async () => {
+        for await (const row of db.searchStream('codes', {})) {
+          if (read.length === 0) db.run('DROP TABLE codes');
+          read.push(row.code);
+        }
+      })()).rejects.toThrow(ZDSLiteQueryError);
+      expect(read).toHaveLength(500);
+    });
+  });
+
+  describe('Bulk Operations', () => {
+    it('should run mixed operations and report each one, keeping the others when one fails', async () => {
+      const result = await db.bulk([
+        { index: { _index: 'users', _id: 1, doc: { name: 'Alicia', email: 'alice@example.com' } } },
+        { create: { _index: 'users', doc: { name: 'Dana', email: 'dana@example.com' } } },
+        { create: { _index: 'users', _id: 2, doc: { name: 'Bobby', email: 'bobby@example.com' } } },
+        { update: { _index: 'users', query: { term: { status: 'active' } }, doc: { $inc: { age: 1 } } } },
+        { update: { _index: 'users', _id: 99, doc: { age: 1 } } },
+        { upsert: { _index: 'users', doc: { name: 'Eve', email: 'eve@example.com' }, conflictKey: 'email' } },
+        { delete: { _index: 'users', _id: 3 } },
+        { delete: { _index: 'users', _id: 3 } },
+      ]);
+
+      expect(result.errors).toBe(true);
+      expect(result.items).toEqual([
+        { index: { _index: 'users', _id: '1', status: 200, result: 'updated' } },
+        { create: { _index: 'users', _id: '4', status: 201, result: 'created' } },
+        { create: { _index: 'users', _id: '2', status: 409, error: { type: 'ZDSLiteUniqueConflictError', reason: 'Insert query failed: UNIQUE constraint failed: users.id', code: 'UNIQUE_CONFLICT' } } },
+        { update: { _index: 'users', _id: null, status: 200, result: 'updated', count: 2 } },
+        { update: { _index: 'users', _id: '99', status: 404, error: expect.objectContaining({ code: 'NOT_FOUND' }) } },
+        { upsert: { _index: 'users', _id: null, status: 201, result: 'created' } },
+        { delete: { _index: 'users', _id: '3', status: 200, result: 'deleted' } },
+        { delete: { _index: 'users', _id: '3', status: 404, result: 'not_found' } },
+      ]);
+      const rows = await db.search('users', { sort: [{ id: 'asc' }] });
+      expect(rows.map(r => [r.name, r.age])).toEqual([['Alicia', 31], ['Bob', 46], ['Dana', null], ['Eve', null]]);
+    });
+
+    it('should validate every operation first, and roll everything back in atomic mode', async () => {
+      await expect(db.bulk([
+        { delete: { _index: 'users', _id: 1 } },
+        { update: { _index: 'users', doc: { age: 1 } } } as any,
+      ])).rejects.toThrow('Bulk operation [1]: "update" requires either "_id" or "query".');
+      expect(await db.count('users')).toBe(3);
+
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      await expect(db.bulk([
+        { delete: { _index: 'users', _id: 1 } },
+        { create: { _index: 'users', doc: { name: 'Copy', email: 'bob@example.com' } } },
+      ], { atomic: true })).rejects.toThrow(ZDSLiteUniqueConflictError);
+      consoleErrorSpy.mockRestore();
+      expect(await db.count('users')).toBe(3);
+
+      const chunked = await db.bulk([1, 2, 3].map(i => ({ delete: { _index: 'users', _id: i } })), { chunkSize: 2 });
+      expect(chunked.errors).toBe(false);
+      expect(await db.count('users')).toBe(0);
+    });
+
+    it('should throw the failing operation of an atomic bulk, and use a savepoint inside a transaction', async () => {
+      const failing: BulkOperation[] = [
+        { delete: { _index: 'users', _id: 1 } },
+        { create: { _index: 'users', doc: { name: 'Copy', email: 'bob@example.com' } } },
+      ];
+      const error = await db.bulk(failing, { atomic: true }).catch(e => e);
+      expect(error).toBeInstanceOf(ZDSLiteUniqueConflictError);
+      expect(error.message).not.toContain('Transaction failed');
+
+      await db.transaction(async tx => {
+        await tx.insert('users', { name: 'Dana', email: 'dana@example.com' });
+        await expect(tx.bulk(failing, { atomic: true })).rejects.toThrow(ZDSLiteUniqueConflictError);
+        const result = await tx.bulk([{ delete: { _index: 'users', _id: 1 } }], { atomic: true });
+        expect(result.items).toEqual([{ delete: { _index: 'users', _id: '1', status: 200, result: 'deleted' } }]);
+      });
+      const rows = await db.search('users', { _source: ['name'], sort: [{ id: 'asc' }] });
+      expect(rows.map(r => r.name)).toEqual(['Bob', 'Charlie', 'Dana']);
+    });
+
+    it('should parse NDJSON bulk bodies', () => {
+      const ndjson = [
+        '{ "index": { "_index": "users", "_id": "7" } }',
+        '{ "name": "Gus" }',
+        '',
+        '{ "delete": { "_index": "users", "_id": 1 } }',
+        '{ "update": { "_index": "users", "_id": 2 } }',
+        '{ "doc": { "status": "away" } }',
+      ].join('\n');
+      expect(parseBulkNdjson(ndjson)).toEqual([
+        { index: { _index: 'users', _id: '7', doc: { name: 'Gus' } } },
+        { delete: { _index: 'users', _id: 1 } },
+        { update: { _index: 'users', _id: 2, doc: { status: 'away' } } },
+      ]);
+      expect(() => parseBulkNdjson('{ "create": { "_index": "users" } }')).toThrow('Line 1: the "create" action must be followed by a source line.');
+      expect(() => parseBulkNdjson('{ "index": {} }\nnot json')).toThrow(/Line 2: invalid JSON/);
+    });
+  });
+
+  describe('Import and Export', () => {
+    it('should parse CSV and report the rows that cannot be read', () => {
+      expect(parseCsv('\ufeffa,b\r\n"x, ""y""","multi\nline"\n\n1,\n')).toEqual([['a', 'b'], ['x, "y"', 'multi\nline'], ['1', '']]);
+      expect(() => parseCsv('a\n"open')).toThrow(ZDSLiteValidationError);
+
+      expect(parseRecords('id,zip,score,name\n1,01234,9.5,\n2,3\n', 'csv')).toEqual({
+        records: [{ row: 1, doc: { id: 1, zip: '01234', score: 9.5, name: null } }],
+        errors: [{ row: 2, error: 'Expected 4 fields, got 2.', code: 'VALIDATION_FAILED' }],
+      });
+      const ndjson = parseRecords('{"a":1}\n\n[1]\n{bad\n', 'ndjson');
+      expect(ndjson.records).toEqual([{ row: 1, doc: { a: 1 } }]);
+      expect(ndjson.errors.map(e => e.row)).toEqual([2, 3]);
+      expect(() => parseRecords('{"a":1}', 'json')).toThrow('array of objects');
+    });
+
+    it('should infer columns, honoring UUID and HASHED columns, and create a table that accepts the rows', async () => {
+      const docs = [{ n: 1, price: 2.5, name: 'a', tags: ['x'], active: true }, { n: 2, price: 3, name: null, password: 'pw' }];
+      expect(inferColumns(docs, { primaryKey: 'n' })).toEqual(expect.objectContaining({ n: 'INTEGER PRIMARY KEY', password: 'TEXT' }));
+      expect(() => inferColumns(docs, { uuid: 'id', primaryKey: 'n' })).toThrow(ZDSLiteValidationError);
+      const columns = inferColumns(docs, { uuid: 'id', hashed: ['password'] });
+      expect(columns).toEqual({ id: 'UUID PRIMARY KEY', n: 'INTEGER', price: 'REAL', name: 'TEXT', tags: 'TEXT', active: 'INTEGER', password: 'HASHED' });
+
+      await db.create('imported', columns);
+      const { columns: described } = await db.describe('imported');
+      expect(described.filter(c => c.zdsliteType).map(c => [c.name, c.zdsliteType])).toEqual([['id', 'UUID'], ['password', 'HASHED']]);
+    });
+
+    it('should stream rows as CSV, NDJSON and JSON', async () => {
+      const collect = async (format: 'csv' | 'ndjson' | 'json', dsl = {}) => {
+        let text = '';
+        for await (const chunk of formatRows(db.searchStream('users', dsl), format)) text += chunk;
+        return text;
+      };
+      await db.update('users', { name: 'Alice "Al", Sr.' }, { term: { id: 1 } });
+      const dsl = { _source: ['id', 'name'], sort: [{ id: 'asc' as const }], size: 2 };
+      expect(await collect('csv', dsl)).toBe('id,name\n1,"Alice ""Al"", Sr."\n2,Bob\n');
+      expect(await collect('ndjson', dsl)).toBe('{"id":1,"name":"Alice \\"Al\\", Sr."}\n{"id":2,"name":"Bob"}\n');
+      expect(JSON.parse(await collect('json', dsl))).toEqual([{ id: 1, name: 'Alice "Al", Sr.' }, { id: 2, name: 'Bob' }]);
+      expect(await collect('json', { query: { term: { id: 99 } } })).toBe('[]\n');
+    });
+  });
+
+  describe('Error Taxonomy', () => {
+    it('should report failures with specific classes and stable codes', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const duplicate = await db.insert('users', { name: 'Copy', email: 'bob@example.com' });
+      const missingName = await db.insert('users', { email: 'nobody@example.com' });
+      consoleErrorSpy.mockRestore();
+      if (duplicate.acknowledged || missingName.acknowledged) throw new Error('Expected the inserts to fail');
+      expect(duplicate.error).toBeInstanceOf(ZDSLiteUniqueConflictError);
+      expect(duplicate.error).toBeInstanceOf(ZDSLiteQueryError);
+      expect(duplicate.error).toMatchObject({ code: 'UNIQUE_CONFLICT', sqliteCode: 'SQLITE_CONSTRAINT_UNIQUE' });
+      expect(missingName.error).toBeInstanceOf(ZDSLiteConstraintError);
+      expect(missingName.error).toMatchObject({ code: 'CONSTRAINT_VIOLATION', sqliteCode: 'SQLITE_CONSTRAINT_NOTNULL' });
+
+      await expect(db.describe('missing')).rejects.toMatchObject({ code: 'NOT_FOUND', name: 'ZDSLiteNotFoundError' });
+      await db.registerSchema('users', { age: { type: 'integer', min: 0 } });
+      await expect(db.insert('users', { name: 'Neg', age: -1 })).rejects.toThrow(ZDSLiteSchemaError);
+      expect(queryError('Run query failed', { cause: Object.assign(new Error('database is locked'), { code: 'SQLITE_BUSY' }) })).toBeInstanceOf(ZDSLiteBusyError);
+      expect(new ZDSLiteNotFoundError('x')).toBeInstanceOf(ZDSLiteError);
+      expect(new ZDSLiteNotFoundError('x')).not.toBeInstanceOf(ZDSLiteValidationError);
+      expect(new ZDSLiteNotFoundError('x')).not.toHaveProperty('errors');
+    });
+
+    it('should throw every failure in throw mode, and return results otherwise', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      expect(await db.search('missing_table', {})).toEqual([]);
+      expect(await db.count('missing_table')).toBe(0);
+      consoleErrorSpy.mockRestore();
+
+      const strict = new ZDSLite(':memory:', { errorMode: 'throw' });
+      try {
+        expect(strict.errorMode).toBe('throw');
+        await strict.create('users', { id: 'INTEGER PRIMARY KEY', email: 'TEXT UNIQUE' });
+        await strict.insert('users', { id: 1, email: 'a@example.com' });
+        await expect(strict.insert('users', { id: 2, email: 'a@example.com' })).rejects.toThrow(ZDSLiteUniqueConflictError);
+        await expect(strict.search('missing_table', {})).rejects.toMatchObject({ code: 'QUERY_FAILED' });
+        await expect(strict.aggregate('missing_table', { aggs: { metrics: { n: { count: '*' } } } })).rejects.toThrow(ZDSLiteQueryError);
+        await expect(strict.createIndex('missing_table', ['x'])).rejects.toThrow(ZDSLiteQueryError);
+        expect(() => strict.run('NOT SQL')).toThrow(ZDSLiteQueryError);
+      } finally {
+        strict.close();
+      }
+      expect(() => new ZDSLite(':memory:', { errorMode: 'silent' as any })).toThrow(ZDSLiteValidationError);
+    });
+  });
+
+  describe('API Keys', () => {
+    it('should create, verify, list and revoke keys without storing them in clear', async () => {
+      // The key table created by a rolled back call is created again on next use.
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      await expect(db.transaction(async tx => {
+        await tx.createApiKey('discarded', { tables: { users: 'read' } });
+        throw new Error('Changed my mind');
+      })).rejects.toThrow(ZDSLiteQueryError);
+      consoleErrorSpy.mockRestore();
+      expect(await db.hasActiveApiKeys()).toBe(false);
+
+      const created = await db.createApiKey('reporting', { tables: { users: 'read' } });
+      if (!created.acknowledged) throw created.error;
+      expect(created.key).toMatch(/^zdsl_[0-9a-f]{12}\.[A-Za-z0-9_-]{32}$/);
+
+      expect(await db.verifyApiKey(created.key)).toMatchObject({ id: created.id, name: 'reporting', revokedAt: null });
+      expect(await db.verifyApiKey(created.key.slice(0, -1) + (created.key.endsWith('A') ? 'B' : 'A'))).toBeNull();
+      expect(await db.listApiKeys()).toEqual([expect.objectContaining({ id: created.id, permissions: { tables: { users: 'read' } } })]);
+      expect(JSON.stringify(await db.search('_zdslite_api_keys', {}))).not.toContain(created.key.split('.')[1]);
+      expect(await db.listTables()).not.toContain('_zdslite_api_keys');
+      expect(await db.hasActiveApiKeys()).toBe(true);
+
+      expect(await db.revokeApiKey(created.id)).toEqual({ acknowledged: true, id: created.id, revoked: true });
+      expect(await db.verifyApiKey(created.key)).toBeNull();
+      expect((await db.listApiKeys())[0].revokedAt).toEqual(expect.any(String));
+      expect(await db.hasActiveApiKeys()).toBe(false);
+
+      await expect(db.createApiKey('bad', { tables: { users: 'owner' as any } })).rejects.toThrow(ZDSLiteValidationError);
+    });
+
+    describe('server authorization', () => {
+      let server: http.Server;
+      let baseUrl: string;
+      let readKey: string;
+      let adminKey: string;
+
+      beforeEach(async () => {
+        await db.create('accounts', { id: 'INTEGER PRIMARY KEY', login: 'TEXT', password: 'HASHED' });
+        await db.insert('accounts', { id: 1, login: 'alice', password: 'secret' });
+        const read = await db.createApiKey('reader', { tables: { users: 'read', accounts: 'read' } });
+        const admin = await db.createApiKey('admin', { tables: { '*': 'admin' }, explicitSource: [] });
+        if (!read.acknowledged || !admin.acknowledged) throw new Error('Could not create API keys');
+        readKey = read.key;
+        adminKey = admin.key;
+        server = http.createServer(createRequestHandler(db));
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      });
+
+      afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+      });
+
+      const request = async (key: string | null, method: string, route: string, body?: unknown) => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (key) headers.Authorization = `Bearer ${key}`;
+        const response = await fetch(`${baseUrl}${route}`, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+        return { status: response.status, body: await response.json() as any, authenticate: response.headers.get('www-authenticate') };
+      };
+
+      it('should require a valid key once keys exist', async () => {
+        const missing = await request(null, 'POST', '/users/_count', {});
+        expect(missing.status).toBe(401);
+        expect(missing.authenticate).toContain('Bearer');
+        expect((await request('zdsl_000000000000.' + 'x'.repeat(32), 'POST', '/users/_count', {})).status).toBe(401);
+        expect((await request(readKey, 'POST', '/users/_count', {})).body).toEqual({ count: 3 });
+      });
+
+      it('should limit each key to its role on each table', async () => {
+        expect((await request(readKey, 'POST', '/users/_search', { query: { term: { id: 1 } } })).status).toBe(200);
+        expect((await request(readKey, 'POST', '/users/_doc', { name: 'Eve' })).status).toBe(403);
+        expect((await request(readKey, 'DELETE', '/users')).status).toBe(403);
+        expect((await request(readKey, 'POST', '/query', { method: 'insert', table: 'users', data: { name: 'Eve' } })).status).toBe(403);
+        expect((await request(readKey, 'POST', '/query', { method: 'dropIndex', indexName: 'idx_users_status' })).status).toBe(403);
+        expect((await request(adminKey, 'POST', '/users/_doc', { name: 'Eve' })).status).toBe(201);
+
+        await db.create('secrets', { id: 'INTEGER PRIMARY KEY', value: 'TEXT' });
+        expect((await request(readKey, 'GET', '/_schema')).body.tables).toEqual(['accounts', 'users']);
+        expect((await request(readKey, 'GET', '/_schema/secrets')).status).toBe(403);
+        expect((await request(readKey, 'POST', '/users/_search', { join: [{ target: 'secrets', on: { left: 'id', right: 'id' } }] })).status).toBe(403);
+      });
+
+      it("should never give access to ZDSLite's internal tables, even with '*'", async () => {
+        const writer = await db.createApiKey('writer', { tables: { '*': 'write' } });
+        const reader = await db.createApiKey('everything', { tables: { '*': 'read' }, explicitSource: [] });
+        if (!writer.acknowledged || !reader.acknowledged) throw new Error('Could not create API keys');
+
+        const escalate = await request(writer.key, 'POST', '/query', {
+          method: 'update', table: '_zdslite_api_keys', doc: { permissions: JSON.stringify({ tables: { '*': 'admin' } }) }, query: { term: { id: writer.id } },
+        });
+        expect(escalate.status).toBe(403);
+        expect(escalate.body.error).toContain('internal');
+        expect((await request(writer.key, 'DELETE', '/users')).status).toBe(403);
+        expect((await db.listApiKeys()).find(k => k.id === writer.id)!.permissions.tables).toEqual({ '*': 'write' });
+
+        expect((await request(reader.key, 'POST', '/query', { method: 'search', table: '_zdslite_api_keys', dsl: {} })).status).toBe(403);
+        expect((await request(reader.key, 'POST', '/query', { method: 'search', table: 'users', dsl: { join: [{ target: '_zdslite_meta', on: { left: 'name', right: 'table_name' } }] } })).status).toBe(403);
+        expect((await request(adminKey, 'POST', '/query', { method: 'drop', table: '_zdslite_migrations' })).status).toBe(403);
+        const bulk = await fetch(`${baseUrl}/_bulk`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${writer.key}` },
+          body: '{"delete":{"_index":"_zdslite_api_keys","query":{"exists":{"field":"id"}}}}\n',
+        });
+        expect(bulk.status).toBe(403);
+        expect((await db.listApiKeys()).length).toBe(4);
+      });
+
+      it('should require an explicit _source on tables with HASHED columns', async () => {
+        expect((await request(readKey, 'POST', '/accounts/_search', {})).status).toBe(403);
+        expect((await request(readKey, 'POST', '/accounts/_search', { _source: ['*'] })).status).toBe(403);
+        expect((await request(readKey, 'GET', '/accounts/_doc/1')).status).toBe(403);
+        const explicit = await request(readKey, 'POST', '/accounts/_search', { _source: ['id', 'login'] });
+        expect(explicit.body.hits.hits[0]._source).toEqual({ id: 1, login: 'alice' });
+        expect((await request(adminKey, 'POST', '/accounts/_search', {})).status).toBe(200);
+      });
+
+      it('should not let a HASHED column be selected, searched or sorted on', async () => {
+        expect((await request(readKey, 'POST', '/accounts/_search', { _source: ['password'] })).status).toBe(403);
+        const aliased = await request(readKey, 'POST', '/accounts/_search', { _source: ['login', 'password as p'] });
+        expect(aliased.status).toBe(403);
+        expect(aliased.body.error).toContain("HASHED column 'password as p'");
+        expect((await request(readKey, 'POST', '/accounts/_count', { query: { prefix: { password: 'zdslite-scrypt' } } })).status).toBe(403);
+        expect((await request(readKey, 'POST', '/query', {
+          method: 'count', table: 'accounts', dsl: { query: { bool: { filter: [{ range: { password: { gte: 'zdslite-scrypt:v1:a' } } }] } } },
+        })).status).toBe(403);
+        expect((await request(readKey, 'POST', '/accounts/_search', { _source: ['id'], sort: [{ password: 'asc' }] })).status).toBe(403);
+        expect((await request(readKey, 'POST', '/users/_search', {
+          _source: ['users.id'], join: [{ target: 'accounts', on: { left: 'users.name', right: 'accounts.password' } }],
+        })).status).toBe(403);
+
+        const allowed = await request(readKey, 'POST', '/accounts/_search', { _source: ['id'], query: { prefix: { login: 'al' } }, sort: [{ login: 'asc' }] });
+        expect(allowed.body.hits.hits.map((h: any) => h._source)).toEqual([{ id: 1 }]);
+        expect((await request(adminKey, 'POST', '/accounts/_count', { query: { prefix: { password: 'zdslite-scrypt' } } })).body).toEqual({ count: 1 });
+      });
+
+      it('should not return HASHED values through aggregations', async () => {
+        const topHits = { group_by: ['login'], metrics: { t: { top_hits: {} } } };
+        expect((await request(readKey, 'POST', '/accounts/_aggregate', { aggs: topHits })).status).toBe(403);
+        expect((await request(readKey, 'POST', '/accounts/_search', { _source: ['id'], aggs: topHits })).status).toBe(403);
+        expect((await request(readKey, 'POST', '/accounts/_aggregate', { aggs: { metrics: { m: { max: 'password' } } } })).status).toBe(403);
+        expect((await request(readKey, 'POST', '/accounts/_aggregate', { aggs: { buckets: { p: { terms: { field: 'password' } } } } })).status).toBe(403);
+        expect((await request(readKey, 'POST', '/query', { method: 'aggregate', table: 'accounts', dsl: { aggs: { group_by: ['password'] } } })).status).toBe(403);
+
+        const allowed = await request(readKey, 'POST', '/accounts/_aggregate', {
+          aggs: { group_by: ['login'], metrics: { n: { count: '*' }, t: { top_hits: { _source: ['id'] } } } },
+        });
+        expect(allowed.status).toBe(200);
+        expect(JSON.stringify(allowed.body)).not.toContain('zdslite-scrypt');
+        expect((await request(adminKey, 'POST', '/accounts/_aggregate', { aggs: { metrics: { m: { max: 'password' } } } })).status).toBe(200);
+      });
+    });
+  });
+
+  describe('Output Formats', () => {
+    it('should print rows as an aligned table, truncating wide cells', async () => {
+      await db.update('users', { status: { note: 'multi\nline' } }, { term: { id: 3 } });
+      const rows = await db.search('users', { _source: ['id', 'name', 'email', 'status'], sort: [{ id: 'asc' }] });
+      expect(formatResult(rows, 'table', { maxWidth: 12 })).toBe(
+        'id | name    | email        | status\n' +
+        '---+---------+--------------+-------------\n' +
+        ' 1 | Alice   | alice@examp… | active\n' +
+        ' 2 | Bob     | bob@example… | active\n' +
+        ' 3 | Charlie | charlie@exa… | {"note":"mu…\n' +
+        '(3 rows)\n');
+      expect(formatResult([{ n: 1 }], 'table', { header: false })).toBe('1\n');
+      expect(formatResult(await db.searchHits('users', { _source: ['id'], size: 1 }), 'table')).toBe('id\n--\n 1\n(1 row)\n');
+      expect(formatResult(3, 'table')).toBe('3\n');
+    });
+
+    it('should print rows as CSV, TSV, NDJSON and JSON', () => {
+      const rows = [{ id: 1, name: 'a,b', tags: ['x'] }, { id: 2, name: 'tab\there', extra: null }];
+      expect(formatResult(rows, 'csv')).toBe('id,name,tags,extra\n1,"a,b","[""x""]",\n2,tab\there,,\n');
+      expect(formatResult(rows, 'tsv', { header: false })).toBe('1\ta,b\t["x"]\t\n2\ttab\\there\t\t\n');
+      expect(formatResult(rows, 'ndjson')).toBe('{"id":1,"name":"a,b","tags":["x"]}\n{"id":2,"name":"tab\\there","extra":null}\n');
+      expect(formatResult(['users'], 'csv')).toBe('value\nusers\n');
+      expect(formatResult({ acknowledged: true }, 'json')).toBe('{\n  "acknowledged": true\n}\n');
+    });
+  });
+
+  describe('REPL Completion', () => {
+    it('should complete table names, then the columns of that table', async () => {
+      const tables = await db.listTables();
+      const columnsOf = async (table: string) => (await db.describe(table)).columns.map(c => c.name);
+
+      expect(await completeQuery("await db.search('us", tables, columnsOf)).toEqual([['users'], 'us']);
+      expect(await completeQuery('{"method": "count", "table": "', tables, columnsOf)).toEqual([['users'], '']);
+      expect(await completeQuery("db.search('users', { query: { term: { na", tables, columnsOf)).toEqual([['name'], 'na']);
+      expect(await completeQuery('{"table": "users", "dsl": {"sort": [{"', tables, columnsOf)).toEqual([['id', 'name', 'age', 'email', 'status'], '']);
+      // Other words, unknown tables and plain JavaScript are left to the JavaScript completer.
+      expect(await completeQuery("db.search('users', { quer", tables, columnsOf)).toBeNull();
+      expect(await completeQuery("db.search('nope', { na", tables, columnsOf)).toBeNull();
+      expect(await completeQuery('Math.ma', tables, columnsOf)).toBeNull();
+    });
+  });
+
+  describe('Command Dispatch', () => {
+    it('should parse one query, or a script as a JSON array or NDJSON', () => {
+      expect(parsePayloads('{"method":"listTables"}')).toEqual({ payloads: [{ method: 'listTables' }], script: false });
+      expect(parsePayloads('[{"method":"listTables"},{"method":"count","table":"users"}]').payloads).toHaveLength(2);
+      expect(parsePayloads('{"method":"listTables"}\n\n{"method":"describe","table":"users"}\n')).toEqual({
+        payloads: [{ method: 'listTables' }, { method: 'describe', table: 'users' }], script: true,
+      });
+      expect(() => parsePayloads('{"method":"listTables"}\n{oops')).toThrow('Line 2: invalid JSON');
+      expect(() => parsePayloads('[{"method":"listTables"},{"table":"users"}]')).toThrow('Statement 2');
+      expect(() => parsePayloads('  ')).toThrow(ZDSLiteValidationError);
+    });
+
+    it('should call every public method, running CLI-only methods only when local', async () => {
+      await expect(dispatch(db, { method: 'run', sql: 'DELETE FROM users' })).rejects.toThrow('not supported via the API server');
+      await expect(dispatch(db, { method: 'verifyPassword', password: 'x', hash: 'y' })).rejects.toThrow(ZDSLiteValidationError);
+
+      const local = { local: true };
+      expect(await dispatch(db, { method: 'registerColumnType', table: 'users', column: 'status', type: 'HASHED' })).toMatchObject({ acknowledged: true });
+      expect(await dispatch(db, { method: 'createFullTextIndex', table: 'users', fields: ['name'] })).toMatchObject({ acknowledged: true });
+      expect((await dispatch(db, { method: 'compile', table: 'users', dsl: { query: { term: { id: 1 } } } })).sql).toContain('WHERE');
+      expect(await dispatch(db, { method: 'run', sql: 'UPDATE users SET age = ? WHERE id = 1', params: [31] }, local)).toMatchObject({ changes: 1 });
+      expect(await dispatch(db, { method: 'migrationStatus', migrations: [{ version: '001', name: 'init', up: 'SELECT 1' }] }, local))
+        .toEqual([expect.objectContaining({ version: '001', state: 'pending' })]);
+
+      await db.insert('users', { name: 'Dana', status: 'secret' });
+      const [{ status: hash }] = await db.search('users', { query: { term: { name: 'Dana' } } });
+      expect(await dispatch(db, { method: 'verifyPassword', password: 'secret', hash }, local)).toBe(true);
+      expect(await dispatch(db, { method: 'needsRehash', hash }, local)).toBe(false);
+
+      // A transaction runs CLI-only methods too, and rolls all of them back if one fails.
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      await expect(dispatch(db, { method: 'transaction', operations: [
+        { method: 'run', sql: 'DELETE FROM users WHERE id = 3' },
+        { method: 'insert', table: 'users', data: { id: 1, name: 'Duplicate' } },
+      ] }, local)).rejects.toThrow('Transaction failed');
+      expect(await db.count('users')).toBe(4);
+    });
+  });
+
+  describe('Explain and Compile', () => {
+    it('should compile a search without executing it', () => {
+      const compiled = db.compile('users', { query: { term: { status: 'active' } }, size: 5 });
+      expect(compiled.sql).toContain('WHERE `status` = ?');
+      expect(compiled.params).toEqual(['active', 5, 0]);
+    });
+
+    it('should compile an aggregation', () => {
+      const compiled = db.compile('users', { aggs: { group_by: ['status'] } }, { method: 'aggregate' });
+      expect(compiled.sql).toContain('GROUP BY `status`');
+    });
+
+    it('should flag full table scans in the query plan', async () => {
+      const scan = await db.explain('users', { query: { term: { status: 'active' } } });
+      expect(scan.fullScans).toEqual(['users']);
+      expect(scan.plan.some(step => step.fullScan)).toBe(true);
+
+      await db.createIndex('users', ['status']);
+      const indexed = await db.explain('users', { query: { term: { status: 'active' } } });
+      expect(indexed.fullScans).toEqual([]);
+      expect(indexed.plan[0].detail).toContain('idx_users_status');
+    });
+
+    it('should throw a query error for SQL that SQLite cannot prepare', async () => {
+      await expect(db.explain('missing_table', {})).rejects.toThrow(ZDSLiteQueryError);
+    });
+  });
+
   describe('Transactions', () => {
     it('should commit a successful transaction', async () => {
       await db.transaction(async (tx) => {
@@ -356,4 +1859,121 @@ describe('ZDSLite Unit Tests', () => {
       expect(allUsers.find(u => u.name === 'Duplicate Bob')).toBeUndefined();
     });
   });
+
+  describe('Write Events', () => {
+    it('should let before hooks change a write or veto it', async () => {
+      db.on('beforeInsert', event => {
+        if (event.docs.some(doc => doc.name === 'Mallory')) throw new Error('blocked name');
+        event.docs = event.docs.map(doc => ({ ...doc, status: 'pending' }));
+      });
+      db.on('beforeUpdate', event => { event.query = { bool: { must: [event.query, { term: { status: 'active' } }] } }; });
+      db.on('beforeDelete', () => { throw new ZDSLiteValidationError('Deletes are disabled.'); });
+
+      expect(await db.insert('users', { name: 'Dana', email: 'dana@example.com' })).toMatchObject({ acknowledged: true, insertedCount: 1 });
+      expect((await db.search('users', { query: { term: { name: 'Dana' } } }))[0].status).toBe('pending');
+      expect(await db.update('users', { age: 99 }, { range: { age: { lt: 40 } } })).toEqual({ acknowledged: true, updatedCount: 1 });
+
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const vetoed = await db.insert('users', { name: 'Mallory', email: 'mallory@example.com' });
+      expect(vetoed).toMatchObject({ acknowledged: false, error: { message: 'Write vetoed by a beforeInsert hook: blocked name' } });
+      // Inside a transaction, a veto rolls it back.
+      await expect(db.transaction(async tx => {
+        await tx.insert('users', { name: 'Frank', email: 'frank@example.com' });
+        await tx.delete('users', { query: { term: { id: 1 } } });
+      })).rejects.toMatchObject({ cause: { code: 'VALIDATION_FAILED', message: 'Deletes are disabled.' } });
+      consoleErrorSpy.mockRestore();
+
+      expect(await db.count('users')).toBe(4);
+      expect(() => db.on('beforeSearch' as any, () => {})).toThrow(ZDSLiteValidationError);
+    });
+
+    it('should emit after events once their transaction commits, and drop rolled back ones', async () => {
+      const events: any[] = [];
+      const off = db.on('afterInsert', ({ table, docs, insertedCount }) => { events.push({ table, names: docs.map(d => d.name), insertedCount }); });
+      db.on('afterUpdate', ({ updatedCount }) => { events.push({ updatedCount }); });
+
+      await db.insert('users', { name: 'Dana', email: 'dana@example.com' });
+      expect(events).toEqual([{ table: 'users', names: ['Dana'], insertedCount: 1 }]);
+
+      await db.transaction(async tx => {
+        await tx.insert('users', { name: 'Eve', email: 'eve@example.com' });
+        await tx.update('users', { status: 'archived' }, { term: { name: 'Charlie' } });
+        expect(events).toHaveLength(1);
+      });
+      expect(events.slice(1)).toEqual([{ table: 'users', names: ['Eve'], insertedCount: 1 }, { updatedCount: 1 }]);
+
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      await expect(db.transaction(async tx => {
+        await tx.insert('users', { name: 'Frank', email: 'frank@example.com' });
+        await tx.insert('users', { name: 'Duplicate Bob', email: 'bob@example.com' });
+      })).rejects.toThrow(ZDSLiteQueryError);
+      consoleErrorSpy.mockRestore();
+      expect(events).toHaveLength(3);
+
+      // A failed bulk operation is rolled back to its savepoint, with its events.
+      await db.bulk([
+        { create: { _index: 'users', doc: { name: 'Grace', email: 'grace@example.com' } } },
+        { create: { _index: 'users', _id: 1, doc: { name: 'Heidi', email: 'heidi@example.com' } } },
+      ]);
+      expect(events.slice(3).map(e => e.names)).toEqual([['Grace']]);
+
+      await db.beginTransaction();
+      await db.insert('users', { name: 'Judy', email: 'judy@example.com' });
+      expect(events).toHaveLength(4);
+      await db.commit();
+      expect(events.slice(4).map(e => e.names)).toEqual([['Judy']]);
+
+      off();
+      await db.insert('users', { name: 'Ivan', email: 'ivan@example.com' });
+      expect(events).toHaveLength(5);
+    });
+
+    it('should report listener failures to onListenerError without failing the write', async () => {
+      const failures: any[] = [];
+      const watched = new ZDSLite(':memory:', { errorMode: 'throw', onListenerError: (error: any, name) => failures.push([name, error.message]) });
+      try {
+        await watched.create('items', { id: 'INTEGER PRIMARY KEY', name: 'TEXT' });
+        watched.on('afterInsert', () => { throw new Error('sync failure'); });
+        watched.on('afterInsert', async () => { throw new Error('async failure'); });
+        expect(await watched.insert('items', { name: 'a' })).toMatchObject({ acknowledged: true, insertedCount: 1 });
+        await new Promise(resolve => setImmediate(resolve));
+        expect(failures).toEqual([['afterInsert', 'sync failure'], ['afterInsert', 'async failure']]);
+      } finally {
+        watched.close();
+      }
+      expect(() => new ZDSLite(':memory:', { onListenerError: 'log' as any })).toThrow(ZDSLiteValidationError);
+    });
+
+    it('should stream committed writes as Server-Sent Events on /_changes', async () => {
+      await db.create('accounts', { id: 'INTEGER PRIMARY KEY', login: 'TEXT', password: 'HASHED' });
+      const server = http.createServer(createRequestHandler(db));
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      const controller = new AbortController();
+      try {
+        expect((await fetch(`${baseUrl}/_changes`, { method: 'POST' })).status).toBe(405);
+        const response = await fetch(`${baseUrl}/_changes?table=accounts`, { signal: controller.signal });
+        expect(response.headers.get('content-type')).toBe('text/event-stream');
+        const reader = response.body!.getReader();
+        let text = '';
+        const readEvents = async (count: number) => {
+          while ((text.match(/^data: /gm) || []).length < count) text += new TextDecoder().decode((await reader.read()).value);
+          return text.split('\n').filter(line => line.startsWith('data: ')).map(line => JSON.parse(line.slice(6)));
+        };
+
+        // Only the requested table is streamed, without its HASHED values.
+        await db.delete('users', { query: { term: { id: 3 } } });
+        await db.insert('accounts', { id: 1, login: 'alice', password: 'secret' });
+        await db.delete('accounts', { query: { term: { id: 1 } } });
+        expect(await readEvents(2)).toEqual([
+          { operation: 'insert', table: 'accounts', docs: [{ id: 1, login: 'alice' }], insertedCount: 1, lastInsertRowid: 1 },
+          { operation: 'delete', table: 'accounts', query: { term: { id: 1 } }, deletedCount: 1 },
+        ]);
+        expect(text).toMatch(/^: connected\n\nid: 1\n/);
+      } finally {
+        controller.abort();
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
 });
\ No newline at end of file
@@ -2,19 +2,108 @@ import Database from 'better-sqlite3';
 import {
   v7 as uuidv7
 } from 'uuid';
-import { scryptSync, randomBytes, timingSafeEqual } from 'crypto';
+import { scryptSync, randomBytes, timingSafeEqual, createHash } from 'crypto';
 
 import {
   SqlValue, SqlResult, DslQueryClause, DslJoin, DslSort, DslQuery, DslRunResult,
   CreateResult, DropResult, IndexResult, InsertResult, UpdateResult, DeleteResult,
-  UpsertResult, TxResult, ManualTxResult, BoolQuery, MatchQuery, MatchPhraseQuery, MultiMatchQuery,
-  ExistsQuery, RangeQuery, TermQuery, TermsQuery
+  UpsertResult, UpdateDoc, TxResult, ManualTxResult, ColumnTypeResult, ZDSLiteColumnType, SchemaField, TableSchema, SchemaResult, SchemaViolation,
+  ErrorMode, ZDSLiteOptions, ZDSLiteEvents, ZDSLiteEventName, ZDSLiteEventListener, BulkOperation, BulkAction, BulkOptions, BulkItemResult, BulkResult, ApiKeyRole, ApiKeyPermissions, ApiKeyInfo, ApiKeyResult, RevokeApiKeyResult, BoolQuery, MatchQuery, MatchPhraseQuery, MultiMatchQuery,
+  ExistsQuery, RangeQuery, TermQuery, TermsQuery, PrefixQuery, WildcardQuery, RegexpQuery, FuzzyQuery, Fuzziness,
+  GeoDistanceQuery, GeoBoundingBoxQuery, GeoPoint, GeoFields, GeoDistance, DistanceUnit, GeoDistanceSort, DslHighlight, SearchHitsResult,
+  Migration, MigrationStep, MigrateOptions, MigrateResult, MigrationStatus,
+  TableDescription, ColumnDescription, IndexDescription, ForeignKeyDescription,
+  CompileMethod, ExplainResult, QueryPlanStep, DslAggMetrics, DslTopHits, DslBucketAgg, DslRangeAgg, DslDateRangeAgg, DateFormat, RangeOps, AggregationBucket, BucketAggregationResult
 } from './types';
+import { migrationChecksum, compareVersions } from './migrations';
+import { isDateMath, parseDateMath, parseDate, formatDate, toDateString, roundDate, roundFixed, validateTimeZone, DateUnit } from './datemath';
+import { validateSchemaDefinition, columnDefinition, prepareInsert, prepareUpdate, schemaError } from './schema';
+import { Table } from './table';
+
+/**
+ * Per-compilation state threaded through the query parsers.
+ */
+interface QueryContext {
+  /** The main table of the statement, used to resolve full-text indexes. */
+  table?: string;
+  /** Collects full-text MATCH expressions that contribute to `_score` and highlighting. */
+  fullText?: string[];
+}
+
+/**
+ * A single compiled ORDER BY key.
+ */
+interface SortEntry {
+  sql: string;
+  direction: 'ASC' | 'DESC';
+  isScore: boolean;
+  /** Also returns the sort value in each result under this name (`_geo_distance`'s `distance_field`). */
+  alias?: string;
+}
+
+/**
+ * The output of `_compileSearch`: the statement plus what is needed to post-process its rows.
+ */
+interface CompiledSearch extends SqlResult {
+  highlightFields: string[];
+  sortKeys: { isScore: boolean }[];
+  /** The FROM ... WHERE part without pagination, used to count total hits. */
+  countFrom: SqlResult;
+}
+
+type DslRangeAggDef = DslRangeAgg['range'];
+
+/**
+ * One bucket of a range or date_range aggregation: its bounds as column values, and the fields shown in the bucket.
+ */
+interface RangeBucketDef {
+  key: string;
+  from?: SqlValue;
+  to?: SqlValue;
+  fields: Record<string, SqlValue>;
+}
+
+/**
+ * Compiled aggregation metrics: the SELECT expressions plus what is needed to post-process their values.
+ */
+interface CompiledMetrics {
+  select: string[];
+  /** Aliases whose values are returned as JSON objects (stats, extended_stats, percentiles). */
+  jsonAliases: string[];
+  /** top_hits metrics, which run one extra query per group. */
+  topHits: { alias: string; def: DslTopHits }[];
+}
+
+/**
+ * The output of `_compileAggregate`: the statement plus what is needed to post-process its rows.
+ */
+interface CompiledAggregate extends SqlResult {
+  metrics: CompiledMetrics;
+  /** The FROM ... WHERE part, used to fetch top_hits for each group. */
+  from: string;
+  where: SqlResult;
+  groupFields: string[];
+}
+
+/**
+ * A full-text index definition as stored in the metadata catalog.
+ */
+interface FullTextIndexDef {
+  fields: string[];
+  tokenizer: string;
+}
 
 // Re-export types and errors for public API
 export * from './types';
 export * from './errors';
-import { ZDSLiteValidationError, ZDSLiteQueryError } from './errors';
+export { loadMigrations, migrationChecksum } from './migrations';
+export { parseDateMath, formatDate } from './datemath';
+export { Table } from './table';
+export { parseBulkNdjson } from './bulk';
+import { ZDSLiteError, ZDSLiteValidationError, ZDSLiteNotFoundError, ZDSLiteQueryError, ZDSLiteMigrationError, queryError, rootError, errorStatus } from './errors';
+
+// An `after*` event waiting for its transaction to commit.
+type PendingEvent = { [E in ZDSLiteEventName]: { name: E; event: ZDSLiteEvents[E] } }[ZDSLiteEventName];
 
 /**
  * The main class for interacting with a SQLite database using a JSON-based DSL (ZDSLite).
@@ -22,10 +111,45 @@ import { ZDSLiteValidationError, ZDSLiteQueryError } from './errors';
  */
 export class ZDSLite { // Note: This was already ZDSLite, but other references will be checked.
   private db: Database.Database;
+  /** How failed calls are reported: `'result'` (the default) or `'throw'`. See `ZDSLiteOptions.errorMode`. */
+  public readonly errorMode: ErrorMode;
+  private onListenerError: NonNullable<ZDSLiteOptions['onListenerError']>;
 
   // Internal map to track tables that use UUID as a primary key.
   private uuidPkColumns: Map<string, string> = new Map(); // Map<tableName, pkColumnName>
   private hashedColumns: Map<string, Set<string>> = new Map(); // Map<tableName, Set<columnNames>>
+
+  private fullTextIndexes: Map<string, FullTextIndexDef> = new Map(); // Map<tableName, FTS5 definition>
+  private schemas: Map<string, TableSchema> = new Map(); // Map<tableName, schema validated on write>
+  // Scrypt is deliberately slow, so a key is only verified against its stored hash once per connection.
+  private verifiedApiKeys: Map<string, string> = new Map(); // Map<stored hash, SHA-256 of the verified key>
+  // The API key table is created on first use, once per connection (or again after a rollback).
+  private apiKeyTableReady = false;
+
+  private listeners: Map<ZDSLiteEventName, Set<ZDSLiteEventListener<any>>> = new Map();
+  // `after*` events of the open transaction, emitted by _commit() and dropped by _rollback().
+  private pendingEvents: PendingEvent[] = [];
+
+  // Internal catalog table that persists ZDSLite-specific column metadata across connections.
+  private static readonly META_TABLE = '_zdslite_meta';
+
+  // FTS5 shadow tables are named with this prefix followed by the content table name.
+  private static readonly FTS_PREFIX = '_zdslite_fts_';
+  // Bookkeeping table recording which schema migrations have been applied.
+  private static readonly MIGRATIONS_TABLE = '_zdslite_migrations';
+  // API keys of the API server, stored as scrypt hashes.
+  private static readonly API_KEYS_TABLE = '_zdslite_api_keys';
+  private static readonly API_KEY_REGEX = /^zdsl_([0-9a-f]{12})\.([A-Za-z0-9_-]{32})$/;
+  private static readonly API_KEY_ROLES: ApiKeyRole[] = ['read', 'write', 'admin'];
+  // regexp patterns run on every row, so their length is capped (like Elasticsearch's `max_regex_length`).
+  private static readonly MAX_REGEXP_LENGTH = 1000;
+  // searchStream() reads this many rows per query.
+  private static readonly STREAM_BATCH_SIZE = 500;
+  private static readonly BULK_ACTIONS: BulkAction[] = ['index', 'create', 'update', 'upsert', 'delete'];
+  private static readonly EVENT_NAMES: ZDSLiteEventName[] = [
+    'beforeInsert', 'afterInsert', 'beforeUpdate', 'afterUpdate', 'beforeUpsert', 'afterUpsert', 'beforeDelete', 'afterDelete',
+  ];
+  private static readonly FTS_TOKENIZERS = ['unicode61', 'ascii', 'porter', 'porter unicode61', 'porter ascii', 'trigram'];
   
   // Regex for validating safe identifiers.
   // Allows: letters, numbers, and underscores.
@@ -37,18 +161,34 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
   private static readonly HASH_KEY_LENGTH = 64;
   private static readonly HASH_SALT_LENGTH = 16;
 
+  // Geo distances are computed in meters on a sphere with the Earth's mean radius.
+  private static readonly EARTH_RADIUS_M = 6371008.8;
+  private static readonly DISTANCE_UNITS: Record<DistanceUnit, number> = { m: 1, km: 1000, mi: 1609.344, yd: 0.9144, ft: 0.3048, nmi: 1852 };
+
   /**
    * Creates an instance of ZDSLite and connects to the database.
    * @param dbPath The path to the SQLite database file, or ':memory:' for an in-memory database.
+   * @param options Optional settings, such as `errorMode`.
    * @throws {Error} If the database connection fails.
    */
-  constructor(dbPath: string) {
+  constructor(dbPath: string, options: ZDSLiteOptions = {}) {
+    if (options.errorMode !== undefined && options.errorMode !== 'result' && options.errorMode !== 'throw') {
+      throw new ZDSLiteValidationError(`Invalid errorMode: ${options.errorMode}. Expected 'result' or 'throw'.`);
+    }
+    if (options.onListenerError !== undefined && typeof options.onListenerError !== 'function') {
+      throw new ZDSLiteValidationError('Invalid onListenerError: expected a function.');
+    }
+    this.errorMode = options.errorMode || 'result';
+    this.onListenerError = options.onListenerError || ((error, name) => console.error(`${name} listener failed:`, error));
     try {
       this.db = new Database(dbPath);
     } catch (error: any) {
       console.error("Failed to connect to SQLite:", error);
       throw error;
     }
+    this._registerFunctions();
+    this._createMetaTable();
+    this._loadMetadata();
   }
 
   /**
@@ -59,6 +199,67 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
     this.db.close();
   }
 
+  /**
+   * Adds a listener for a write event. `before*` hooks (`beforeInsert`, `beforeUpdate`, `beforeUpsert`, `beforeDelete`)
+   * are awaited in order before the write: they may edit the documents and query of the event, or veto the write by
+   * throwing, which fails the call with the thrown error. `after*` listeners receive the table, documents, query and
+   * affected count once the write is committed; inside a transaction, they are called at COMMIT, and not at all if it is
+   * rolled back. Writes made with `run()` do not emit events, and transactions must be controlled with `transaction()`,
+   * `beginTransaction()`, `commit()` and `rollback()`: the events of a transaction ended with `run('COMMIT')` are dropped.
+   * @param name The event name, e.g. `'afterInsert'`.
+   * @param listener The function to call with the event.
+   * @throws {ZDSLiteValidationError} If the event name is unknown.
+   * @returns {() => void} A function that removes the listener.
+   */
+  public on<E extends ZDSLiteEventName>(name: E, listener: ZDSLiteEventListener<E>): () => void {
+    if (!ZDSLite.EVENT_NAMES.includes(name)) {
+      throw new ZDSLiteValidationError(`Unknown event: ${name}. Expected one of ${ZDSLite.EVENT_NAMES.join(', ')}.`);
+    }
+    if (!this.listeners.has(name)) this.listeners.set(name, new Set());
+    this.listeners.get(name)!.add(listener);
+    return () => this.off(name, listener);
+  }
+
+  /**
+   * Removes a listener added with `on()`.
+   * @param name The event name.
+   * @param listener The listener to remove.
+   */
+  public off<E extends ZDSLiteEventName>(name: E, listener: ZDSLiteEventListener<E>): void {
+    this.listeners.get(name)?.delete(listener);
+  }
+
+  // Runs the `before*` hooks of a write in order. A hook that throws vetoes the write.
+  private async _runHooks<E extends ZDSLiteEventName>(name: E, event: ZDSLiteEvents[E]): Promise<void> {
+    for (const listener of [...(this.listeners.get(name) || [])]) {
+      try {
+        await listener(event);
+      } catch (error: any) {
+        throw error instanceof ZDSLiteError ? error : new ZDSLiteError(`Write vetoed by a ${name} hook: ${error?.message ?? error}`, { cause: error });
+      }
+    }
+  }
+
+  // Emits an `after*` event now, or at COMMIT if a transaction is open. Events still queued outside of a transaction
+  // belong to one that was ended with run(), and are dropped.
+  private _emitAfter<E extends ZDSLiteEventName>(name: E, event: ZDSLiteEvents[E]): void {
+    if (!this.listeners.get(name)?.size) return;
+    if (this.db.inTransaction) return void this.pendingEvents.push({ name, event } as PendingEvent);
+    this.pendingEvents = [];
+    this._emit(name, event);
+  }
+
+  // Listeners are not awaited, and their failures go to `onListenerError` rather than failing the write that is already committed.
+  private _emit<E extends ZDSLiteEventName>(name: E, event: ZDSLiteEvents[E]): void {
+    for (const listener of [...(this.listeners.get(name) || [])]) {
+      try {
+        Promise.resolve(listener(event)).catch(error => this.onListenerError(error, name, event));
+      } catch (error: any) {
+        this.onListenerError(error, name, event);
+      }
+    }
+  }
+
   // Identifier validation function.
   private _validateIdentifier(identifier: string, context: string = 'Identifier'): void {
     if (!ZDSLite.SAFE_IDENTIFIER_REGEX.test(identifier)) {
@@ -75,15 +276,41 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
    * @returns {DslRunResult} The result of the query execution. Includes an `error` property on failure.
    */
   public run(sql: string, params: SqlValue[] = []): DslRunResult {
+    try {
+      return this._execute(sql, params);
+    } catch (error: any) {
+      if (this.errorMode === 'throw') throw error;
+      console.error("Run query failed:", error.cause, { sql, params });
+      return { changes: 0, lastInsertRowid: 0, error };
+    }
+  }
+
+  // Runs a statement, throwing its failure as a query error of the matching class.
+  private _execute(sql: string, params: SqlValue[] = []): Database.RunResult {
     try {
       // Using .prepare() and params prevents SQL Injection for values.
       return this.db.prepare(sql).run(params as any);
     } catch (error: any) {
-      console.error("Run query failed:", error, { sql, params });
-      return { changes: 0, lastInsertRowid: 0, error: new ZDSLiteQueryError('Run query failed', { cause: error, sql }) };
+      throw queryError('Run query failed', { cause: error, sql });
     }
   }
 
+  // Reports a failed write or DDL call: it is thrown in 'throw' mode and inside transactions (so that they roll back),
+  // and otherwise logged and returned as `{ acknowledged: false, error }`.
+  private _writeFailed(error: ZDSLiteError, details: object = {}): { acknowledged: false; error: ZDSLiteError } {
+    if (this.errorMode === 'throw' || this.db.inTransaction) throw error;
+    console.error(`${error.message}:`, error.cause, { sql: (error as ZDSLiteQueryError).sql, ...details });
+    return { acknowledged: false, error };
+  }
+
+  // Reports a failed read with the same policy as writes; outside of 'throw' mode and transactions,
+  // the read resolves with an empty result.
+  private _readFailed<T>(error: ZDSLiteQueryError, empty: T, params: unknown[]): T {
+    if (this.errorMode === 'throw' || this.db.inTransaction) throw error;
+    console.error(`${error.message}: ${error.cause?.message}`, { sql: error.sql, params });
+    return empty;
+  }
+
   /**
    * Verifies a plain-text password against a stored hash for a specific user.
    * This is the secure way to handle user login.
@@ -130,45 +357,221 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
     }
   }
 
+  /**
+   * Registers a special ZDSLite column type on a table that already exists.
+   * Use this for tables created before metadata was persisted, or created outside of `create()`.
+   * The registration is stored in the database and reloaded by every new connection.
+   * @param table The name of the existing table.
+   * @param column The name of the existing column.
+   * @param type The special type: 'UUID' (auto-generated UUIDv7 primary key) or 'HASHED' (auto-hashed password).
+   * @returns {Promise<ColumnTypeResult>} A promise that resolves with the registration result.
+   * @throws {ZDSLiteValidationError} If the table or column name is invalid.
+   * @throws {ZDSLiteNotFoundError} If the table or column does not exist.
+   */
+  public async registerColumnType(table: string, column: string, type: ZDSLiteColumnType): Promise<ColumnTypeResult> {
+    if (!table || !column || !type) throw new ZDSLiteValidationError('Table, column, and type are required for registerColumnType.');
+    // SECURE: Validate the table and column names.
+    this._validateIdentifier(table, 'table name');
+    this._validateIdentifier(column, 'column name');
+    if (type !== 'UUID' && type !== 'HASHED') throw new ZDSLiteValidationError(`Unsupported column type: ${type}. Expected 'UUID' or 'HASHED'.`);
+
+    const tableColumns = this.db.prepare(`PRAGMA table_info(\`${table}\`)`).all() as { name: string }[];
+    if (tableColumns.length === 0) throw new ZDSLiteNotFoundError(`Table '${table}' does not exist.`);
+    if (!tableColumns.some(c => c.name === column)) throw new ZDSLiteNotFoundError(`Column '${column}' does not exist in table '${table}'.`);
+
+    try {
+      this._saveColumnTypes(table, type === 'UUID' ? column : undefined, type === 'HASHED' ? [column] : []);
+      return { acknowledged: true, table, column, type };
+    } catch (error: any) {
+      return this._writeFailed(queryError('Register column type failed', { cause: error }));
+    }
+  }
+
+  /**
+   * Registers a schema on a table that already exists. `insert`, `update` and `upsert` validate documents against it
+   * and throw a ZDSLiteValidationError listing every failing field. The table definition itself is not changed, but
+   * `uuid` primary keys and `hashed` fields are registered as UUID and HASHED columns.
+   * The schema is stored in the database and reloaded by every new connection. Registering again replaces it.
+   * @param table The name of the existing table.
+   * @param schema The field definitions, keyed by column name.
+   * @returns {Promise<SchemaResult>} A promise that resolves with the registration result.
+   * @throws {ZDSLiteValidationError} If the table, a column or the schema definition is invalid.
+   * @throws {ZDSLiteNotFoundError} If the table or a column does not exist.
+   */
+  public async registerSchema(table: string, schema: TableSchema): Promise<SchemaResult> {
+    if (!table || !schema) throw new ZDSLiteValidationError('Table and schema are required for registerSchema.');
+    // SECURE: Validate the table and column names.
+    this._validateIdentifier(table, 'table name');
+    Object.keys(schema).forEach(c => this._validateIdentifier(c, 'column name'));
+    validateSchemaDefinition(schema);
+
+    const tableColumns = this.db.prepare(`PRAGMA table_info(\`${table}\`)`).all() as { name: string }[];
+    if (tableColumns.length === 0) throw new ZDSLiteNotFoundError(`Table '${table}' does not exist.`);
+    const missing = Object.keys(schema).filter(c => !tableColumns.some(tc => tc.name === c));
+    if (missing.length > 0) throw new ZDSLiteNotFoundError(`Column '${missing[0]}' does not exist in table '${table}'.`);
+
+    try {
+      this._saveSchema(table, schema);
+      return { acknowledged: true, table };
+    } catch (error: any) {
+      return this._writeFailed(queryError('Register schema failed', { cause: error }));
+    }
+  }
+
+  // --- Schema Introspection ---
+
+  /**
+   * Lists the user tables in the database. SQLite and ZDSLite internal tables are excluded.
+   * @returns {Promise<string[]>} A promise that resolves with the table names, sorted alphabetically.
+   */
+  public async listTables(): Promise<string[]> {
+    const rows = this.db.prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\' AND name NOT LIKE '\\_zdslite\\_%' ESCAPE '\\' ORDER BY name"
+    ).all() as { name: string }[];
+    return rows.map(r => r.name);
+  }
+
+  /**
+   * Describes a table: its columns (types, nullability, defaults, primary key, special ZDSLite types),
+   * foreign keys, indexes, full-text index and registered schema.
+   * @param table The name of the table.
+   * @returns {Promise<TableDescription>} A promise that resolves with the table description.
+   * @throws {ZDSLiteValidationError} If the table name is invalid.
+   * @throws {ZDSLiteNotFoundError} If the table does not exist.
+   */
+  public async describe(table: string): Promise<TableDescription> {
+    if (!table) throw new ZDSLiteValidationError('Table name is required for describe.');
+    // SECURE: Validate the table name.
+    this._validateIdentifier(table, 'table name');
+
+    const info = this.db.prepare(`PRAGMA table_info(\`${table}\`)`).all() as { name: string; type: string; notnull: number; dflt_value: string | null; pk: number }[];
+    if (info.length === 0) throw new ZDSLiteNotFoundError(`Table '${table}' does not exist.`);
+
+    const hashed = this.hashedColumns.get(table);
+    const columns: ColumnDescription[] = info.map(c => ({
+      name: c.name,
+      type: c.type,
+      notNull: c.notnull === 1,
+      defaultValue: c.dflt_value,
+      primaryKey: c.pk > 0,
+      zdsliteType: this.uuidPkColumns.get(table) === c.name ? 'UUID' : (hashed && hashed.has(c.name) ? 'HASHED' : null),
+    }));
+
+    const fks = this.db.prepare(`PRAGMA foreign_key_list(\`${table}\`)`).all() as { table: string; from: string; to: string | null; on_update: string; on_delete: string }[];
+    const foreignKeys: ForeignKeyDescription[] = fks.map(fk => ({
+      column: fk.from,
+      references: { table: fk.table, column: fk.to },
+      onUpdate: fk.on_update,
+      onDelete: fk.on_delete,
+    }));
+
+    const fullText = this.fullTextIndexes.get(table);
+    return {
+      table,
+      columns,
+      foreignKeys,
+      indexes: await this.listIndexes(table),
+      fullText: fullText ? { fields: [...fullText.fields], tokenizer: fullText.tokenizer } : null,
+      schema: this.schemas.has(table) ? structuredClone(this.schemas.get(table)!) : null,
+    };
+  }
+
+  /**
+   * Lists the indexes of a table, including those created implicitly by UNIQUE and PRIMARY KEY constraints.
+   * @param table The name of the table.
+   * @returns {Promise<IndexDescription[]>} A promise that resolves with the index descriptions.
+   * @throws {ZDSLiteValidationError} If the table name is invalid.
+   */
+  public async listIndexes(table: string): Promise<IndexDescription[]> {
+    if (!table) throw new ZDSLiteValidationError('Table name is required for listIndexes.');
+    // SECURE: Validate the table name.
+    this._validateIdentifier(table, 'table name');
+
+    const list = this.db.prepare(`PRAGMA index_list(\`${table}\`)`).all() as { name: string; unique: number; origin: string; partial: number }[];
+    const sqlStmt = this.db.prepare("SELECT sql FROM sqlite_master WHERE type = 'index' AND name = ?");
+    return list.map(idx => {
+      // Index names come from SQLite itself, but are still quoted with the identifier escaping rule.
+      const cols = this.db.prepare(`PRAGMA index_info("${idx.name.replace(/"/g, '""')}")`).all() as { seqno: number; name: string | null }[];
+      const row = sqlStmt.get(idx.name) as { sql: string | null } | undefined;
+      return {
+        name: idx.name,
+        unique: idx.unique === 1,
+        origin: idx.origin,
+        partial: idx.partial === 1,
+        columns: cols.sort((a, b) => a.seqno - b.seqno).map(c => c.name),
+        sql: row ? row.sql : null,
+      };
+    });
+  }
+
+  /**
+   * Returns a handle on a table whose query, insert, update, upsert, delete and aggregate methods are typed against a row type.
+   * Field names in queries, sorts, `_source` and documents are checked at compile time (including JSON accessor paths),
+   * and `_source` narrows the result rows. The handle delegates to this instance, so it also works inside `transaction()`.
+   * @param name The name of the table.
+   * @returns {Table<T>} The typed table handle.
+   * @throws {ZDSLiteValidationError} If the table name is invalid.
+   */
+  public table<T extends object = Record<string, any>>(name: string): Table<T> {
+    if (!name) throw new ZDSLiteValidationError('Table name is required for table.');
+    // SECURE: Validate the table name.
+    this._validateIdentifier(name, 'table name');
+    return new Table<T>(this, name);
+  }
+
   // --- Data Definition Language (DDL) Methods ---
 
   /**
    * Creates a new table in the database if it doesn't already exist.
    * @param table The name of the table to create.
    * @param columns A record object where keys are column names and values are their SQLite definitions (e.g., 'TEXT NOT NULL'). Special types 'UUID PRIMARY KEY' and 'HASHED' are supported.
+   * A value can also be a schema field (e.g. `{ type: 'string', required: true, max: 80 }`), which generates the column
+   * definition and is registered as the table schema, validated on every write.
    * @returns {Promise<CreateResult>} A promise that resolves with the creation result.
-   * @throws {ZDSLiteValidationError} If table or column names are invalid.
+   * @throws {ZDSLiteValidationError} If table or column names, or schema fields, are invalid.
    */
-  public async create(table: string, columns: Record<string, string>): Promise<CreateResult> {
+  public async create(table: string, columns: Record<string, string | SchemaField>): Promise<CreateResult> {
     if (!table || !columns || Object.keys(columns).length === 0) throw new ZDSLiteValidationError('Table and columns are required.');
     
     // SECURE: Validate the table name.
     this._validateIdentifier(table, 'table name');
     
+    const schema: TableSchema = {};
+    Object.entries(columns).forEach(([key, value]) => { if (typeof value === 'object' && value !== null) schema[key] = value; });
+    validateSchemaDefinition(schema);
+
+    let uuidPkColumn: string | undefined;
+    const hashed: string[] = [];
     const defs = Object.entries(columns).map(([key, value]) => {
       // SECURE: Validate the column name.
       this._validateIdentifier(key, 'column name');
 
+      // Schema fields generate their definition; UUID primary keys and hashed fields are registered by _saveSchema.
+      if (typeof value === 'object' && value !== null) return `\`${key}\` ${columnDefinition(value)}`;
+
       // Check for the special 'UUID PRIMARY KEY' type.
       if (value.toUpperCase().startsWith('UUID PRIMARY KEY')) {
-        this.uuidPkColumns.set(table, key);
+        uuidPkColumn = key;
         // Replace 'UUID' with 'TEXT' for SQLite compatibility.
         return `\`${key}\` TEXT ${value.substring(4)}`;
       }
       // Check for the special 'HASHED' type for password columns.
       if (value.toUpperCase() === 'HASHED') {
-        if (!this.hashedColumns.has(table)) {
-          this.hashedColumns.set(table, new Set());
-        }
-        this.hashedColumns.get(table)!.add(key);
+        hashed.push(key);
         return `\`${key}\` TEXT`; // Store hashes as TEXT.
       }
       return `\`${key}\` ${value}`; // Standard column definition.
     }).join(', ');
     
     const sql = `CREATE TABLE IF NOT EXISTS \`${table}\` (${defs})`;
-    try { this.run(sql); return { acknowledged: true, table: table }; }
-    catch (error: any) { return { acknowledged: false, error: new ZDSLiteQueryError('Create table failed', { cause: error, sql }) }; }
+    try {
+      this._execute(sql);
+      // Persist special column types and the schema so they survive reconnects.
+      this._saveColumnTypes(table, uuidPkColumn, hashed);
+      if (Object.keys(schema).length > 0) this._saveSchema(table, schema);
+      return { acknowledged: true, table: table };
+    }
+    catch (error: any) { return this._writeFailed(queryError('Create table failed', { cause: error, sql })); }
   }
 
   /**
@@ -182,8 +585,14 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
     // SECURE: Validate the table name.
     this._validateIdentifier(table, 'table name');
     const sql = `DROP TABLE IF EXISTS \`${table}\``;
-    try { this.run(sql); return { acknowledged: true, table: table }; }
-    catch (error: any) { return { acknowledged: false, error: new ZDSLiteQueryError('Drop table failed', { cause: error, sql }) }; }
+    try {
+      this._execute(sql);
+      // The FTS5 shadow table is not dropped automatically with its content table.
+      if (this.fullTextIndexes.has(table)) this.db.exec(`DROP TABLE IF EXISTS \`${ZDSLite.FTS_PREFIX}${table}\``);
+      this._deleteMetadata(table);
+      return { acknowledged: true, table: table };
+    }
+    catch (error: any) { return this._writeFailed(queryError('Drop table failed', { cause: error, sql })); }
   }
 
   /**
@@ -211,8 +620,8 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
     
     const uniqueSql = options.unique === true ? 'UNIQUE' : '';
     const sql = `CREATE ${uniqueSql} INDEX IF NOT EXISTS \`${indexName}\` ON \`${table}\` (${quotedFields})`;
-    try { this.run(sql); return { acknowledged: true, indexName: indexName }; }
-    catch (error: any) { console.error("Create index failed:", error, { sql }); return { acknowledged: false, error: new ZDSLiteQueryError('Create index failed', { cause: error, sql }) }; }
+    try { this._execute(sql); return { acknowledged: true, indexName: indexName }; }
+    catch (error: any) { return this._writeFailed(queryError('Create index failed', { cause: error, sql })); }
   }
 
   /**
@@ -226,8 +635,88 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
     // SECURE: Validate the index name.
     this._validateIdentifier(indexName, 'index name');
     const sql = `DROP INDEX IF EXISTS \`${indexName}\``;
-    try { this.run(sql); return { acknowledged: true, indexName: indexName }; }
-    catch (error: any) { console.error("Drop index failed:", error, { sql }); return { acknowledged: false, error: new ZDSLiteQueryError('Drop index failed', { cause: error, sql }) }; }
+    try { this._execute(sql); return { acknowledged: true, indexName: indexName }; }
+    catch (error: any) { return this._writeFailed(queryError('Drop index failed', { cause: error, sql })); }
+  }
+
+  /**
+   * Creates an FTS5 full-text index over one or more TEXT columns of a table.
+   * The index is kept in sync with inserts, updates and deletes by triggers, and existing rows are indexed immediately.
+   * Once created, `match`, `match_phrase` and `multi_match` clauses on indexed fields use FTS5 `MATCH`, and results carry a bm25 `_score`.
+   * Calling it again on the same table replaces the previous full-text index.
+   * @param table The name of the table to index.
+   * @param fields An array of column names to include in the full-text index.
+   * @param options Optional settings for the index.
+   * @param options.tokenizer The FTS5 tokenizer to use (e.g. 'unicode61', 'porter', 'trigram'). Defaults to 'unicode61'.
+   * @returns {Promise<IndexResult>} A promise that resolves with the index creation result.
+   * @throws {ZDSLiteValidationError} If the table, fields or tokenizer are invalid.
+   */
+  public async createFullTextIndex(table: string, fields: string[], options: { tokenizer?: string } = {}): Promise<IndexResult> {
+    if (!table || !Array.isArray(fields) || fields.length === 0) throw new ZDSLiteValidationError('Table name and at least one field are required.');
+
+    // SECURE: Validate the table and column names.
+    this._validateIdentifier(table, 'table name');
+    fields.forEach(f => this._validateIdentifier(f, 'full-text field'));
+
+    // SECURE: The tokenizer is embedded in the DDL, so only known tokenizers are accepted.
+    const tokenizer = options.tokenizer || 'unicode61';
+    if (!ZDSLite.FTS_TOKENIZERS.includes(tokenizer)) throw new ZDSLiteValidationError(`Unsupported tokenizer: ${tokenizer}`);
+
+    const ftsTable = `${ZDSLite.FTS_PREFIX}${table}`;
+    const cols = fields.map(f => `\`${f}\``).join(', ');
+    const newCols = fields.map(f => `new.\`${f}\``).join(', ');
+    const oldCols = fields.map(f => `old.\`${f}\``).join(', ');
+    const sql = [
+      `DROP TABLE IF EXISTS \`${ftsTable}\``,
+      `CREATE VIRTUAL TABLE \`${ftsTable}\` USING fts5(${cols}, content='${table}', content_rowid='rowid', tokenize='${tokenizer}')`,
+      `DROP TRIGGER IF EXISTS \`${ftsTable}_ai\``,
+      `DROP TRIGGER IF EXISTS \`${ftsTable}_ad\``,
+      `DROP TRIGGER IF EXISTS \`${ftsTable}_au\``,
+      `CREATE TRIGGER \`${ftsTable}_ai\` AFTER INSERT ON \`${table}\` BEGIN INSERT INTO \`${ftsTable}\` (rowid, ${cols}) VALUES (new.rowid, ${newCols}); END`,
+      `CREATE TRIGGER \`${ftsTable}_ad\` AFTER DELETE ON \`${table}\` BEGIN INSERT INTO \`${ftsTable}\` (\`${ftsTable}\`, rowid, ${cols}) VALUES ('delete', old.rowid, ${oldCols}); END`,
+      `CREATE TRIGGER \`${ftsTable}_au\` AFTER UPDATE ON \`${table}\` BEGIN INSERT INTO \`${ftsTable}\` (\`${ftsTable}\`, rowid, ${cols}) VALUES ('delete', old.rowid, ${oldCols}); INSERT INTO \`${ftsTable}\` (rowid, ${cols}) VALUES (new.rowid, ${newCols}); END`,
+      `INSERT INTO \`${ftsTable}\` (\`${ftsTable}\`) VALUES ('rebuild')`,
+    ].join(';\n');
+    try {
+      this.db.transaction(() => {
+        this.db.exec(sql);
+        this.db.prepare(`INSERT OR REPLACE INTO \`${ZDSLite.META_TABLE}\` (table_name, column_name, kind, value) VALUES (?, '', 'FTS', ?)`)
+          .run(table, JSON.stringify({ fields, tokenizer }));
+      })();
+      this.fullTextIndexes.set(table, { fields, tokenizer });
+      return { acknowledged: true, indexName: ftsTable };
+    } catch (error: any) {
+      return this._writeFailed(queryError('Create full-text index failed', { cause: error, sql }));
+    }
+  }
+
+  /**
+   * Drops the FTS5 full-text index of a table. `match` queries fall back to `LIKE` afterwards.
+   * @param table The name of the indexed table.
+   * @returns {Promise<IndexResult>} A promise that resolves with the index drop result.
+   * @throws {ZDSLiteValidationError} If the table name is invalid.
+   */
+  public async dropFullTextIndex(table: string): Promise<IndexResult> {
+    if (!table) throw new ZDSLiteValidationError('Table name is required for dropFullTextIndex.');
+    // SECURE: Validate the table name.
+    this._validateIdentifier(table, 'table name');
+    const ftsTable = `${ZDSLite.FTS_PREFIX}${table}`;
+    const sql = [
+      `DROP TRIGGER IF EXISTS \`${ftsTable}_ai\``,
+      `DROP TRIGGER IF EXISTS \`${ftsTable}_ad\``,
+      `DROP TRIGGER IF EXISTS \`${ftsTable}_au\``,
+      `DROP TABLE IF EXISTS \`${ftsTable}\``,
+    ].join(';\n');
+    try {
+      this.db.transaction(() => {
+        this.db.exec(sql);
+        this.db.prepare(`DELETE FROM \`${ZDSLite.META_TABLE}\` WHERE table_name = ? AND kind = 'FTS'`).run(table);
+      })();
+      this.fullTextIndexes.delete(table);
+      return { acknowledged: true, indexName: ftsTable };
+    } catch (error: any) {
+      return this._writeFailed(queryError('Drop full-text index failed', { cause: error, sql }));
+    }
   }
 
   // --- Data Manipulation Language (DML) Methods ---
@@ -245,8 +734,18 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
     // SECURE: Validate the table name.
     this._validateIdentifier(table, 'table name');
     
-    const items = Array.isArray(data) ? data : [data];
-    if (items.length === 0) return { acknowledged: true, insertedCount: 0 };
+    const hook = { table, docs: (Array.isArray(data) ? data : [data]) as Record<string, any>[] };
+    try {
+      await this._runHooks('beforeInsert', hook);
+    } catch (error: any) {
+      return this._writeFailed(error);
+    }
+    const items = hook.docs;
+    if (items.length === 0) return { acknowledged: true, insertedCount: 0, lastInsertRowid: 0 };
+
+    // Validate against the table schema (filling in defaults) before passwords are hashed.
+    const schema = this.schemas.get(table);
+    if (schema) this._checkSchema(table, items.flatMap((item, i) => prepareInsert(schema, item, Array.isArray(data) ? `[${i}]` : '')));
 
     // Process hashing for any fields marked as 'HASHED'.
     this._processHashing(table, items);
@@ -272,57 +771,67 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
       // Use a transaction for inserting multiple items efficiently.
       const stmt = this.db.prepare(sql);
       const insertMany = this.db.transaction((itemsToInsert: object[]) => {
-        let count = 0;
+        let count = 0; let lastInsertRowid: number | bigint = 0;
         for (const item of itemsToInsert) {
           const params = Object.values(item).map(val => (typeof val === 'object' && val !== null) ? JSON.stringify(val) : val);
           // Values are sent as parameters (safe).
           const info = stmt.run(params as any); if (info.changes > 0) count++;
-        } return count;
+          lastInsertRowid = info.lastInsertRowid;
+        } return { count, lastInsertRowid };
       });
-      const insertedCount = insertMany(items);
-      return { acknowledged: true, insertedCount: insertedCount };
+      const { count: insertedCount, lastInsertRowid } = insertMany(items);
+      this._emitAfter('afterInsert', { table, docs: items, insertedCount, lastInsertRowid });
+      return { acknowledged: true, insertedCount: insertedCount, lastInsertRowid };
     } catch (error: any) {
-      console.error("Insert query failed:", error, { sql });
-      const queryError = new ZDSLiteQueryError('Insert query failed', { cause: error, sql });
-      // If inside a transaction, throw to trigger rollback. Otherwise, return the error object.
-      if (this.db.inTransaction) throw queryError;
-      return { acknowledged: false, error: queryError };
+      return this._writeFailed(queryError('Insert query failed', { cause: error, sql }));
     }
   }
 
   /**
    * Updates documents in a table that match a given query.
    * @param table The name of the table.
-   * @param doc An object containing the key-value pairs to update.
+   * @param doc An object containing the key-value pairs to update. Update operators (`$inc`, `$mul`, `$min`, `$max`,
+   * `$set`, `$unset`, `$currentDate`, `$push`) compute new values in SQL, and JSON path keys such as `"meta.details.price"`
+   * edit a JSON column in place.
    * @param query A DSL query clause to select the documents to update.
    * @throws {ZDSLiteValidationError} If required parameters are missing or the update document is empty.
    * @returns {Promise<UpdateResult>} A promise that resolves with the update result.
    */
-  public async update(table: string, doc: Record<string, any>, query: DslQueryClause): Promise<UpdateResult> {
+  public async update(table: string, doc: UpdateDoc, query: DslQueryClause): Promise<UpdateResult> {
     if (!table || !doc || !query) throw new ZDSLiteValidationError('Table, doc, and query are required for update.');
     
     // SECURE: Validate the table name.
     this._validateIdentifier(table, 'table name');
+
+    const hook = { table, doc, query };
+    try {
+      await this._runHooks('beforeUpdate', hook);
+    } catch (error: any) {
+      return this._writeFailed(error);
+    }
+    ({ doc, query } = hook);
     
+    // Validate against the table schema before passwords are hashed.
+    const schema = this.schemas.get(table);
+    if (schema) this._checkSchema(table, prepareUpdate(schema, doc));
+
     // Process hashing for the update document.
     this._processHashing(table, [doc]);
 
-    // SECURE: Doc keys (column names) are validated by _parseSetClause -> _quoteField.
-    const { setSql, setParams } = this._parseSetClause(doc);
+    // SECURE: Doc keys (column names and JSON paths) are validated by _parseSetClause -> _compileSetColumns.
+    const { setSql, setParams } = this._parseSetClause(table, doc);
     if (!setSql) throw new ZDSLiteValidationError('Update document (doc) is empty or invalid.');
     
     // SECURE: Query fields are validated by _parseQuery -> _quoteField.
-    const where = this._parseQuery(query);
+    const where = this._parseQuery(query, { table });
     const sql = `UPDATE \`${table}\` SET ${setSql} WHERE ${where.sql}`;
     const allParams = [...setParams, ...where.params]; // Values are parameterized (safe).
     try {
-      const info = this.run(sql, allParams); if (info.error) throw info.error;
+      const info = this._execute(sql, allParams);
+      this._emitAfter('afterUpdate', { table, doc, query, updatedCount: info.changes });
       return { acknowledged: true, updatedCount: info.changes };
     } catch (error: any) {
-      console.error("Update query failed:", error, { sql, allParams });
-      const queryError = new ZDSLiteQueryError('Update query failed', { cause: error, sql });
-      if (this.db.inTransaction) throw queryError;
-      return { acknowledged: false, error: queryError };
+      return this._writeFailed(queryError('Update query failed', { cause: error, sql }), { allParams });
     }
   }
 
@@ -338,19 +847,24 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
     
     // SECURE: Validate the table name.
     this._validateIdentifier(table, 'table name');
+
+    const hook = { table, query: query.query };
+    try {
+      await this._runHooks('beforeDelete', hook);
+    } catch (error: any) {
+      return this._writeFailed(error);
+    }
     
     // SECURE: Query fields are validated by _parseQuery -> _quoteField.
-    const where = this._parseQuery(query.query);
+    const where = this._parseQuery(hook.query, { table });
     const sql = `DELETE FROM \`${table}\` WHERE ${where.sql}`;
     const allParams = where.params; // Values are parameterized (safe).
     try {
-      const info = this.run(sql, allParams); if (info.error) throw info.error;
+      const info = this._execute(sql, allParams);
+      this._emitAfter('afterDelete', { table, query: hook.query, deletedCount: info.changes });
       return { acknowledged: true, deletedCount: info.changes };
     } catch (error: any) {
-      console.error("Delete query failed:", error, { sql, allParams });
-      const queryError = new ZDSLiteQueryError('Delete query failed', { cause: error, sql });
-      if (this.db.inTransaction) throw queryError;
-      return { acknowledged: false, error: queryError };
+      return this._writeFailed(queryError('Delete query failed', { cause: error, sql }), { allParams });
     }
   }
 
@@ -358,12 +872,13 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
    * Inserts a document, or updates it if a conflict occurs on a unique key.
    * Implements `INSERT ... ON CONFLICT ... DO UPDATE`.
    * @param table The name of the table.
-   * @param doc The document to insert or update.
+   * @param doc The document to insert or update. Update operators and JSON path keys build new values on insert
+   * and edit the stored row on conflict (e.g. `$inc` starts from 0).
    * @param conflictKey The column name (or array of names) with the UNIQUE constraint.
    * @throws {ZDSLiteValidationError} If required parameters are missing or the document is empty.
    * @returns {Promise<UpsertResult>} A promise that resolves with the upsert result.
    */
-  public async upsert(table: string, doc: Record<string, any>, conflictKey: string | string[]): Promise<UpsertResult> {
+  public async upsert(table: string, doc: UpdateDoc, conflictKey: string | string[]): Promise<UpsertResult> {
     if (!table || !doc || !conflictKey || Object.keys(doc).length === 0) {
       throw new ZDSLiteValidationError('Table, doc, and conflictKey are required for upsert.');
     }
@@ -371,80 +886,232 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
     // SECURE: Validate table name
     this._validateIdentifier(table, 'table name');
 
+    const hook = { table, doc, conflictKey };
+    try {
+      await this._runHooks('beforeUpsert', hook);
+    } catch (error: any) {
+      return this._writeFailed(error);
+    }
+    doc = hook.doc;
+
+    // Validate against the table schema as a new row, before passwords are hashed.
+    const schema = this.schemas.get(table);
+    if (schema) this._checkSchema(table, prepareUpdate(schema, doc, true));
+
     // Process hashing for the upsert document.
     this._processHashing(table, [doc]);
 
-    const keys = Object.keys(doc);
-    // SECURE: Validate all column names in the document
-    keys.forEach(k => this._validateIdentifier(k, 'column name'));
+    // SECURE: Column names and JSON paths in the document are validated by _compileSetColumns.
+    // JSON path keys build a new document on insert and edit the stored one on conflict.
+    const insertColumns = this._compileSetColumns(table, doc, 'insert');
+    const updateColumns = this._compileSetColumns(table, doc, 'excluded');
+    const keys = [...insertColumns.keys()];
 
     const conflictKeys = Array.isArray(conflictKey) ? conflictKey : [conflictKey];
     // SECURE: Validate all conflict key column names
     conflictKeys.forEach(k => this._validateIdentifier(k, 'conflict key'));
 
     const keysSql = keys.map(k => `\`${k}\``).join(', ');
-    const placeholders = keys.map(() => '?').join(', ');
+    const valuesSql = keys.map(k => insertColumns.get(k)!.sql).join(', ');
     const conflictKeysSql = conflictKeys.map(k => `\`${k}\``).join(', ');
 
     // Create the "DO UPDATE" part, excluding conflict keys from being updated to themselves
     const updateKeys = keys.filter(k => !conflictKeys.includes(k));
-    const updateSql = updateKeys.map(k => `\`${k}\` = excluded.\`${k}\``).join(', ');
+    const updateSql = updateKeys.map(k => `\`${k}\` = ${updateColumns.get(k)!.sql}`).join(', ');
 
-    const sql = `INSERT INTO \`${table}\` (${keysSql}) VALUES (${placeholders}) ON CONFLICT(${conflictKeysSql}) DO UPDATE SET ${updateSql}`;
-    const params = Object.values(doc).map(val => (typeof val === 'object' && val !== null) ? JSON.stringify(val) : val);
+    const sql = `INSERT INTO \`${table}\` (${keysSql}) VALUES (${valuesSql}) ON CONFLICT(${conflictKeysSql}) DO UPDATE SET ${updateSql}`;
+    const params = [...keys.flatMap(k => insertColumns.get(k)!.params), ...updateKeys.flatMap(k => updateColumns.get(k)!.params)];
 
-    try { const info = this.run(sql, params); if (info.error) throw info.error; return { acknowledged: true, changes: info.changes, lastInsertRowid: info.lastInsertRowid }; }
+    try {
+      const info = this._execute(sql, params);
+      this._emitAfter('afterUpsert', { table, doc, conflictKey, changes: info.changes, lastInsertRowid: info.lastInsertRowid });
+      return { acknowledged: true, changes: info.changes, lastInsertRowid: info.lastInsertRowid };
+    }
     catch (error: any) {
-      console.error("Upsert query failed:", error, { sql, params });
-      const queryError = new ZDSLiteQueryError('Upsert query failed', { cause: error, sql });
-      if (this.db.inTransaction) throw queryError;
-      return { acknowledged: false, error: queryError };
+      return this._writeFailed(queryError('Upsert query failed', { cause: error, sql }), { params });
+    }
+  }
+  /**
+   * Runs an ordered list of `index`, `create`, `update`, `upsert` and `delete` operations, like Elasticsearch's bulk API.
+   * All operations run in one transaction (or one per `chunkSize` operations), and each in its own savepoint:
+   * a failed operation is rolled back and reported in its item, and the others still run.
+   * @param operations The operations, e.g. `{ index: { _index: 'users', _id: 1, doc: { name: 'Alice' } } }`.
+   * @param options Optional settings.
+   * @param options.chunkSize Commits every this many operations instead of once at the end.
+   * @param options.atomic Rolls back every operation if one fails, and throws the failure.
+   * @returns {Promise<BulkResult>} A promise that resolves with one item per operation, in order.
+   * @throws {ZDSLiteValidationError} If an operation is malformed. No operation runs in that case.
+   */
+  public async bulk(operations: BulkOperation[], options: BulkOptions = {}): Promise<BulkResult> {
+    if (!Array.isArray(operations)) throw new ZDSLiteValidationError('An array of operations is required for bulk.');
+    const { chunkSize, atomic } = options;
+    if (chunkSize !== undefined && (!Number.isInteger(chunkSize) || chunkSize < 1)) throw new ZDSLiteValidationError('"chunkSize" must be a positive integer.');
+    if (atomic && chunkSize !== undefined) throw new ZDSLiteValidationError('"atomic" and "chunkSize" cannot be combined.');
+    const parsed = operations.map((op, i) => this._parseBulkOperation(op, i));
+    const started = Date.now();
+    const items: BulkResult['items'] = [];
+
+    if (atomic) {
+      // Inside a transaction of the caller, a savepoint rolls the operations back without ending it.
+      const nested = this.db.inTransaction;
+      const queued = this.pendingEvents.length;
+      try {
+        if (nested) this._execute('SAVEPOINT zdslite_bulk'); else this._begin();
+        for (const op of parsed) items.push({ [op.action]: await this._runBulkOperation(op.action, op.meta) });
+        if (nested) this._execute('RELEASE zdslite_bulk'); else this._commit();
+      } catch (error) {
+        if (nested) {
+          this._rollback('zdslite_bulk', queued);
+          this._execute('RELEASE zdslite_bulk');
+        } else if (this.db.inTransaction) this._rollback();
+        throw rootError(error);
+      }
+      return { took: Date.now() - started, errors: false, items };
+    }
+
+    // Inside a transaction of the caller, the operations are committed (or rolled back) with it.
+    const ownTransaction = !this.db.inTransaction;
+    const size = chunkSize || parsed.length;
+    try {
+      for (let i = 0; i < parsed.length; i++) {
+        const { action, meta } = parsed[i];
+        if (ownTransaction && i % size === 0) this._begin();
+        const queued = this.pendingEvents.length;
+        this._execute('SAVEPOINT zdslite_bulk');
+        try {
+          items.push({ [action]: await this._runBulkOperation(action, meta) });
+          this._execute('RELEASE zdslite_bulk');
+        } catch (error: any) {
+          this._rollback('zdslite_bulk', queued);
+          this._execute('RELEASE zdslite_bulk');
+          const root = rootError(error);
+          items.push({ [action]: {
+            _index: meta._index,
+            _id: meta._id === undefined ? null : String(meta._id),
+            status: errorStatus(root),
+            error: { type: root.name || 'Error', reason: root.cause?.message ? `${root.message}: ${root.cause.message}` : root.message, code: root.code || 'ZDSLITE_ERROR' },
+          } });
+        }
+        if (ownTransaction && ((i + 1) % size === 0 || i === parsed.length - 1)) this._commit();
+      }
+    } catch (error) {
+      // Chunks that were already committed are kept.
+      if (ownTransaction && this.db.inTransaction) this._rollback();
+      throw error;
+    }
+    return { took: Date.now() - started, errors: items.some(item => Object.values(item)[0]!.error !== undefined), items };
+  }
+
+  // Checks the shape of a bulk operation, so that a malformed batch fails before anything runs.
+  private _parseBulkOperation(op: BulkOperation, i: number): { action: BulkAction; meta: Record<string, any> } {
+    const fail = (message: string) => new ZDSLiteValidationError(`Bulk operation [${i}]: ${message}`);
+    if (typeof op !== 'object' || op === null) throw fail('must be an object.');
+    const keys = Object.keys(op);
+    const action = keys[0] as BulkAction;
+    if (keys.length !== 1 || !ZDSLite.BULK_ACTIONS.includes(action)) throw fail(`must have exactly one action: ${ZDSLite.BULK_ACTIONS.join(', ')}.`);
+    const meta = (op as any)[action];
+    if (typeof meta !== 'object' || meta === null) throw fail(`"${action}" must be an object.`);
+    if (typeof meta._index !== 'string' || !meta._index) throw fail('"_index" is required.');
+    if (meta._id !== undefined && typeof meta._id !== 'string' && typeof meta._id !== 'number') throw fail('"_id" must be a string or a number.');
+    if (action !== 'delete' && (typeof meta.doc !== 'object' || meta.doc === null || Array.isArray(meta.doc))) throw fail(`"doc" is required for "${action}".`);
+    if ((action === 'update' || action === 'delete') && (meta._id === undefined) === (meta.query === undefined)) throw fail(`"${action}" requires either "_id" or "query".`);
+    if (action === 'upsert' && !meta.conflictKey) throw fail('"conflictKey" is required for "upsert".');
+    return { action, meta };
+  }
+
+  // Runs one bulk operation. Failures throw, since bulk operations always run inside a transaction.
+  private async _runBulkOperation(action: BulkAction, meta: Record<string, any>): Promise<BulkItemResult> {
+    const table: string = meta._index;
+    const result = <T extends { acknowledged: boolean }>(r: T) => { if (!r.acknowledged) throw (r as any).error; return r as Extract<T, { acknowledged: true }>; };
+    const pk = action === 'upsert' ? null : this._idColumn(table, meta._id);
+    const key = pk && meta._id !== undefined ? (pk.integer && /^-?\d+$/.test(String(meta._id)) ? Number(meta._id) : meta._id) : undefined;
+    const byId = pk && key !== undefined ? { term: { [pk.column]: key } } : undefined;
+    const id = meta._id === undefined ? null : String(meta._id);
+
+    switch (action) {
+      case 'index': case 'create': {
+        const doc = { ...meta.doc };
+        if (byId) {
+          doc[pk!.column] = key;
+          if (action === 'index' && (await this.count(table, { query: byId })) > 0) {
+            const { [pk!.column]: _, ...fields } = doc;
+            result(await this.update(table, fields, byId));
+            return { _index: table, _id: id, status: 200, result: 'updated' };
+          }
+        }
+        const inserted = result(await this.insert(table, doc));
+        // The insert fills in generated UUID primary keys; integer keys come from the rowid.
+        const newId = pk ? doc[pk.column] ?? (pk.integer ? inserted.lastInsertRowid : null) : null;
+        return { _index: table, _id: newId === null || newId === undefined ? null : String(newId), status: 201, result: 'created' };
+      }
+      case 'update': {
+        const { updatedCount } = result(await this.update(table, meta.doc, byId || meta.query));
+        if (byId && updatedCount === 0) throw new ZDSLiteNotFoundError(`Document '${id}' does not exist in table '${table}'.`);
+        return byId
+          ? { _index: table, _id: id, status: 200, result: 'updated' }
+          : { _index: table, _id: null, status: 200, result: updatedCount > 0 ? 'updated' : 'noop', count: updatedCount };
+      }
+      case 'upsert': {
+        // Whether the row existed is checked first, to report `created` or `updated`.
+        const keys: string[] = Array.isArray(meta.conflictKey) ? meta.conflictKey : [meta.conflictKey];
+        const values = keys.map(k => meta.doc[k]);
+        const existed = values.every(v => v !== null && ['string', 'number', 'boolean'].includes(typeof v))
+          && (await this.count(table, { query: { bool: { filter: keys.map((k, i) => ({ term: { [k]: values[i] } })) } } })) > 0;
+        result(await this.upsert(table, meta.doc, meta.conflictKey));
+        return { _index: table, _id: null, status: existed ? 200 : 201, result: existed ? 'updated' : 'created' };
+      }
+      case 'delete': {
+        const { deletedCount } = result(await this.delete(table, { query: byId || meta.query }));
+        return byId
+          ? { _index: table, _id: id, status: deletedCount > 0 ? 200 : 404, result: deletedCount > 0 ? 'deleted' : 'not_found' }
+          : { _index: table, _id: null, status: 200, result: deletedCount > 0 ? 'deleted' : 'noop', count: deletedCount };
+      }
     }
   }
+
+  // Resolves the column that `_id` refers to: the table's PRIMARY KEY, or `rowid` if it has none.
+  // A composite key has no such column, which is only an error when an `_id` is given.
+  private _idColumn(table: string, id: unknown): { column: string; integer: boolean } | null {
+    this._validateIdentifier(table, 'table name');
+    const info = this.db.prepare(`PRAGMA table_info(\`${table}\`)`).all() as { name: string; type: string; pk: number }[];
+    if (info.length === 0) throw new ZDSLiteNotFoundError(`Table '${table}' does not exist.`);
+    const keys = info.filter(c => c.pk > 0);
+    if (keys.length > 1 && id === undefined) return null;
+    if (keys.length > 1) throw new ZDSLiteValidationError(`Table '${table}' has a composite primary key; documents cannot be addressed by a single id.`);
+    if (keys.length === 0) return { column: 'rowid', integer: true };
+    return { column: keys[0].name, integer: /INT/i.test(keys[0].type) };
+  }
+
   // --- Query Methods ---
 
   /**
    * Performs an aggregation query (SQL GROUP BY).
+   * With `aggs.buckets`, computes Elasticsearch-style bucket aggregations (terms, histogram, date_histogram, range)
+   * with nested sub-aggregations and resolves with a bucket tree instead of rows.
    * @param table The name of the table to aggregate.
    * @param dslQuery A DSL query object containing an `aggs` block.
    * @throws {ZDSLiteValidationError} If the table or `aggs` block is missing or invalid.
-   * @returns {Promise<any[]>} A promise that resolves with an array of aggregated results.
+   * @returns {Promise<any[]>} A promise that resolves with an array of aggregated results, or a `BucketAggregationResult` for bucket aggregations.
    */
-  public async aggregate(table: string, dslQuery: DslQuery): Promise<any[]> {
+  public async aggregate(table: string, dslQuery: DslQuery & { aggs: { buckets: {} } }): Promise<BucketAggregationResult>;
+  public async aggregate(table: string, dslQuery: DslQuery): Promise<any[]>;
+  public async aggregate(table: string, dslQuery: DslQuery): Promise<any[] | BucketAggregationResult> {
     if (!table || !dslQuery.aggs) throw new ZDSLiteValidationError('Table and `aggs` block are required.');
+    if (dslQuery.aggs.buckets) return this._aggregateBuckets(table, dslQuery);
     
-    // SECURE: Validate the table name.
-    this._validateIdentifier(table, 'table name');
-    
-    // SECURE: Join target, query fields, group_by fields, metrics, and sort fields
-    // are all validated by their respective internal parsers (e.g., _parseJoin, _quoteField).
-    const aggs = dslQuery.aggs; const joinSql = this._parseJoin(dslQuery.join);
-    let where: SqlResult = { sql: '1=1', params: [] }; if (dslQuery.query) where = this._parseQuery(dslQuery.query);
-    const selectParts: string[] = []; let groupBySql = '';
-    if (aggs.group_by && Array.isArray(aggs.group_by)) {
-      const groupFields = aggs.group_by.map(f => this._quoteField(f));
-      groupBySql = 'GROUP BY ' + groupFields.join(', '); selectParts.push(...groupFields);
-    }
-    const supportedOps = ['sum', 'avg', 'count', 'min', 'max'];
-    if (aggs.metrics) {
-      for (const [metricName, operation] of Object.entries(aggs.metrics)) {
-        this._validateIdentifier(metricName, 'metric alias'); // Validate the metric alias.
-        const opKey = Object.keys(operation)[0];
-        const field = (operation as any)[opKey];
-        if (supportedOps.includes(opKey)) {
-          const fieldSql = (field === '*') ? '*' : this._quoteField(field);
-          selectParts.push(`${opKey.toUpperCase()}(${fieldSql}) as \`${metricName}\``);
+    const compiled = this._compileAggregate(table, dslQuery);
+    try {
+      const rows = this.db.prepare(compiled.sql).all(compiled.params) as any[];
+      return rows.map(row => {
+        // top_hits are fetched per group, using the hidden `_group_<n>` columns to select the group's documents.
+        const filter: SqlResult = { sql: compiled.groupFields.map(f => `${f} IS ?`).join(' AND ') || '1=1', params: [] };
+        if (compiled.metrics.topHits.length > 0) {
+          compiled.groupFields.forEach((_, i) => { filter.params.push(row[`_group_${i}`]); delete row[`_group_${i}`]; });
         }
-      }
+        return this._finishMetrics(row, compiled.metrics, compiled.from, compiled.where, filter);
+      });
     }
-    if (selectParts.length === 0) throw new ZDSLiteValidationError('Aggregation must define "group_by" or "metrics".');
-    let orderBy = ''; if (dslQuery.sort) orderBy = this._parseSort(dslQuery.sort);
-    let limitSql = ''; let limitParams: SqlValue[] = []; if (dslQuery.size) { limitSql = 'LIMIT ?'; limitParams.push(dslQuery.size); }
-    const selectSql = selectParts.join(', ');
-    const finalSql = `SELECT ${selectSql} FROM \`${table}\` ${joinSql} WHERE ${where.sql} ${groupBySql} ${orderBy} ${limitSql}`; // Values are parameterized (safe).
-    const allParams = [...where.params, ...limitParams];
-    try { const stmt = this.db.prepare(finalSql); return stmt.all(allParams); }
-    catch (error: any) { console.error(`Aggregation query failed: ${error.message}`, { finalSql, allParams }); return []; }
+    catch (error: any) { return this._readFailed(queryError('Aggregation query failed', { cause: error, sql: compiled.sql }), [], compiled.params); }
   }
 
   /**
@@ -457,65 +1124,1055 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
   public async search(table: string, dslQuery: DslQuery): Promise<any[]> {
     if (!table) throw new ZDSLiteValidationError('Table name is required for search.');
     
-    // SECURE: Validate the table name.
-    this._validateIdentifier(table, 'table name');
-    
     // SECURE: All parts of the dslQuery are validated by internal parsers.
-    const joinSql = this._parseJoin(dslQuery.join); 
-    const selectSql = this._parseSource(dslQuery._source, '*');
-    let where: SqlResult = { sql: '1=1', params: [] }; if (dslQuery.query) where = this._parseQuery(dslQuery.query);
-    let orderBy = ''; if (dslQuery.sort) orderBy = this._parseSort(dslQuery.sort);
-    const limitSql = 'LIMIT ?'; const limitParams = [dslQuery.size || 10]; const offsetSql = 'OFFSET ?'; const offsetParams = [dslQuery.from || 0];
-    const finalSql = `SELECT ${selectSql} FROM \`${table}\` ${joinSql} WHERE ${where.sql} ${orderBy} ${limitSql} ${offsetSql}`;
-    const allParams = [ ...where.params, ...limitParams, ...offsetParams ]; // Values are parameterized (safe).
-    try { const stmt = this.db.prepare(finalSql); return stmt.all(allParams); }
-    catch (error: any) { console.error(`Search query failed: ${error.message}`, { finalSql, allParams }); return []; }
+    const compiled = this._compileSearch(table, dslQuery);
+    try {
+      const stmt = this.db.prepare(compiled.sql); const rows = stmt.all(compiled.params);
+      return rows.map(row => this._formatHit(row, compiled));
+    }
+    catch (error: any) { return this._readFailed(queryError('Search query failed', { cause: error, sql: compiled.sql }), [], compiled.params); }
   }
 
-  // --- Transaction Methods (Inherently safe) ---
-
   /**
-   * Executes a series of database operations within a transaction.
-   * If the callback function throws an error, the transaction is automatically rolled back.
-   * @param callback An async function that receives the transaction-bound ZDSLite instance.
-   * @returns {Promise<TxResult>} A promise that resolves if the transaction is committed.
-   * @throws {ZDSLiteQueryError} If the transaction fails and is rolled back.
+   * Searches for documents and returns them in a response envelope with the total hit count and a pagination cursor.
+   * Pass `next_cursor` back as `search_after` to fetch the next page using keyset pagination, which stays fast
+   * for deep pages. Sorting is made stable by appending the table's rowid as a final tiebreaker.
+   * @param table The name of the table to search.
+   * @param dslQuery A DSL query object. Honors `track_total_hits` (default: true) and `search_after`.
+   * @throws {ZDSLiteValidationError} If the table name is not provided or the cursor is invalid.
+   * @returns {Promise<SearchHitsResult>} A promise that resolves with `{ hits, total, next_cursor }`.
    */
-  public async transaction(callback: (tx: ZDSLite) => Promise<void>): Promise<TxResult> {
-    try { this.run('BEGIN'); await callback(this); this.run('COMMIT'); return { acknowledged: true, committed: true }; }
-    catch (error: any) {
-      this.run('ROLLBACK');
-      console.error("Transaction failed:", error.message);
-      throw new ZDSLiteQueryError('Transaction failed and was rolled back', { cause: error });
+  public async searchHits(table: string, dslQuery: DslQuery): Promise<SearchHitsResult> {
+    if (!table) throw new ZDSLiteValidationError('Table name is required for searchHits.');
+
+    // SECURE: All parts of the dslQuery are validated by internal parsers.
+    const compiled = this._compileSearch(table, dslQuery, true);
+    const size = dslQuery.size || 10;
+    try {
+      const rows = this.db.prepare(compiled.sql).all(compiled.params) as any[];
+      const last = rows[rows.length - 1];
+      // A full page means there may be more results; cursors cannot be built from `_score` (it is not filterable).
+      const canPage = rows.length === size && !compiled.sortKeys.some(k => k.isScore);
+      const next_cursor = canPage ? this._encodeCursor(compiled.sortKeys.map((_, i) => last[`_sort_${i}`])) : null;
+      const total = this._countHits(compiled.countFrom, dslQuery.track_total_hits);
+      return { hits: rows.map(row => this._formatHit(row, compiled)), total, next_cursor };
     }
+    catch (error: any) { return this._readFailed(queryError('Search query failed', { cause: error, sql: compiled.sql }), { hits: [], total: null, next_cursor: null }, compiled.params); }
   }
+
   /**
-   * Manually begins a transaction.
-   * @returns {Promise<ManualTxResult>} A promise that resolves on success.
-   */
-  public async beginTransaction(): Promise<ManualTxResult> { try { this.run('BEGIN'); return { acknowledged: true }; } catch (error: any) { return { acknowledged: false, error: new ZDSLiteQueryError('BEGIN transaction failed', { cause: error }) }; } }
-  /**
-   * Manually commits the current transaction.
-   * @returns {Promise<ManualTxResult>} A promise that resolves on success.
+   * Streams the documents matching a DSL query, without loading them all into memory.
+   * Unlike `search()`, all matching rows are returned unless `size` is given.
+   * Rows are read in batches with keyset pagination (like `searchHits()` cursors), so no statement is left open
+   * between rows and the connection can still read and write while the stream is consumed. Rows written meanwhile
+   * are returned if they sort after the current position. When sorting by `_score`, batches are read by offset instead.
+   * @param table The name of the table to search.
+   * @param dslQuery A DSL query object.
+   * @throws {ZDSLiteValidationError} If the table name is not provided or the DSL is invalid.
+   * @throws {ZDSLiteQueryError} If reading a batch fails, in every `errorMode`.
+   * @returns {AsyncGenerator<any>} An async iterator over the matching documents.
    */
-  public async commit(): Promise<ManualTxResult> { try { this.run('COMMIT'); return { acknowledged: true }; } catch (error: any) { return { acknowledged: false, error: new ZDSLiteQueryError('COMMIT transaction failed', { cause: error }) }; } }
+  public async *searchStream(table: string, dslQuery: DslQuery = {}): AsyncGenerator<any, void, undefined> {
+    if (!table) throw new ZDSLiteValidationError('Table name is required for searchStream.');
+
+    let remaining = dslQuery.size ?? Infinity;
+    let from = dslQuery.from || 0;
+    let searchAfter = dslQuery.search_after;
+    while (remaining > 0) {
+      const size = Math.min(ZDSLite.STREAM_BATCH_SIZE, remaining);
+      // SECURE: All parts of the dslQuery are validated by internal parsers.
+      const compiled = this._compileSearch(table, { ...dslQuery, size, from, search_after: searchAfter }, true);
+      let rows: any[];
+      // A stream has no empty result to fall back to, so a failed batch always throws, whatever the errorMode.
+      try { rows = this.db.prepare(compiled.sql).all(compiled.params); }
+      catch (error: any) { throw queryError('Search query failed', { cause: error, sql: compiled.sql }); }
+      for (const row of rows) yield this._formatHit(row, compiled);
+      if (rows.length < size) return;
+      remaining -= rows.length;
+      // `_score` cannot be filtered on, so relevance-ranked streams page by offset.
+      if (compiled.sortKeys.some(k => k.isScore)) from += rows.length;
+      else searchAfter = compiled.sortKeys.map((_, i) => rows[rows.length - 1][`_sort_${i}`]);
+    }
+  }
+
   /**
-   * Manually rolls back the current transaction.
-   * @returns {Promise<ManualTxResult>} A promise that resolves on success.
+   * Counts the documents matching a DSL query. Pagination and sorting are ignored.
+   * @param table The name of the table.
+   * @param dslQuery A DSL query object (`query` and `join` are used).
+   * @throws {ZDSLiteValidationError} If the table name is not provided.
+   * @returns {Promise<number>} A promise that resolves with the number of matching documents.
    */
-  public async rollback(): Promise<ManualTxResult> { try { this.run('ROLLBACK'); return { acknowledged: true }; } catch (error: any) { return { acknowledged: false, error: new ZDSLiteQueryError('ROLLBACK transaction failed', { cause: error }) }; } }
+  public async count(table: string, dslQuery: DslQuery = {}): Promise<number> {
+    if (!table) throw new ZDSLiteValidationError('Table name is required for count.');
 
+    // SECURE: All parts of the dslQuery are validated by internal parsers.
+    const { countFrom } = this._compileSearch(table, { query: dslQuery.query, join: dslQuery.join });
+    try { return this._countHits(countFrom, true)!.value; }
+    catch (error: any) { return this._readFailed(queryError('Count query failed', { cause: error, sql: countFrom.sql }), 0, countFrom.params); }
+  }
 
-  // --- Internal DSL Parsers ---
+  // --- Debugging Methods ---
 
   /**
-   * Hashes a password using scrypt.
-   * @param password The plain-text password.
-   * @returns The salt and hash in the format "salt:hash".
+   * Compiles a DSL query into SQL without executing it.
+   * @param table The name of the table.
+   * @param dslQuery A DSL query object.
+   * @param options Optional settings.
+   * @param options.method The method to compile for: 'search' (default), 'searchHits' or 'aggregate'.
+   * @returns {SqlResult} The compiled SQL and its bound parameters.
+   * @throws {ZDSLiteValidationError} If the table, method or DSL is invalid.
    */
-  private _hashPassword(password: string): string {
-    const salt = randomBytes(ZDSLite.HASH_SALT_LENGTH).toString('hex');
-    // Scrypt is a CPU and memory-intensive hashing function, which is good for passwords.
+  public compile(table: string, dslQuery: DslQuery, options: { method?: CompileMethod } = {}): SqlResult {
+    if (!table || !dslQuery) throw new ZDSLiteValidationError('Table and dslQuery are required for compile.');
+    const method = options.method || 'search';
+    if (method === 'aggregate') {
+      if (!dslQuery.aggs) throw new ZDSLiteValidationError('Table and `aggs` block are required.');
+      if (dslQuery.aggs.buckets) throw new ZDSLiteValidationError('Bucket aggregations run one query per level and cannot be compiled to a single statement.');
+      const { sql, params } = this._compileAggregate(table, dslQuery);
+      return { sql, params };
+    }
+    if (method !== 'search' && method !== 'searchHits') throw new ZDSLiteValidationError(`Cannot compile method: ${method}`);
+    const { sql, params } = this._compileSearch(table, dslQuery, method === 'searchHits');
+    return { sql, params };
+  }
+
+  /**
+   * Compiles a DSL query and returns SQLite's query plan for it, without returning any rows.
+   * Plan steps that scan a whole table without an index are flagged, and the scanned tables are listed in `fullScans`.
+   * @param table The name of the table.
+   * @param dslQuery A DSL query object.
+   * @param options Optional settings.
+   * @param options.method The method to explain: 'search' (default), 'searchHits' or 'aggregate'.
+   * @returns {Promise<ExplainResult>} A promise that resolves with the SQL, parameters and query plan.
+   * @throws {ZDSLiteValidationError} If the table, method or DSL is invalid.
+   * @throws {ZDSLiteQueryError} If SQLite cannot prepare the compiled statement.
+   */
+  public async explain(table: string, dslQuery: DslQuery, options: { method?: CompileMethod } = {}): Promise<ExplainResult> {
+    const { sql, params } = this.compile(table, dslQuery, options);
+    let rows: { id: number; parent: number; detail: string }[];
+    try {
+      rows = this.db.prepare(`EXPLAIN QUERY PLAN ${sql}`).all(params) as { id: number; parent: number; detail: string }[];
+    } catch (error: any) {
+      throw queryError('Explain query failed', { cause: error, sql });
+    }
+    const plan: QueryPlanStep[] = rows.map(r => {
+      // "SCAN <table>" without an index is a full table scan; index and virtual table scans are not.
+      const scan = r.detail.match(/^SCAN (\w+)/);
+      const fullScan = !!scan && !/\bUSING (COVERING )?INDEX\b|\bVIRTUAL TABLE\b/.test(r.detail);
+      return { id: r.id, parent: r.parent, detail: r.detail, fullScan };
+    });
+    const fullScans = [...new Set(plan.filter(p => p.fullScan).map(p => p.detail.match(/^SCAN (\w+)/)![1]))];
+    return { sql, params, plan, fullScans };
+  }
+
+  // --- Transaction Methods (Inherently safe) ---
+
+  /**
+   * Executes a series of database operations within a transaction.
+   * If the callback function throws an error, the transaction is automatically rolled back.
+   * @param callback An async function that receives the transaction-bound ZDSLite instance.
+   * @returns {Promise<TxResult>} A promise that resolves if the transaction is committed.
+   * @throws {ZDSLiteQueryError} If the transaction fails and is rolled back.
+   */
+  public async transaction(callback: (tx: ZDSLite) => Promise<void>): Promise<TxResult> {
+    try { this._begin(); await callback(this); this._commit(); return { acknowledged: true, committed: true }; }
+    catch (error: any) {
+      if (this.db.inTransaction) this._rollback();
+      if (this.errorMode === 'result') console.error("Transaction failed:", error.message);
+      throw queryError('Transaction failed and was rolled back', { cause: error });
+    }
+  }
+
+  // Begins a transaction. Transactions are begun, committed and rolled back through these methods, which keep the
+  // queue of `after*` events in step; transaction control SQL sent with run() is not tracked.
+  private _begin(): void {
+    this._execute('BEGIN');
+    this.pendingEvents = [];
+  }
+
+  // Commits the transaction and emits the `after*` events of its writes.
+  private _commit(): void {
+    this._execute('COMMIT');
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    events.forEach(({ name, event }) => this._emit(name, event));
+  }
+
+  // Rolls back the transaction, or to a savepoint along with the events queued since it began (`queued` is the queue
+  // length at that point). DDL calls update the in-memory catalog before they are committed, so it is reloaded
+  // from the (rolled back) metadata table.
+  private _rollback(savepoint?: string, queued = 0): void {
+    try {
+      this._execute(savepoint ? `ROLLBACK TO ${savepoint}` : 'ROLLBACK');
+    } finally {
+      this.pendingEvents.length = savepoint ? Math.min(queued, this.pendingEvents.length) : 0;
+      this._loadMetadata();
+      this.apiKeyTableReady = false;
+    }
+  }
+
+  /**
+   * Manually begins a transaction.
+   * @returns {Promise<ManualTxResult>} A promise that resolves on success.
+   */
+  public async beginTransaction(): Promise<ManualTxResult> { try { this._begin(); return { acknowledged: true }; } catch (error: any) { return this._writeFailed(queryError('BEGIN transaction failed', { cause: error })); } }
+  /**
+   * Manually commits the current transaction.
+   * @returns {Promise<ManualTxResult>} A promise that resolves on success.
+   */
+  public async commit(): Promise<ManualTxResult> { try { this._commit(); return { acknowledged: true }; } catch (error: any) { return this._writeFailed(queryError('COMMIT transaction failed', { cause: error })); } }
+  /**
+   * Manually rolls back the current transaction.
+   * @returns {Promise<ManualTxResult>} A promise that resolves on success.
+   */
+  public async rollback(): Promise<ManualTxResult> { try { this._rollback(); return { acknowledged: true }; } catch (error: any) { return this._writeFailed(queryError('ROLLBACK transaction failed', { cause: error })); } }
+
+
+  // --- Schema Migrations ---
+
+  /**
+   * Applies or rolls back versioned schema migrations.
+   * Each migration runs in its own transaction together with its bookkeeping record, so a failing migration leaves
+   * the database at the previous version. Before doing anything, applied migrations are checked against their
+   * recorded checksums and a drift aborts the run.
+   * @param migrations The migration definitions (see `loadMigrations` to read them from a directory).
+   * @param options Optional settings.
+   * @param options.direction 'up' (default) applies pending migrations, 'down' rolls back applied ones.
+   * @param options.to The target version.
+   * @param options.steps The maximum number of migrations to apply or roll back (default: all for 'up', 1 for 'down').
+   * @returns {Promise<MigrateResult>} A promise that resolves with the versions that were applied or rolled back, in order.
+   * @throws {ZDSLiteValidationError} If the migration definitions are invalid.
+   * @throws {ZDSLiteMigrationError} If a migration drifted, has no 'down' step, or fails to run.
+   */
+  public async migrate(migrations: Migration[], options: MigrateOptions = {}): Promise<MigrateResult> {
+    const direction = options.direction || 'up';
+    if (direction !== 'up' && direction !== 'down') throw new ZDSLiteValidationError(`Invalid migration direction: ${direction}`);
+    const sorted = this._sortMigrations(migrations);
+    const applied = this._appliedMigrations();
+
+    for (const m of sorted) {
+      const record = applied.get(String(m.version));
+      if (record && record.checksum !== migrationChecksum(m)) {
+        throw new ZDSLiteMigrationError(`Migration ${m.version} (${m.name}) has changed since it was applied.`, { version: String(m.version) });
+      }
+    }
+
+    const to = options.to !== undefined ? String(options.to) : undefined;
+    let plan: Migration[];
+    if (direction === 'up') {
+      plan = sorted.filter(m => !applied.has(String(m.version)) && (to === undefined || compareVersions(String(m.version), to) <= 0));
+      if (options.steps !== undefined) plan = plan.slice(0, options.steps);
+    } else {
+      plan = sorted.filter(m => applied.has(String(m.version)) && (to === undefined || compareVersions(String(m.version), to) > 0)).reverse();
+      plan = plan.slice(0, options.steps !== undefined ? options.steps : (to === undefined ? 1 : plan.length));
+    }
+
+    const done: string[] = [];
+    for (const m of plan) {
+      const version = String(m.version);
+      const step = direction === 'up' ? m.up : m.down;
+      if (step === undefined) throw new ZDSLiteMigrationError(`Migration ${version} (${m.name}) has no 'down' step.`, { version });
+      try {
+        this._begin();
+        await this._runMigrationStep(step);
+        if (direction === 'up') {
+          this.db.prepare(`INSERT INTO \`${ZDSLite.MIGRATIONS_TABLE}\` (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)`)
+            .run(version, m.name, migrationChecksum(m), new Date().toISOString());
+        } else {
+          this.db.prepare(`DELETE FROM \`${ZDSLite.MIGRATIONS_TABLE}\` WHERE version = ?`).run(version);
+        }
+        this._commit();
+      } catch (error: any) {
+        if (this.db.inTransaction) this._rollback();
+        if (this.errorMode === 'result') console.error(`Migration ${version} failed:`, error.message);
+        throw new ZDSLiteMigrationError(`Migration ${version} (${m.name}) failed and was rolled back`, { cause: error, version });
+      }
+      done.push(version);
+    }
+    return { acknowledged: true, direction, migrations: done };
+  }
+
+  /**
+   * Reports the state of each migration: applied, pending, drifted (changed after being applied),
+   * or missing (recorded as applied but no longer defined).
+   * @param migrations The migration definitions.
+   * @returns {Promise<MigrationStatus[]>} A promise that resolves with one entry per version, sorted by version.
+   */
+  public async migrationStatus(migrations: Migration[]): Promise<MigrationStatus[]> {
+    const sorted = this._sortMigrations(migrations);
+    const applied = this._appliedMigrations();
+    const status: MigrationStatus[] = sorted.map(m => {
+      const record = applied.get(String(m.version));
+      let state: MigrationStatus['state'] = 'pending';
+      if (record) state = record.checksum === migrationChecksum(m) ? 'applied' : 'drifted';
+      return { version: String(m.version), name: m.name, state, appliedAt: record ? record.applied_at : null };
+    });
+    const defined = new Set(sorted.map(m => String(m.version)));
+    applied.forEach((record, version) => {
+      if (!defined.has(version)) status.push({ version, name: record.name, state: 'missing', appliedAt: record.applied_at });
+    });
+    return status.sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  private _sortMigrations(migrations: Migration[]): Migration[] {
+    if (!Array.isArray(migrations)) throw new ZDSLiteValidationError('Migrations must be an array.');
+    const seen = new Set<string>();
+    migrations.forEach(m => {
+      if (!m || m.version === undefined || m.version === null || !m.name || m.up === undefined) {
+        throw new ZDSLiteValidationError('Each migration requires a version, a name, and an up step.');
+      }
+      if (seen.has(String(m.version))) throw new ZDSLiteValidationError(`Duplicate migration version: ${m.version}`);
+      seen.add(String(m.version));
+    });
+    return [...migrations].sort((a, b) => compareVersions(String(a.version), String(b.version)));
+  }
+
+  private _appliedMigrations(): Map<string, { name: string; checksum: string; applied_at: string }> {
+    this.db.exec(`CREATE TABLE IF NOT EXISTS \`${ZDSLite.MIGRATIONS_TABLE}\` (
+      version TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`);
+    const rows = this.db.prepare(`SELECT version, name, checksum, applied_at FROM \`${ZDSLite.MIGRATIONS_TABLE}\``).all() as { version: string; name: string; checksum: string; applied_at: string }[];
+    return new Map(rows.map(r => [r.version, r]));
+  }
+
+  private async _runMigrationStep(step: MigrationStep): Promise<void> {
+    // Raw SQL may contain several statements, so it is executed with exec() rather than run().
+    if (typeof step === 'string') this.db.exec(step);
+    else await step(this);
+  }
+
+  // --- API Keys ---
+
+  /**
+   * Creates an API key for the API server. The key is stored as a scrypt hash, like HASHED columns,
+   * so it is only returned by this call.
+   * @param name A label for the key, e.g. the client that uses it.
+   * @param permissions The role of the key on each table (`'*'` for tables that are not listed), and the tables
+   * that cannot be read with `_source: ['*']`.
+   * @returns {Promise<ApiKeyResult>} A promise that resolves with the key id and the key (`zdsl_<id>.<secret>`).
+   * @throws {ZDSLiteValidationError} If the name or permissions are invalid.
+   */
+  public async createApiKey(name: string, permissions: ApiKeyPermissions): Promise<ApiKeyResult> {
+    if (!name || typeof name !== 'string') throw new ZDSLiteValidationError('A name is required for createApiKey.');
+    this._validateApiKeyPermissions(permissions);
+    const id = randomBytes(6).toString('hex');
+    const secret = randomBytes(24).toString('base64url');
+    try {
+      this._ensureApiKeyTable();
+      this.db.prepare(`INSERT INTO \`${ZDSLite.API_KEYS_TABLE}\` (id, name, hash, permissions, created_at) VALUES (?, ?, ?, ?, ?)`)
+        .run(id, name, this._hashPassword(secret), JSON.stringify(permissions), new Date().toISOString());
+      return { acknowledged: true, id, name, key: `zdsl_${id}.${secret}`, permissions };
+    } catch (error: any) {
+      return this._writeFailed(queryError('Create API key failed', { cause: error }));
+    }
+  }
+
+  /**
+   * Lists the API keys, including revoked ones. Keys themselves are never returned.
+   * @returns {Promise<ApiKeyInfo[]>} A promise that resolves with the keys, oldest first.
+   */
+  public async listApiKeys(): Promise<ApiKeyInfo[]> {
+    this._ensureApiKeyTable();
+    const rows = this.db.prepare(`SELECT id, name, permissions, created_at, revoked_at FROM \`${ZDSLite.API_KEYS_TABLE}\` ORDER BY created_at, id`).all() as { id: string; name: string; permissions: string; created_at: string; revoked_at: string | null }[];
+    return rows.map(r => this._apiKeyInfo(r));
+  }
+
+  /**
+   * Tells whether any API key is active, i.e. whether the API server requires one. Unlike `listApiKeys()`,
+   * this is a single indexed lookup, cheap enough to run on every request.
+   * @returns {Promise<boolean>} A promise that resolves with true if at least one key is not revoked.
+   */
+  public async hasActiveApiKeys(): Promise<boolean> {
+    this._ensureApiKeyTable();
+    return (this.db.prepare(`SELECT EXISTS (SELECT 1 FROM \`${ZDSLite.API_KEYS_TABLE}\` WHERE revoked_at IS NULL) AS active`).get() as { active: number }).active === 1;
+  }
+
+  /**
+   * Revokes an API key. Revoked keys are kept in the list, but no longer authenticate.
+   * @param id The id of the key (the part after `zdsl_` and before the dot).
+   * @returns {Promise<RevokeApiKeyResult>} A promise that resolves with `revoked: false` if there is no active key with this id.
+   * @throws {ZDSLiteValidationError} If the id is not provided.
+   */
+  public async revokeApiKey(id: string): Promise<RevokeApiKeyResult> {
+    if (!id) throw new ZDSLiteValidationError('An id is required for revokeApiKey.');
+    try {
+      this._ensureApiKeyTable();
+      const info = this.db.prepare(`UPDATE \`${ZDSLite.API_KEYS_TABLE}\` SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`).run(new Date().toISOString(), id);
+      return { acknowledged: true, id, revoked: info.changes > 0 };
+    } catch (error: any) {
+      return this._writeFailed(queryError('Revoke API key failed', { cause: error }));
+    }
+  }
+
+  /**
+   * Checks an API key. Revocations are seen immediately, even when made by another connection.
+   * @param key The key, as returned by `createApiKey()`.
+   * @returns {Promise<ApiKeyInfo | null>} A promise that resolves with the key's details, or null if it is unknown, wrong or revoked.
+   */
+  public async verifyApiKey(key: string): Promise<ApiKeyInfo | null> {
+    const match = typeof key === 'string' ? key.match(ZDSLite.API_KEY_REGEX) : null;
+    if (!match) return null;
+    this._ensureApiKeyTable();
+    const row = this.db.prepare(`SELECT id, name, hash, permissions, created_at, revoked_at FROM \`${ZDSLite.API_KEYS_TABLE}\` WHERE id = ?`).get(match[1]) as { id: string; name: string; hash: string; permissions: string; created_at: string; revoked_at: string | null } | undefined;
+    if (!row || row.revoked_at) return null;
+    const digest = createHash('sha256').update(match[2]).digest('hex');
+    if (this.verifiedApiKeys.get(row.hash) !== digest) {
+      if (!this.verifyPassword(match[2], row.hash)) return null;
+      this.verifiedApiKeys.set(row.hash, digest);
+    }
+    return this._apiKeyInfo(row);
+  }
+
+  private _ensureApiKeyTable(): void {
+    if (this.apiKeyTableReady) return;
+    this.db.exec(`CREATE TABLE IF NOT EXISTS \`${ZDSLite.API_KEYS_TABLE}\` (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      hash TEXT NOT NULL,
+      permissions TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      revoked_at TEXT
+    )`);
+    this.apiKeyTableReady = true;
+  }
+
+  private _apiKeyInfo(row: { id: string; name: string; permissions: string; created_at: string; revoked_at: string | null }): ApiKeyInfo {
+    return { id: row.id, name: row.name, permissions: JSON.parse(row.permissions), createdAt: row.created_at, revokedAt: row.revoked_at };
+  }
+
+  private _validateApiKeyPermissions(permissions: ApiKeyPermissions): void {
+    if (!permissions || typeof permissions.tables !== 'object' || permissions.tables === null) {
+      throw new ZDSLiteValidationError('API key permissions require a "tables" object, e.g. { tables: { "*": "read" } }.');
+    }
+    for (const [table, role] of Object.entries(permissions.tables)) {
+      if (table !== '*') this._validateIdentifier(table, 'table name');
+      if (!ZDSLite.API_KEY_ROLES.includes(role)) throw new ZDSLiteValidationError(`Invalid role for table '${table}': ${role}. Expected 'read', 'write' or 'admin'.`);
+    }
+    if (permissions.explicitSource !== undefined) {
+      if (!Array.isArray(permissions.explicitSource)) throw new ZDSLiteValidationError('"explicitSource" must be an array of table names.');
+      permissions.explicitSource.forEach(t => { if (t !== 'HASHED') this._validateIdentifier(t, 'table name'); });
+    }
+  }
+
+  // --- Internal SQL Functions ---
+
+  /**
+   * Registers the SQL functions used by the DSL on this connection: aggregates for the richer aggregation metrics,
+   * REGEXP and edit distance for the regexp and fuzzy queries, haversine distance for the geo queries, and
+   * time-zone-aware date bucketing.
+   * Percentiles are exact, interpolating linearly between the closest ranks. Variance is the population variance.
+   */
+  private _registerFunctions(): void {
+    const percentile = (sorted: number[], p: number): number | null => {
+      if (sorted.length === 0) return null;
+      const rank = (p / 100) * (sorted.length - 1);
+      const lower = Math.floor(rank);
+      const upper = Math.ceil(rank);
+      return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+    };
+    const collect = (values: number[], value: any) => { if (typeof value === 'number') values.push(value); return values; };
+
+    this.db.aggregate<{ values: number[]; p: number }>('zdslite_percentile', {
+      start: () => ({ values: [] as number[], p: 50 }),
+      // (The typings only declare one argument per step; SQLite passes every argument.)
+      step: ((state: { values: number[]; p: number }, value: any, p: number) => { collect(state.values, value); state.p = p; return state; }) as any,
+      result: (state: { values: number[]; p: number }) => percentile(state.values.sort((a, b) => a - b), state.p),
+    });
+    // Returns a JSON object keyed like Elasticsearch, e.g. {"50.0": 42}.
+    this.db.aggregate<{ values: number[]; percents: string }>('zdslite_percentiles', {
+      start: () => ({ values: [] as number[], percents: '[]' }),
+      step: ((state: { values: number[]; percents: string }, value: any, percents: string) => { collect(state.values, value); state.percents = percents; return state; }) as any,
+      result: (state: { values: number[]; percents: string }) => {
+        const sorted = state.values.sort((a, b) => a - b);
+        const result: Record<string, number | null> = {};
+        for (const p of JSON.parse(state.percents) as number[]) result[Number.isInteger(p) ? p.toFixed(1) : String(p)] = percentile(sorted, p);
+        return JSON.stringify(result);
+      },
+    });
+    // Welford's online algorithm keeps the variance numerically stable.
+    const variance = { start: () => ({ n: 0, mean: 0, m2: 0 }), step: (state: { n: number; mean: number; m2: number }, value: any) => {
+      if (typeof value !== 'number') return state;
+      state.n++; const delta = value - state.mean; state.mean += delta / state.n; state.m2 += delta * (value - state.mean);
+      return state;
+    } };
+    this.db.aggregate('zdslite_variance', { ...variance, result: (state: { n: number; m2: number }) => state.n === 0 ? null : state.m2 / state.n });
+    this.db.aggregate('zdslite_stddev', { ...variance, result: (state: { n: number; m2: number }) => state.n === 0 ? null : Math.sqrt(state.m2 / state.n) });
+
+    // `X REGEXP Y` calls regexp(Y, X). The 3-argument form takes JavaScript RegExp flags.
+    const patterns = new Map<string, RegExp>();
+    const regexp = (pattern: string, value: any, flags = '') => {
+      if (value === null || value === undefined) return 0;
+      const cacheKey = `${flags}/${pattern}`;
+      let re = patterns.get(cacheKey);
+      if (!re) {
+        if (patterns.size >= 100) patterns.clear();
+        re = new RegExp(pattern, flags); patterns.set(cacheKey, re);
+      }
+      return re.test(String(value)) ? 1 : 0;
+    };
+    this.db.function('regexp', { deterministic: true }, (pattern: any, value: any) => regexp(pattern, value));
+    this.db.function('regexp', { deterministic: true }, (pattern: any, value: any, flags: any) => regexp(pattern, value, flags));
+
+    // Truncates a stored date (ISO string or epoch number) to the start of its bucket, as an ISO string in the time zone.
+    this.db.function('zdslite_date_bucket', { deterministic: true }, (value: any, unit: any, fixedMillis: any, format: any, timeZone: any) => {
+      if (value === null) return null;
+      let time: number;
+      try { time = parseDate(value, 'UTC', format); } catch { return null; } // Unparseable dates have no bucket, like strftime.
+      return toDateString(unit ? roundDate(time, unit, timeZone) : roundFixed(time, fixedMillis, timeZone), timeZone);
+    });
+
+    // Great-circle distance in meters between two points in decimal degrees.
+    this.db.function('zdslite_haversine', { deterministic: true }, (lat1: any, lon1: any, lat2: any, lon2: any) => {
+      if ([lat1, lon1, lat2, lon2].some(v => typeof v !== 'number')) return null;
+      const rad = Math.PI / 180;
+      const a = Math.sin((lat2 - lat1) * rad / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin((lon2 - lon1) * rad / 2) ** 2;
+      return 2 * ZDSLite.EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+    });
+
+    // Optimal string alignment distance: Levenshtein plus, optionally, transpositions of adjacent characters.
+    this.db.function('zdslite_edit_distance', { deterministic: true }, (a: any, b: any, transpositions: any) => {
+      if (a === null || b === null) return null;
+      const s = String(a); const t = String(b);
+      const d: number[][] = Array.from({ length: s.length + 1 }, (_, i) => [i]);
+      for (let j = 1; j <= t.length; j++) d[0][j] = j;
+      for (let i = 1; i <= s.length; i++) {
+        for (let j = 1; j <= t.length; j++) {
+          const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+          d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+          if (transpositions && i > 1 && j > 1 && s[i - 1] === t[j - 2] && s[i - 2] === t[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+        }
+      }
+      return d[s.length][t.length];
+    });
+  }
+
+  // --- Internal Metadata Catalog ---
+
+  /**
+   * Creates the metadata catalog if needed.
+   */
+  private _createMetaTable(): void {
+    this.db.exec(`CREATE TABLE IF NOT EXISTS \`${ZDSLite.META_TABLE}\` (
+      table_name TEXT NOT NULL,
+      column_name TEXT NOT NULL DEFAULT '',
+      kind TEXT NOT NULL,
+      value TEXT,
+      PRIMARY KEY (table_name, column_name, kind)
+    )`);
+  }
+
+  /**
+   * Loads special column types and schemas into memory, replacing what was loaded before.
+   */
+  private _loadMetadata(): void {
+    this.uuidPkColumns.clear();
+    this.hashedColumns.clear();
+    this.fullTextIndexes.clear();
+    this.schemas.clear();
+    const rows = this.db.prepare(`SELECT table_name, column_name, kind, value FROM \`${ZDSLite.META_TABLE}\``).all() as { table_name: string; column_name: string; kind: string; value: string | null }[];
+    for (const row of rows) {
+      if (row.kind === 'UUID') this.uuidPkColumns.set(row.table_name, row.column_name);
+      else if (row.kind === 'HASHED') this._addHashedColumn(row.table_name, row.column_name);
+      else if (row.kind === 'FTS' && row.value) this.fullTextIndexes.set(row.table_name, JSON.parse(row.value));
+      else if (row.kind === 'SCHEMA' && row.value) this.schemas.set(row.table_name, JSON.parse(row.value));
+    }
+  }
+
+  /**
+   * Records special column types in the catalog and the in-memory maps.
+   * A table can only have one UUID primary key, so a new one replaces the old.
+   */
+  private _saveColumnTypes(table: string, uuidPkColumn: string | undefined, hashed: string[]): void {
+    if (!uuidPkColumn && hashed.length === 0) return;
+    const upsert = this.db.prepare(`INSERT OR REPLACE INTO \`${ZDSLite.META_TABLE}\` (table_name, column_name, kind) VALUES (?, ?, ?)`);
+    this.db.transaction(() => {
+      if (uuidPkColumn) {
+        this.db.prepare(`DELETE FROM \`${ZDSLite.META_TABLE}\` WHERE table_name = ? AND kind = 'UUID'`).run(table);
+        upsert.run(table, uuidPkColumn, 'UUID');
+      }
+      hashed.forEach(col => upsert.run(table, col, 'HASHED'));
+    })();
+    if (uuidPkColumn) this.uuidPkColumns.set(table, uuidPkColumn);
+    hashed.forEach(col => this._addHashedColumn(table, col));
+  }
+
+  /**
+   * Records a table schema in the catalog and memory, along with the UUID primary key and HASHED columns it declares.
+   */
+  private _saveSchema(table: string, schema: TableSchema): void {
+    const fields = Object.entries(schema);
+    const uuidPk = fields.find(([, f]) => f.type === 'uuid' && f.primaryKey);
+    this.db.transaction(() => {
+      this.db.prepare(`INSERT OR REPLACE INTO \`${ZDSLite.META_TABLE}\` (table_name, column_name, kind, value) VALUES (?, '', 'SCHEMA', ?)`)
+        .run(table, JSON.stringify(schema));
+      this._saveColumnTypes(table, uuidPk && uuidPk[0], fields.filter(([, f]) => f.type === 'hashed').map(([c]) => c));
+    })();
+    this.schemas.set(table, structuredClone(schema));
+  }
+
+  // Throws a ZDSLiteValidationError listing every failing field, if there are any.
+  private _checkSchema(table: string, violations: SchemaViolation[]): void {
+    if (violations.length > 0) throw schemaError(table, violations);
+  }
+
+  private _addHashedColumn(table: string, column: string): void {
+    if (!this.hashedColumns.has(table)) {
+      this.hashedColumns.set(table, new Set());
+    }
+    this.hashedColumns.get(table)!.add(column);
+  }
+
+  /**
+   * Removes all catalog entries for a dropped table.
+   */
+  private _deleteMetadata(table: string): void {
+    this.db.prepare(`DELETE FROM \`${ZDSLite.META_TABLE}\` WHERE table_name = ?`).run(table);
+    this.uuidPkColumns.delete(table);
+    this.hashedColumns.delete(table);
+    this.fullTextIndexes.delete(table);
+    this.schemas.delete(table);
+  }
+
+  // --- Internal DSL Parsers ---
+
+  private _parseMetrics(metrics: DslAggMetrics): CompiledMetrics {
+    const compiled: CompiledMetrics = { select: [], jsonAliases: [], topHits: [] };
+    for (const [metricName, operation] of Object.entries(metrics)) {
+      this._validateIdentifier(metricName, 'metric alias'); // Validate the metric alias.
+      const opKey = Object.keys(operation)[0];
+      const arg = (operation as any)[opKey];
+      const alias = `\`${metricName}\``;
+      if (opKey === 'top_hits') { compiled.topHits.push({ alias: metricName, def: arg || {} }); continue; }
+      // Every other metric takes a field name, except percentiles which takes `{ field, percents }`.
+      const field = (opKey === 'percentiles') ? (arg && arg.field) : arg;
+      if (!field && ['value_count', 'cardinality', 'median', 'percentiles', 'stats', 'extended_stats'].includes(opKey)) {
+        throw new ZDSLiteValidationError(`The '${opKey}' metric '${metricName}' requires a field.`);
+      }
+      switch (opKey) {
+        case 'sum': case 'avg': case 'count': case 'min': case 'max': {
+          const fieldSql = (field === '*') ? '*' : this._quoteField(field);
+          compiled.select.push(`${opKey.toUpperCase()}(${fieldSql}) as ${alias}`);
+          break;
+        }
+        case 'value_count': compiled.select.push(`COUNT(${this._quoteField(field)}) as ${alias}`); break;
+        case 'cardinality': compiled.select.push(`COUNT(DISTINCT ${this._quoteField(field)}) as ${alias}`); break;
+        case 'median': compiled.select.push(`zdslite_percentile(${this._quoteField(field)}, 50) as ${alias}`); break;
+        case 'percentiles': {
+          const percents: number[] = arg.percents || [1, 5, 25, 50, 75, 95, 99];
+          if (!Array.isArray(percents) || percents.length === 0 || !percents.every(p => typeof p === 'number' && p >= 0 && p <= 100)) {
+            throw new ZDSLiteValidationError(`The percentiles metric '${metricName}' requires "percents" between 0 and 100.`);
+          }
+          // (Safe: the percents are validated numbers.)
+          compiled.select.push(`zdslite_percentiles(${this._quoteField(field)}, '${JSON.stringify(percents)}') as ${alias}`);
+          compiled.jsonAliases.push(metricName);
+          break;
+        }
+        case 'stats': case 'extended_stats': {
+          const f = this._quoteField(field);
+          const parts = [`'count', COUNT(${f})`, `'min', MIN(${f})`, `'max', MAX(${f})`, `'avg', AVG(${f})`, `'sum', SUM(${f})`];
+          if (opKey === 'extended_stats') {
+            parts.push(`'sum_of_squares', SUM(${f} * ${f})`, `'variance', zdslite_variance(${f})`, `'std_deviation', zdslite_stddev(${f})`);
+          }
+          compiled.select.push(`json_object(${parts.join(', ')}) as ${alias}`);
+          compiled.jsonAliases.push(metricName);
+          break;
+        }
+      }
+    }
+    return compiled;
+  }
+
+  /**
+   * Finishes the metric values of a result row: parses JSON-valued metrics and fetches top_hits.
+   * `groupFilter` selects the documents of the row's group, on top of `where`.
+   */
+  private _finishMetrics<T extends Record<string, any>>(row: T, metrics: CompiledMetrics, from: string, where: SqlResult, groupFilter: SqlResult): T {
+    const result: Record<string, any> = row;
+    for (const alias of metrics.jsonAliases) {
+      if (typeof result[alias] === 'string') result[alias] = JSON.parse(result[alias]);
+    }
+    for (const { alias, def } of metrics.topHits) {
+      const sql = `SELECT ${this._parseSource(def._source, '*')} ${from} WHERE (${where.sql}) AND ${groupFilter.sql} ${this._parseSort(def.sort)} LIMIT ?`;
+      result[alias] = this.db.prepare(sql).all([...where.params, ...groupFilter.params, def.size !== undefined ? def.size : 3]);
+    }
+    return row;
+  }
+
+  /**
+   * Runs bucket aggregations and returns the nested bucket tree.
+   * Each aggregation level is one GROUP BY query, filtered by the keys of its parent buckets.
+   */
+  private _aggregateBuckets(table: string, dslQuery: DslQuery): BucketAggregationResult {
+    // SECURE: Validate the table name.
+    this._validateIdentifier(table, 'table name');
+    const aggs = dslQuery.aggs!;
+    if (aggs.group_by) throw new ZDSLiteValidationError('"group_by" cannot be combined with "buckets". Use a "terms" bucket aggregation instead.');
+    const joinSql = this._parseJoin(dslQuery.join);
+    let where: SqlResult = { sql: '1=1', params: [] }; if (dslQuery.query) where = this._parseQuery(dslQuery.query, { table });
+    const from = `FROM \`${table}\` ${joinSql}`;
+    try {
+      const result: BucketAggregationResult = {};
+      // Top-level metrics are computed over all matching documents.
+      if (aggs.metrics) {
+        const metrics = this._parseMetrics(aggs.metrics);
+        if (metrics.select.length > 0) Object.assign(result, this.db.prepare(`SELECT ${metrics.select.join(', ')} ${from} WHERE ${where.sql}`).get(where.params));
+        this._finishMetrics(result, metrics, from, where, { sql: '1=1', params: [] });
+      }
+      return Object.assign(result, this._runBucketAggs(from, where, aggs.buckets!));
+    } catch (error: any) {
+      if (error instanceof ZDSLiteValidationError) throw error;
+      return this._readFailed(queryError('Aggregation query failed', { cause: error, sql: from }), {}, where.params);
+    }
+  }
+
+  private _runBucketAggs(from: string, where: SqlResult, aggs: { [name: string]: DslBucketAgg }): Record<string, { buckets: AggregationBucket[] }> {
+    const result: Record<string, { buckets: AggregationBucket[] }> = {};
+    for (const [name, agg] of Object.entries(aggs)) {
+      this._validateIdentifier(name, 'aggregation name');
+      const metrics = this._parseMetrics(agg.metrics || {});
+      const selector = agg.bucket_selector ? this._parseQuery(agg.bucket_selector) : null;
+      const buckets = 'range' in agg
+        ? this._runRangeBuckets(from, where, agg.range.field, this._parseRangeBuckets(agg.range), metrics.select, selector)
+        : 'date_range' in agg
+          ? this._runRangeBuckets(from, where, agg.date_range.field, this._parseDateRangeBuckets(agg.date_range), metrics.select, selector)
+          : this._runKeyedBuckets(from, where, agg, metrics.select, selector);
+      for (const { bucket, filter } of buckets) this._finishMetrics(bucket, metrics, from, where, filter);
+      if (agg.aggs) {
+        for (const { bucket, filter } of buckets) {
+          const childWhere = { sql: `(${where.sql}) AND ${filter.sql}`, params: [...where.params, ...filter.params] };
+          Object.assign(bucket, this._runBucketAggs(from, childWhere, agg.aggs));
+        }
+      }
+      result[name] = { buckets: buckets.map(b => b.bucket) };
+    }
+    return result;
+  }
+
+  // Runs a terms, histogram or date_histogram aggregation: one bucket per distinct key expression value.
+  private _runKeyedBuckets(from: string, where: SqlResult, agg: DslBucketAgg, metrics: string[], selector: SqlResult | null): { bucket: AggregationBucket; filter: SqlResult }[] {
+    const key = this._parseBucketKey(agg);
+    const params: SqlValue[] = [...key.params, ...where.params];
+    let whereSql = where.sql;
+    if (!key.includesNull) { whereSql = `(${whereSql}) AND ${key.sql} IS NOT NULL`; params.push(...key.params); }
+    // Buckets are filtered in SQL, before ordering and `size` are applied.
+    const havingParts: string[] = [];
+    if (key.minDocCount > 1) { havingParts.push('COUNT(*) >= ?'); params.push(key.minDocCount); }
+    if (selector) { havingParts.push(selector.sql); params.push(...selector.params); }
+    const having = havingParts.length > 0 ? `HAVING ${havingParts.join(' AND ')}` : '';
+    let limit = '';
+    if (key.size !== undefined) { limit = 'LIMIT ?'; params.push(key.size); }
+    const selectParts = [`${key.sql} as \`_key\``, 'COUNT(*) as `doc_count`', ...metrics];
+    const sql = `SELECT ${selectParts.join(', ')} ${from} WHERE ${whereSql} GROUP BY 1 ${having} ORDER BY ${key.orderBy} ${limit}`;
+    const rows = this.db.prepare(sql).all(params) as any[];
+    return rows.map(({ _key, ...rest }) => {
+      const bucket: AggregationBucket = key.isDate
+        ? { key: Date.parse(_key), key_as_string: _key, ...rest }
+        : { key: _key, ...rest };
+      return { bucket, filter: { sql: `${key.sql} IS ?`, params: [...key.params, _key] } };
+    });
+  }
+
+  // Runs a range or date_range aggregation: one COUNT query per range, since ranges may overlap.
+  private _runRangeBuckets(from: string, where: SqlResult, field: string, ranges: RangeBucketDef[], metrics: string[], selector: SqlResult | null): { bucket: AggregationBucket; filter: SqlResult }[] {
+    const fieldSql = this._quoteField(field);
+    const buckets: { bucket: AggregationBucket; filter: SqlResult }[] = [];
+    for (const r of ranges) {
+      const conditions: string[] = []; const filterParams: SqlValue[] = [];
+      if (r.from !== undefined) { conditions.push(`${fieldSql} >= ?`); filterParams.push(r.from); }
+      if (r.to !== undefined) { conditions.push(`${fieldSql} < ?`); filterParams.push(r.to); }
+      const filter = { sql: conditions.length > 0 ? `(${conditions.join(' AND ')})` : `${fieldSql} IS NOT NULL`, params: filterParams };
+      const having = selector ? `HAVING ${selector.sql}` : '';
+      const sql = `SELECT ${['COUNT(*) as `doc_count`', ...metrics].join(', ')} ${from} WHERE (${where.sql}) AND ${filter.sql} ${having}`;
+      const row = this.db.prepare(sql).get([...where.params, ...filterParams, ...(selector ? selector.params : [])]) as any;
+      if (!row) continue; // Removed by the bucket_selector.
+      buckets.push({ bucket: { key: r.key, ...r.fields, ...row }, filter });
+    }
+    return buckets;
+  }
+
+  private _parseRangeBuckets(range: DslRangeAggDef): RangeBucketDef[] {
+    if (!range || !range.field || !Array.isArray(range.ranges) || range.ranges.length === 0) throw new ZDSLiteValidationError('A range aggregation requires a "field" and at least one entry in "ranges".');
+    return range.ranges.map(r => ({
+      key: r.key || `${r.from ?? '*'}-${r.to ?? '*'}`, from: r.from, to: r.to,
+      fields: { ...(r.from !== undefined ? { from: r.from } : {}), ...(r.to !== undefined ? { to: r.to } : {}) },
+    }));
+  }
+
+  // Date bounds may use date math. Buckets show them as epoch milliseconds and as ISO strings in the time zone.
+  private _parseDateRangeBuckets(range: DslDateRangeAgg['date_range']): RangeBucketDef[] {
+    if (!range || !range.field || !Array.isArray(range.ranges) || range.ranges.length === 0) throw new ZDSLiteValidationError('A date_range aggregation requires a "field" and at least one entry in "ranges".');
+    const format = range.format || 'iso'; const timeZone = range.time_zone || 'UTC';
+    const toMillis = (value?: number | string) => value === undefined ? undefined
+      : typeof value === 'number' ? parseDate(value, timeZone, format) : parseDateMath(value, { timeZone, format });
+    return range.ranges.map(r => {
+      const fromMs = toMillis(r.from); const toMs = toMillis(r.to);
+      const fromString = fromMs !== undefined ? toDateString(fromMs, timeZone) : undefined;
+      const toString = toMs !== undefined ? toDateString(toMs, timeZone) : undefined;
+      return {
+        key: r.key || `${fromString ?? '*'}-${toString ?? '*'}`,
+        from: fromMs !== undefined ? formatDate(fromMs, format) : undefined,
+        to: toMs !== undefined ? formatDate(toMs, format) : undefined,
+        fields: {
+          ...(fromMs !== undefined ? { from: fromMs, from_as_string: fromString! } : {}),
+          ...(toMs !== undefined ? { to: toMs, to_as_string: toString! } : {}),
+        },
+      };
+    });
+  }
+
+  /**
+   * Compiles the grouping key of a keyed bucket aggregation, plus its ordering and size.
+   */
+  private _parseBucketKey(agg: DslBucketAgg): { sql: string; params: SqlValue[]; orderBy: string; size?: number; minDocCount: number; includesNull: boolean; isDate: boolean } {
+    if ('terms' in agg) {
+      const terms = agg.terms;
+      if (!terms || !terms.field) throw new ZDSLiteValidationError('A terms aggregation requires a "field".');
+      const fieldSql = this._quoteField(terms.field);
+      const hasMissing = terms.missing !== undefined;
+      const orderParts = Object.entries(terms.order || { _count: 'desc' }).map(([key, dir]) => {
+        const direction = String(dir).toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
+        if (key === '_count') return `\`doc_count\` ${direction}`;
+        if (key === '_key') return `\`_key\` ${direction}`;
+        if (!agg.metrics || !(key in agg.metrics)) throw new ZDSLiteValidationError(`Cannot order terms by '${key}': it is not a metric of this aggregation.`);
+        return `\`${key}\` ${direction}`; // (Safe: metric aliases are validated identifiers.)
+      });
+      // Ties are broken by key so results are deterministic.
+      if (!orderParts.some(p => p.startsWith('`_key`'))) orderParts.push('`_key` ASC');
+      return {
+        sql: hasMissing ? `COALESCE(${fieldSql}, ?)` : fieldSql,
+        params: hasMissing ? [terms.missing as SqlValue] : [],
+        orderBy: orderParts.join(', '),
+        size: terms.size !== undefined ? terms.size : 10,
+        minDocCount: 1, includesNull: hasMissing, isDate: false,
+      };
+    }
+    if ('histogram' in agg) {
+      const hist = agg.histogram;
+      if (!hist || !hist.field || typeof hist.interval !== 'number' || !(hist.interval > 0)) throw new ZDSLiteValidationError('A histogram aggregation requires a "field" and a positive numeric "interval".');
+      const offset = hist.offset || 0;
+      return {
+        sql: `(floor((${this._quoteField(hist.field)} - ?) / ?) * ? + ?)`,
+        params: [offset, hist.interval, hist.interval, offset],
+        orderBy: '`_key` ASC', minDocCount: this._parseMinDocCount(hist.min_doc_count, 'histogram'), includesNull: false, isDate: false,
+      };
+    }
+    if ('date_histogram' in agg) {
+      const hist = agg.date_histogram;
+      if (!hist || !hist.field) throw new ZDSLiteValidationError('A date_histogram aggregation requires a "field".');
+      const key = this._dateBucketSql(this._quoteField(hist.field), hist.calendar_interval, hist.fixed_interval, hist.format, hist.time_zone);
+      return { ...key, orderBy: '`_key` ASC', minDocCount: this._parseMinDocCount(hist.min_doc_count, 'date_histogram'), includesNull: false, isDate: true };
+    }
+    throw new ZDSLiteValidationError(`Unsupported bucket aggregation: ${Object.keys(agg).filter(k => k !== 'aggs' && k !== 'metrics')[0]}`);
+  }
+
+  // Only non-empty buckets exist in SQL, so `min_doc_count: 0` (filling in empty buckets) is rejected rather than ignored.
+  private _parseMinDocCount(value: number | undefined, aggType: string): number {
+    const minDocCount = value ?? 1;
+    if (!Number.isInteger(minDocCount) || minDocCount < 1) throw new ZDSLiteValidationError(`A ${aggType} "min_doc_count" must be an integer of 1 or more; empty buckets are not returned.`);
+    return minDocCount;
+  }
+
+  /**
+   * Builds an expression that truncates a date column to the start of its bucket, as an ISO 8601 string.
+   * Calendar intervals follow the calendar (weeks start on Monday); fixed intervals are multiples of a unit, e.g. "90m".
+   * UTC buckets over ISO strings are computed with strftime. Epoch columns and other time zones use the registered
+   * `zdslite_date_bucket` function, which shares its rounding with date math.
+   */
+  private _dateBucketSql(fieldSql: string, calendarInterval?: string, fixedInterval?: string, format?: DateFormat, timeZone?: string): SqlResult {
+    const calendarUnits: Record<string, DateUnit> = { minute: 'm', hour: 'h', day: 'd', week: 'w', month: 'M', quarter: 'q', year: 'y' };
+    if (calendarInterval && !calendarUnits[calendarInterval]) throw new ZDSLiteValidationError(`Unsupported calendar_interval: ${calendarInterval}`);
+    let seconds = 0;
+    if (!calendarInterval) {
+      const match = fixedInterval ? String(fixedInterval).match(/^(\d+)(s|m|h|d)$/) : null;
+      if (!match || Number(match[1]) === 0) throw new ZDSLiteValidationError('A date_histogram requires a "calendar_interval" or a "fixed_interval" such as "30m", "12h" or "7d".');
+      seconds = Number(match[1]) * { s: 1, m: 60, h: 3600, d: 86400 }[match[2] as 's' | 'm' | 'h' | 'd'];
+    }
+    if ((format && format !== 'iso') || (timeZone && timeZone !== 'UTC')) {
+      if (timeZone) validateTimeZone(timeZone);
+      formatDate(0, format); // Validates the format.
+      return {
+        sql: `zdslite_date_bucket(${fieldSql}, ?, ?, ?, ?)`,
+        params: [calendarInterval ? calendarUnits[calendarInterval] : null, seconds * 1000, format || 'iso', timeZone || 'UTC'],
+      };
+    }
+    const iso = '%Y-%m-%dT%H:%M:%S.000Z';
+    let sql: string;
+    switch (calendarInterval) {
+      case 'minute': sql = `strftime('%Y-%m-%dT%H:%M:00.000Z', ${fieldSql})`; break;
+      case 'hour': sql = `strftime('%Y-%m-%dT%H:00:00.000Z', ${fieldSql})`; break;
+      case 'day': sql = `strftime('%Y-%m-%dT00:00:00.000Z', ${fieldSql})`; break;
+      case 'week': sql = `strftime('%Y-%m-%dT00:00:00.000Z', ${fieldSql}, 'weekday 0', '-6 days')`; break;
+      case 'month': sql = `strftime('%Y-%m-01T00:00:00.000Z', ${fieldSql})`; break;
+      case 'quarter': sql = `printf('%s-%02d-01T00:00:00.000Z', strftime('%Y', ${fieldSql}), ((CAST(strftime('%m', ${fieldSql}) AS INTEGER) - 1) / 3) * 3 + 1)`; break;
+      case 'year': sql = `strftime('%Y-01-01T00:00:00.000Z', ${fieldSql})`; break;
+      // (Safe: the interval is a validated integer.)
+      default: sql = `strftime('${iso}', (CAST(strftime('%s', ${fieldSql}) AS INTEGER) / ${seconds}) * ${seconds}, 'unixepoch')`;
+    }
+    return { sql, params: [] };
+  }
+
+  /**
+   * Compiles an aggregation DSL into a GROUP BY statement.
+   */
+  private _compileAggregate(table: string, dslQuery: DslQuery): CompiledAggregate {
+    // SECURE: Validate the table name.
+    this._validateIdentifier(table, 'table name');
+    
+    // SECURE: Join target, query fields, group_by fields, metrics, and sort fields
+    // are all validated by their respective internal parsers (e.g., _parseJoin, _quoteField).
+    const aggs = dslQuery.aggs!; const joinSql = this._parseJoin(dslQuery.join);
+    let where: SqlResult = { sql: '1=1', params: [] }; if (dslQuery.query) where = this._parseQuery(dslQuery.query, { table });
+    const selectParts: string[] = []; let groupBySql = ''; let groupFields: string[] = [];
+    if (aggs.group_by && Array.isArray(aggs.group_by)) {
+      groupFields = aggs.group_by.map(f => this._quoteField(f));
+      groupBySql = 'GROUP BY ' + groupFields.join(', '); selectParts.push(...groupFields);
+    }
+    const metrics = this._parseMetrics(aggs.metrics || {});
+    selectParts.push(...metrics.select);
+    if (selectParts.length === 0) throw new ZDSLiteValidationError('Aggregation must define "group_by" or "metrics".');
+    // top_hits need the raw group values to select each group's documents.
+    if (metrics.topHits.length > 0) groupFields.forEach((f, i) => selectParts.push(`${f} as \`_group_${i}\``));
+    // Groups are filtered in SQL, so `sort` and `size` apply to the filtered groups.
+    let having: SqlResult = { sql: '', params: [] };
+    if (aggs.having) { const clause = this._parseQuery(aggs.having); having = { sql: `HAVING ${clause.sql}`, params: clause.params }; }
+    let orderBy = ''; if (dslQuery.sort) orderBy = this._parseSort(dslQuery.sort);
+    let limitSql = ''; let limitParams: SqlValue[] = []; if (dslQuery.size) { limitSql = 'LIMIT ?'; limitParams.push(dslQuery.size); }
+    const selectSql = selectParts.join(', ');
+    const from = `FROM \`${table}\` ${joinSql}`;
+    const sql = `SELECT ${selectSql} ${from} WHERE ${where.sql} ${groupBySql} ${having.sql} ${orderBy} ${limitSql}`; // Values are parameterized (safe).
+    return { sql, params: [...where.params, ...having.params, ...limitParams], metrics, from, where, groupFields };
+  }
+
+  /**
+   * Compiles a search DSL into a SELECT statement.
+   * With `withSortKeys`, every sort key is also selected as a hidden `_sort_<n>` column so cursors can be built.
+   */
+  private _compileSearch(table: string, dslQuery: DslQuery, withSortKeys = false): CompiledSearch {
+    // SECURE: Validate the table name.
+    this._validateIdentifier(table, 'table name');
+
+    const joinSql = this._parseJoin(dslQuery.join);
+    const selectParts = [this._parseSource(dslQuery._source, '*')]; const selectParams: SqlValue[] = [];
+    const ctx: QueryContext = { table, fullText: [] };
+    let where: SqlResult = { sql: '1=1', params: [] }; if (dslQuery.query) where = this._parseQuery(dslQuery.query, ctx);
+    // Full-text clauses add a bm25 relevance score and optional highlighted snippets.
+    const hasScore = ctx.fullText!.length > 0;
+    if (hasScore) {
+      const scoring = this._parseScore(table, ctx.fullText!);
+      selectParts.push(scoring.sql); selectParams.push(...scoring.params);
+    }
+    const highlight = this._parseHighlight(table, dslQuery.highlight, ctx.fullText!);
+    selectParts.push(...highlight.sql); selectParams.push(...highlight.params);
+
+    let sortEntries = this._parseSortEntries(dslQuery.sort, hasScore);
+    if (!dslQuery.sort && hasScore) sortEntries = [{ sql: '`_score`', direction: 'DESC', isScore: true }]; // Rank by relevance when no sort is given.
+    // Keyset pagination needs a total order, so the row keys of the table and of its joined tables break ties
+    // between equal sort values (one row of the table can appear once per joined row).
+    const keyset = withSortKeys || dslQuery.search_after !== undefined;
+    if (keyset) {
+      const tables = [table, ...(Array.isArray(dslQuery.join) ? dslQuery.join.map(j => j.target) : [])];
+      tables.flatMap(t => this._rowKeySql(t)).forEach(sql => sortEntries.push({ sql, direction: 'ASC', isScore: false }));
+    }
+    if (withSortKeys) sortEntries.forEach((entry, i) => selectParts.push(`${entry.sql} as \`_sort_${i}\``));
+    sortEntries.forEach(entry => { if (entry.alias) selectParts.push(`${entry.sql} as \`${entry.alias}\``); });
+    const orderBy = sortEntries.length > 0 ? `ORDER BY ${sortEntries.map(e => `${e.sql} ${e.direction}`).join(', ')}` : '';
+
+    let pageWhere = where;
+    if (dslQuery.search_after !== undefined) {
+      const after = this._parseSearchAfter(sortEntries, dslQuery.search_after);
+      pageWhere = { sql: `(${where.sql}) AND ${after.sql}`, params: [...where.params, ...after.params] };
+    }
+    // `from` is ignored when paginating with a cursor.
+    const limitSql = 'LIMIT ?'; const limitParams = [dslQuery.size || 10]; const offsetSql = 'OFFSET ?';
+    const offsetParams = [dslQuery.search_after !== undefined ? 0 : (dslQuery.from || 0)];
+    const sql = `SELECT ${selectParts.join(', ')} FROM \`${table}\` ${joinSql} WHERE ${pageWhere.sql} ${orderBy} ${limitSql} ${offsetSql}`;
+    const params = [ ...selectParams, ...pageWhere.params, ...limitParams, ...offsetParams ]; // Values are parameterized (safe).
+    return {
+      sql, params,
+      highlightFields: highlight.fields,
+      sortKeys: withSortKeys ? sortEntries.map(e => ({ isScore: e.isScore })) : [],
+      countFrom: { sql: `FROM \`${table}\` ${joinSql} WHERE ${where.sql}`, params: where.params },
+    };
+  }
+
+  // The columns identifying a row of a table: its rowid, or the primary key of a WITHOUT ROWID table.
+  private _rowKeySql(table: string): string[] {
+    const [list] = this.db.prepare(`PRAGMA table_list(\`${table}\`)`).all() as { wr: number }[];
+    if (!list || !list.wr) return [`\`${table}\`.rowid`];
+    const info = this.db.prepare(`PRAGMA table_info(\`${table}\`)`).all() as { name: string; pk: number }[];
+    return info.filter(c => c.pk > 0).sort((a, b) => a.pk - b.pk).map(c => `\`${table}\`.\`${c.name}\``);
+  }
+
+  // Removes hidden sort key columns and nests highlight columns.
+  private _formatHit(row: any, compiled: CompiledSearch): any {
+    let hit = row;
+    if (compiled.sortKeys.length > 0) {
+      hit = { ...row };
+      compiled.sortKeys.forEach((_, i) => delete hit[`_sort_${i}`]);
+    }
+    return compiled.highlightFields.length > 0 ? this._foldHighlight(hit, compiled.highlightFields) : hit;
+  }
+
+  private _countHits(countFrom: SqlResult, trackTotalHits: boolean | number | undefined): SearchHitsResult['total'] {
+    if (trackTotalHits === false) return null;
+    // A numeric limit stops counting early, like Elasticsearch's `track_total_hits: <n>`.
+    if (typeof trackTotalHits === 'number') {
+      const row = this.db.prepare(`SELECT COUNT(*) as count FROM (SELECT 1 ${countFrom.sql} LIMIT ?)`).get([...countFrom.params, trackTotalHits + 1]) as { count: number };
+      return row.count > trackTotalHits ? { value: trackTotalHits, relation: 'gte' } : { value: row.count, relation: 'eq' };
+    }
+    const row = this.db.prepare(`SELECT COUNT(*) as count FROM (SELECT 1 ${countFrom.sql})`).get(countFrom.params) as { count: number };
+    return { value: row.count, relation: 'eq' };
+  }
+
+  private _encodeCursor(values: SqlValue[]): string {
+    return Buffer.from(JSON.stringify(values)).toString('base64url');
+  }
+
+  private _decodeCursor(cursor: string): SqlValue[] {
+    try {
+      const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (Array.isArray(values)) return values;
+    } catch { /* Fall through to the validation error below. */ }
+    throw new ZDSLiteValidationError('Invalid search_after cursor.');
+  }
+
+  /**
+   * Builds the keyset condition "row comes after the given sort values", honoring each key's direction.
+   * SQLite orders NULLs first, so a NULL is the smallest value in ascending order and the last in descending order.
+   */
+  private _parseSearchAfter(entries: SortEntry[], searchAfter: SqlValue[] | string): SqlResult {
+    const values = typeof searchAfter === 'string' ? this._decodeCursor(searchAfter) : searchAfter;
+    if (!Array.isArray(values) || values.length === 0) throw new ZDSLiteValidationError('search_after must be a non-empty array or a cursor string.');
+    const keys = entries.slice(0, values.length);
+    if (keys.some(k => k.isScore)) throw new ZDSLiteValidationError('search_after cannot be used when sorting by _score.');
+    const branches: string[] = []; const params: SqlValue[] = [];
+    keys.forEach((key, i) => {
+      const parts: string[] = [];
+      for (let j = 0; j < i; j++) { parts.push(`${keys[j].sql} IS ?`); params.push(values[j]); }
+      const value = values[i];
+      if (key.direction === 'ASC') {
+        if (value === null) parts.push(`${key.sql} IS NOT NULL`);
+        else { parts.push(`${key.sql} > ?`); params.push(value); }
+      } else {
+        if (value === null) parts.push('0');
+        else { parts.push(`(${key.sql} < ? OR ${key.sql} IS NULL)`); params.push(value); }
+      }
+      branches.push(`(${parts.join(' AND ')})`);
+    });
+    return { sql: `(${branches.join(' OR ')})`, params };
+  }
+
+  /**
+   * Hashes a password using scrypt.
+   * @param password The plain-text password.
+   * @returns The salt and hash in the format "salt:hash".
+   */
+  private _hashPassword(password: string): string {
+    const salt = randomBytes(ZDSLite.HASH_SALT_LENGTH).toString('hex');
+    // Scrypt is a CPU and memory-intensive hashing function, which is good for passwords.
     const hash = scryptSync(password, salt, ZDSLite.HASH_KEY_LENGTH).toString('hex');
     return [
       ZDSLite.HASH_ALGORITHM,
@@ -527,14 +2184,14 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
   }
 
   /**
-   * Checks for and hashes any fields in the documents that are marked for hashing.
+   * Checks for and hashes any fields in the documents that are marked for hashing, including values in a `$set` operator.
    * This method mutates the input documents.
    */
   private _processHashing(table: string, docs: object[]): void {
     const columnsToHash = this.hashedColumns.get(table);
     if (!columnsToHash) return;
 
-    for (const doc of docs) {
+    for (const doc of docs.flatMap(d => (typeof (d as any).$set === 'object' && (d as any).$set !== null) ? [d, (d as any).$set] : [d])) {
       for (const col of columnsToHash) {
         if (col in doc && typeof (doc as any)[col] === 'string') {
           (doc as any)[col] = this._hashPassword((doc as any)[col]);
@@ -543,21 +2200,122 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
     }
   }
 
-  private _parseSetClause(doc: Record<string, any>): { setSql: string; setParams: SqlValue[] } {
+  private _parseSetClause(table: string, doc: Record<string, any>): { setSql: string; setParams: SqlValue[] } {
     const setParams: SqlValue[] = []; const setSqlParts: string[] = [];
-    for (const [key, value] of Object.entries(doc)) {
-      // SECURE: _quoteField validates the key (column name).
-      const quotedKey = this._quoteField(key); 
-      setSqlParts.push(`${quotedKey} = ?`);
-      // The value is sent as a parameter (safe).
-      const paramValue = (typeof value === 'object' && value !== null) ? JSON.stringify(value) : value;
-      setParams.push(paramValue);
-    } 
-    // Note: The previous json_set logic was removed to let _quoteField handle quoting.
-    // To re-enable specific JSON update logic, _quoteField would need to be enhanced.
+    for (const [column, expr] of this._compileSetColumns(table, doc, 'update')) {
+      setSqlParts.push(`\`${column}\` = ${expr.sql}`);
+      setParams.push(...expr.params);
+    }
     return { setSql: setSqlParts.join(', '), setParams: setParams };
   }
 
+  /**
+   * Compiles an update document into one SQL expression per column.
+   * Plain keys and `$set` assign values; `$inc`, `$mul`, `$min`, `$max`, `$currentDate` and `$unset` compute them
+   * from the stored value in SQL, so concurrent writers do not need a read-modify-write. JSON path keys
+   * ("meta.details.price" or "meta->>details.price") and `$push` are folded into a single json_set/json_remove/json_insert
+   * chain per column, so the rest of the JSON document is preserved.
+   * @param mode 'update' edits the stored value, 'insert' builds a new value (as if the stored value were NULL), and
+   * 'excluded' (the DO UPDATE branch of an upsert) edits the stored value but takes assigned values from the row
+   * proposed for insertion.
+   */
+  private _compileSetColumns(table: string, doc: Record<string, any>, mode: 'update' | 'insert' | 'excluded'): Map<string, SqlResult> {
+    const columns = new Map<string, SqlResult & { isJson: boolean }>();
+    const hashed = this.hashedColumns.get(table);
+    const editJson = (key: string, edit: (target: SqlResult, path: string, stored: string) => SqlResult) => {
+      const { column, path } = this._parseJsonPathKey(key);
+      const current = columns.get(column);
+      if (current && !current.isJson) throw new ZDSLiteValidationError(`Cannot update column '${column}' and one of its JSON paths at the same time.`);
+      const stored = mode === 'insert' ? `'{}'` : `\`${column}\``;
+      const target = current || { sql: mode === 'insert' ? stored : `COALESCE(${stored}, '{}')`, params: [] };
+      columns.set(column, { ...edit(target, path, stored), isJson: true });
+    };
+    // Sets a column or JSON path to an expression computed from its current value.
+    const apply = (key: string, compute: (current: SqlResult) => SqlResult) => {
+      if (/\.|->/.test(key)) {
+        editJson(key, (target, path, stored) => {
+          const value = compute({ sql: `json_extract(${stored}, ?)`, params: [path] });
+          return { sql: `json_set(${target.sql}, ?, ${value.sql})`, params: [...target.params, path, ...value.params] };
+        });
+        return;
+      }
+      // SECURE: Validate the column name.
+      this._validateIdentifier(key, 'column name');
+      if (columns.has(key)) throw new ZDSLiteValidationError(`Column '${key}' is updated more than once.`);
+      columns.set(key, { ...compute({ sql: mode === 'insert' ? 'NULL' : `\`${key}\``, params: [] }), isJson: false });
+    };
+    const assign = (key: string, value: any) => {
+      if (/\.|->/.test(key)) return apply(key, () => this._jsonValue(value));
+      // The value is sent as a parameter (safe).
+      const param = (typeof value === 'object' && value !== null) ? JSON.stringify(value) : value;
+      apply(key, () => mode === 'excluded' ? { sql: `excluded.\`${key}\``, params: [] } : { sql: '?', params: [param] });
+    };
+    const entries = (op: string, value: any, numeric = false): [string, any][] => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new ZDSLiteValidationError(`"${op}" must be an object of fields and values.`);
+      return Object.entries(value).map(([key, v]) => {
+        if (hashed && hashed.has(key) && op !== '$set') throw new ZDSLiteValidationError(`"${op}" cannot be applied to HASHED column '${key}'.`);
+        if (numeric && (typeof v !== 'number' || !Number.isFinite(v))) throw new ZDSLiteValidationError(`"${op}" requires a number for '${key}'.`);
+        return [key, v];
+      });
+    };
+    const fields = (op: string, value: any): string[] => {
+      if (!Array.isArray(value)) throw new ZDSLiteValidationError(`"${op}" must be an array of fields.`);
+      return value;
+    };
+
+    for (const [key, value] of Object.entries(doc)) {
+      switch (key) {
+        case '$set': entries(key, value).forEach(([k, v]) => assign(k, v)); break;
+        case '$inc': entries(key, value, true).forEach(([k, n]) => apply(k, cur => ({ sql: `COALESCE(${cur.sql}, 0) + ?`, params: [...cur.params, n] }))); break;
+        case '$mul': entries(key, value, true).forEach(([k, n]) => apply(k, cur => ({ sql: `COALESCE(${cur.sql}, 0) * ?`, params: [...cur.params, n] }))); break;
+        // A missing (NULL) value is replaced by the operand.
+        case '$min': entries(key, value).forEach(([k, v]) => apply(k, cur => ({ sql: `COALESCE(MIN(${cur.sql}, ?), ?)`, params: [...cur.params, v, v] }))); break;
+        case '$max': entries(key, value).forEach(([k, v]) => apply(k, cur => ({ sql: `COALESCE(MAX(${cur.sql}, ?), ?)`, params: [...cur.params, v, v] }))); break;
+        case '$currentDate':
+          fields(key, value).forEach(k => {
+            if (hashed && hashed.has(k)) throw new ZDSLiteValidationError(`"$currentDate" cannot be applied to HASHED column '${k}'.`);
+            apply(k, () => ({ sql: `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`, params: [] }));
+          });
+          break;
+        case '$unset':
+          // Removing a JSON key from a document that is being created is a no-op; plain columns are set to NULL.
+          fields(key, value).forEach(k => {
+            if (/\.|->/.test(k)) editJson(k, (target, path) => ({ sql: `json_remove(${target.sql}, ?)`, params: [...target.params, path] }));
+            else apply(k, () => ({ sql: 'NULL', params: [] }));
+          });
+          break;
+        case '$push':
+          // Appends to the array at the path, creating it first if it does not exist.
+          entries(key, value).forEach(([k, v]) => editJson(k, (target, path) => {
+            const item = this._jsonValue(v);
+            return { sql: `json_insert(json_insert(${target.sql}, ?, json('[]')), ?, ${item.sql})`, params: [...target.params, path, `${path}[#]`, ...item.params] };
+          }));
+          break;
+        default:
+          if (key.startsWith('$')) throw new ZDSLiteValidationError(`Unsupported update operator: ${key}`);
+          assign(key, value);
+      }
+    }
+    return columns;
+  }
+
+  /**
+   * Splits a JSON path key ("meta.details.price" or "meta->>details.price") into its column and a JSONPath ("$.details.price").
+   */
+  private _parseJsonPathKey(key: string): { column: string; path: string } {
+    const match = String(key).match(/^(.*?)(->>|->|\.)(.+)$/);
+    if (!match) throw new ZDSLiteValidationError(`Invalid JSON path: ${key}`);
+    // SECURE: Validate the column part; the path itself is sent as a parameter.
+    this._validateIdentifier(match[1], 'JSON column name');
+    return { column: match[1], path: '$.' + match[3].trim() };
+  }
+
+  // Binds a value for a JSON function: objects, arrays and booleans are passed as JSON rather than as text.
+  private _jsonValue(value: any): SqlResult {
+    if ((typeof value === 'object' && value !== null) || typeof value === 'boolean') return { sql: 'json(?)', params: [JSON.stringify(value)] };
+    return { sql: '?', params: [value] };
+  }
+
   // Centralized field quoting and validation.
   private _quoteField(fieldStr: string): string {
     if (fieldStr === '*') return '*';
@@ -621,28 +2379,33 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
   }
 
   // The following parsers are safe because they use parameterized queries.
-  private _parseQuery(queryObj: DslQueryClause): SqlResult {
-    if ('bool' in queryObj) { return this._parseBool(queryObj.bool); }
-    else if ('match' in queryObj) { return this._parseMatch(queryObj); }
-    else if ('match_phrase' in queryObj) { return this._parseMatchPhrase(queryObj); }
-    else if ('multi_match' in queryObj) { return this._parseMultiMatch(queryObj.multi_match); }
+  private _parseQuery(queryObj: DslQueryClause, ctx: QueryContext = {}): SqlResult {
+    if ('bool' in queryObj) { return this._parseBool(queryObj.bool, ctx); }
+    else if ('match' in queryObj) { return this._parseMatch(queryObj, ctx); }
+    else if ('match_phrase' in queryObj) { return this._parseMatchPhrase(queryObj, ctx); }
+    else if ('multi_match' in queryObj) { return this._parseMultiMatch(queryObj.multi_match, ctx); }
     else if ('exists' in queryObj) { return this._parseExists(queryObj.exists); }
     else if ('term' in queryObj) { return this._parseTerm(queryObj); }
     else if ('terms' in queryObj) { return this._parseTerms(queryObj); }
     else if ('range' in queryObj) { return this._parseRange(queryObj); }
+    else if ('prefix' in queryObj) { return this._parsePrefix(queryObj); }
+    else if ('wildcard' in queryObj) { return this._parseWildcard(queryObj); }
+    else if ('regexp' in queryObj) { return this._parseRegexp(queryObj); }
+    else if ('fuzzy' in queryObj) { return this._parseFuzzy(queryObj); }
+    else if ('geo_distance' in queryObj) { return this._parseGeoDistance(queryObj.geo_distance); }
+    else if ('geo_bounding_box' in queryObj) { return this._parseGeoBoundingBox(queryObj.geo_bounding_box); }
     else if ('password_verify' in queryObj) {
       // This clause cannot be translated to a direct SQL WHERE clause.
       throw new ZDSLiteValidationError(`'password_verify' cannot be used directly in a search query. Use the 'db.verifyPassword(plainPassword, storedHash)' method after fetching the user.`);
     }
-    // Fallback for unsupported query types.
-    console.warn(`Unsupported query type: ${Object.keys(queryObj)[0]}. Ignoring.`);
-    return { sql: '1=1', params: [] };
+    // Unknown clauses are rejected rather than ignored, which would silently widen the result set.
+    throw new ZDSLiteValidationError(`Unsupported query type: ${Object.keys(queryObj)[0]}`);
   }
-  private _parseBool(boolObj: BoolQuery['bool']): SqlResult {
+  private _parseBool(boolObj: BoolQuery['bool'], ctx: QueryContext = {}): SqlResult {
     const finalClauses: string[] = []; let allParams: SqlValue[] = [];
     const processClauses = (clauseArray: DslQueryClause[] | undefined, joiner: 'AND' | 'OR'): SqlResult | null => {
       if (!Array.isArray(clauseArray) || clauseArray.length === 0) return null;
-      const parts = clauseArray.map(q => this._parseQuery(q)); if (parts.length === 0) return null;
+      const parts = clauseArray.map(q => this._parseQuery(q, ctx)); if (parts.length === 0) return null;
       const sql = `(${parts.map(p => p.sql).join(` ${joiner} `)})`; const params = parts.flatMap(p => p.params);
       return { sql, params };
     };
@@ -652,30 +2415,114 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
     const shouldResult = processClauses(boolObj.should, 'OR');
     if (shouldResult) { if (!mustResult) { finalClauses.push(shouldResult.sql); allParams.push(...shouldResult.params); } }
     if (boolObj.must_not && boolObj.must_not.length > 0) {
-      const parts = boolObj.must_not.map(q => this._parseQuery(q));
+      // Negated clauses never contribute to scoring or highlighting.
+      const parts = boolObj.must_not.map(q => this._parseQuery(q, { table: ctx.table }));
       parts.forEach(p => { finalClauses.push(`(NOT ${p.sql})`); allParams.push(...p.params); });
     }
     if (finalClauses.length === 0) return { sql: '1=1', params: [] };
     return { sql: `(${finalClauses.join(' AND ')})`, params: allParams };
   }
-  private _parseMatch(matchObj: MatchQuery): SqlResult {
+  private _parseMatch(matchObj: MatchQuery, ctx: QueryContext = {}): SqlResult {
     const field = Object.keys(matchObj.match)[0]; const query = matchObj.match[field]; const quotedField = this._quoteField(field);
     const terms = String(query).split(' ').filter(t => t.length > 0); if (terms.length === 0) return { sql: '1=1', params: [] };
+    const ftsColumn = this._fullTextColumn(ctx.table, field);
+    if (ftsColumn) return this._parseFullText(ctx, `{${ftsColumn}} : (${terms.map(t => this._quoteFtsString(t)).join(' AND ')})`);
     const sqlParts = terms.map(() => `${quotedField} LIKE ?`); const params = terms.map(t => `%${t}%`);
     return { sql: `(${sqlParts.join(' AND ')})`, params: params };
   }
-  private _parseMatchPhrase(matchObj: MatchPhraseQuery): SqlResult {
+  private _parseMatchPhrase(matchObj: MatchPhraseQuery, ctx: QueryContext = {}): SqlResult {
     const field = Object.keys(matchObj.match_phrase)[0]; const value = matchObj.match_phrase[field];
+    const ftsColumn = this._fullTextColumn(ctx.table, field);
+    if (ftsColumn && String(value).trim()) return this._parseFullText(ctx, `{${ftsColumn}} : ${this._quoteFtsString(String(value))}`);
     return { sql: `${this._quoteField(field)} LIKE ?`, params: [`%${value}%`] };
   }
-  private _parseMultiMatch(matchObj: MultiMatchQuery['multi_match']): SqlResult {
+  private _parseMultiMatch(matchObj: MultiMatchQuery['multi_match'], ctx: QueryContext = {}): SqlResult {
     const query = String(matchObj.query); const fields = matchObj.fields; if (!query || !Array.isArray(fields) || fields.length === 0) return { sql: '1=0', params: [] };
     const terms = query.split(' ').filter(t => t.length > 0); if (terms.length === 0) return { sql: '1=1', params: [] };
     const allParams: SqlValue[] = [];
-    const fieldBlocks = fields.map(field => {
+    // Fields covered by the full-text index are combined into a single MATCH expression.
+    const ftsColumns = fields.map(f => this._fullTextColumn(ctx.table, f)).filter((c): c is string => c !== null);
+    const termsExpr = terms.map(t => this._quoteFtsString(t)).join(' AND ');
+    const ftsBlocks: string[] = [];
+    if (ftsColumns.length > 0) {
+      const fullText = this._parseFullText(ctx, ftsColumns.map(c => `({${c}} : (${termsExpr}))`).join(' OR '));
+      ftsBlocks.push(fullText.sql); allParams.push(...fullText.params);
+    }
+    const likeFields = fields.filter(f => this._fullTextColumn(ctx.table, f) === null);
+    const fieldBlocks = likeFields.map(field => {
       const quotedField = this._quoteField(field); const sqlParts = terms.map(() => `${quotedField} LIKE ?`);
       allParams.push(...terms.map(t => `%${t}%`)); return `(${sqlParts.join(' AND ')})`;
-    }); return { sql: `(${fieldBlocks.join(' OR ')})`, params: allParams };
+    }); return { sql: `(${[...ftsBlocks, ...fieldBlocks].join(' OR ')})`, params: allParams };
+  }
+
+  /**
+   * Resolves a DSL field to a column of the table's full-text index, or null if it is not indexed.
+   * Accepts both "column" and "table.column" forms; JSON accessors are never indexed.
+   */
+  private _fullTextColumn(table: string | undefined, field: string): string | null {
+    if (!table) return null;
+    const def = this.fullTextIndexes.get(table);
+    if (!def || /->/.test(field)) return null;
+    const parts = field.split('.');
+    if (parts.length > 2 || (parts.length === 2 && parts[0] !== table)) return null;
+    const column = parts[parts.length - 1];
+    return def.fields.includes(column) ? column : null;
+  }
+
+  // Quotes a user term as an FTS5 string so operators and punctuation are treated literally.
+  private _quoteFtsString(value: string): string {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+
+  private _parseFullText(ctx: QueryContext, expression: string): SqlResult {
+    if (ctx.fullText) ctx.fullText.push(expression);
+    const ftsTable = `\`${ZDSLite.FTS_PREFIX}${ctx.table}\``;
+    return { sql: `\`${ctx.table}\`.rowid IN (SELECT rowid FROM ${ftsTable} WHERE ${ftsTable} MATCH ?)`, params: [expression] };
+  }
+
+  // Builds the `_score` column from the bm25 rank of all full-text clauses (higher is more relevant).
+  private _parseScore(table: string, expressions: string[]): SqlResult {
+    const ftsTable = `\`${ZDSLite.FTS_PREFIX}${table}\``;
+    const expression = expressions.map(e => `(${e})`).join(' OR ');
+    return {
+      sql: `COALESCE((SELECT -bm25(${ftsTable}) FROM ${ftsTable} WHERE ${ftsTable} MATCH ? AND ${ftsTable}.rowid = \`${table}\`.rowid), 0) as \`_score\``,
+      params: [expression]
+    };
+  }
+
+  private _parseHighlight(table: string, highlight: DslHighlight | undefined, expressions: string[]): { sql: string[]; params: SqlValue[]; fields: string[] } {
+    if (!highlight || !highlight.fields) return { sql: [], params: [], fields: [] };
+    const fields = Array.isArray(highlight.fields) ? highlight.fields : Object.keys(highlight.fields);
+    if (fields.length === 0 || expressions.length === 0) return { sql: [], params: [], fields: [] };
+    const def = this.fullTextIndexes.get(table)!;
+    const ftsTable = `\`${ZDSLite.FTS_PREFIX}${table}\``;
+    const expression = expressions.map(e => `(${e})`).join(' OR ');
+    const preTag = highlight.pre_tags?.[0] ?? '<em>'; const postTag = highlight.post_tags?.[0] ?? '</em>';
+    const sql: string[] = []; const params: SqlValue[] = [];
+    fields.forEach(field => {
+      const column = this._fullTextColumn(table, field);
+      if (!column) throw new ZDSLiteValidationError(`Cannot highlight '${field}': it is not part of the full-text index of '${table}'.`);
+      const columnIndex = def.fields.indexOf(column);
+      // snippet() returns a fragment of up to N tokens; highlight() returns the whole field.
+      const fn = highlight.fragment_size
+        ? `snippet(${ftsTable}, ${columnIndex}, ?, ?, '…', ${Math.min(Math.max(Math.floor(highlight.fragment_size), 1), 64)})`
+        : `highlight(${ftsTable}, ${columnIndex}, ?, ?)`;
+      sql.push(`(SELECT ${fn} FROM ${ftsTable} WHERE ${ftsTable} MATCH ? AND ${ftsTable}.rowid = \`${table}\`.rowid) as \`_highlight_${column}\``);
+      params.push(preTag, postTag, expression);
+    });
+    return { sql, params, fields: fields.map(f => this._fullTextColumn(table, f)!) };
+  }
+
+  // Moves `_highlight_<field>` columns into a nested `_highlight` object on each row.
+  private _foldHighlight(row: any, fields: string[]): any {
+    const result = { ...row }; const highlights: Record<string, string> = {};
+    fields.forEach(field => {
+      const key = `_highlight_${field}`;
+      if (result[key] !== null && result[key] !== undefined) highlights[field] = result[key];
+      delete result[key];
+    });
+    result._highlight = highlights;
+    return result;
   }
   private _parseExists(existsObj: ExistsQuery['exists']): SqlResult {
     const field = existsObj.field; if (!field) return { sql: '1=0', params: [] };
@@ -692,26 +2539,211 @@ export class ZDSLite { // Note: This was already ZDSLite, but other references w
     return { sql: `${this._quoteField(field)} IN (${placeholders})`, params: values };
   }
   private _parseRange(rangeObj: RangeQuery): SqlResult {
-    const field = Object.keys(rangeObj.range)[0]; const ops = rangeObj.range[field];
+    const field = Object.keys(rangeObj.range)[0]; const { format, time_zone, ...ops } = rangeObj.range[field];
     const conditions: string[] = []; const params: SqlValue[] = [];
     const opMap: Record<string, string> = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
     for (const [op, value] of Object.entries(ops)) {
       if (opMap[op]) {
         conditions.push(`${this._quoteField(field)} ${opMap[op]} ?`);
-        params.push(value);
+        params.push(this._parseRangeValue(value, op, format, time_zone));
       }
     }
     if (conditions.length === 0) return { sql: '1=1', params: [] };
     return { sql: `(${conditions.join(' AND ')})`, params: params };
   }
-  private _parseSort(sortArr?: DslSort[]): string {
-    if (!Array.isArray(sortArr) || sortArr.length === 0) return '';
-    const parts = sortArr.map(sortObj => {
+  // Strings are read as dates when they use date math, or when a format or time zone is given; the result is
+  // bound in the column's format. Like Elasticsearch, rounding ("/d") includes the whole period for gte/lte and
+  // excludes it for gt/lt.
+  private _parseRangeValue(value: RangeOps['gte'], op: string, format?: DateFormat, timeZone?: string): SqlValue {
+    if (typeof value !== 'string' || !(isDateMath(value) || format || timeZone)) return value as SqlValue;
+    if (timeZone) validateTimeZone(timeZone);
+    const millis = parseDateMath(value, { roundUp: op === 'gt' || op === 'lte', timeZone, format });
+    return formatDate(millis, format);
+  }
+  // Term-level clauses accept `{ field: "value" }` or `{ field: { value, ...options } }`.
+  private _parseTermLevel<T extends object>(clause: Record<string, string | ({ value: string } & T)>, type: string): { field: string; value: string; options: Partial<T> } {
+    const field = Object.keys(clause)[0]; const spec = clause[field];
+    const value = (typeof spec === 'object' && spec !== null) ? spec.value : spec;
+    if (!field || typeof value !== 'string') throw new ZDSLiteValidationError(`A ${type} query requires a field and a string value.`);
+    return { field, value, options: (typeof spec === 'object' ? spec : {}) as Partial<T> };
+  }
+  private _parsePrefix(prefixObj: PrefixQuery): SqlResult {
+    const { field, value, options } = this._parseTermLevel<{ case_insensitive?: boolean }>(prefixObj.prefix, 'prefix');
+    const quotedField = this._quoteField(field);
+    if (options.case_insensitive) return { sql: `${quotedField} LIKE ? ESCAPE '\\'`, params: [this._escapeLike(value) + '%'] };
+    if (value === '') return { sql: `${quotedField} IS NOT NULL`, params: [] };
+    // A half-open range [prefix, next prefix) can use an index on the field, unlike LIKE or GLOB.
+    const last = value.charCodeAt(value.length - 1);
+    if (last === 0xFFFF) return { sql: `${quotedField} GLOB ?`, params: [this._escapeGlob(value) + '*'] };
+    const upper = value.slice(0, -1) + String.fromCharCode(last + 1);
+    return { sql: `(${quotedField} >= ? AND ${quotedField} < ?)`, params: [value, upper] };
+  }
+  private _parseWildcard(wildcardObj: WildcardQuery): SqlResult {
+    const { field, value, options } = this._parseTermLevel<{ case_insensitive?: boolean }>(wildcardObj.wildcard, 'wildcard');
+    // `*` matches any sequence and `?` any single character; a backslash makes the next character literal.
+    let glob = ''; let like = '';
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      if (char === '\\' && i + 1 < value.length) { i++; glob += this._escapeGlob(value[i]); like += this._escapeLike(value[i]); }
+      else if (char === '*') { glob += '*'; like += '%'; }
+      else if (char === '?') { glob += '?'; like += '_'; }
+      else { glob += this._escapeGlob(char); like += this._escapeLike(char); }
+    }
+    if (options.case_insensitive) return { sql: `${this._quoteField(field)} LIKE ? ESCAPE '\\'`, params: [like] };
+    return { sql: `${this._quoteField(field)} GLOB ?`, params: [glob] };
+  }
+  private _parseRegexp(regexpObj: RegexpQuery): SqlResult {
+    const { field, value, options } = this._parseTermLevel<{ case_insensitive?: boolean }>(regexpObj.regexp, 'regexp');
+    // Like Elasticsearch, the pattern must match the whole value.
+    const pattern = `^(?:${value})$`;
+    try { new RegExp(pattern); } catch (error: any) { throw new ZDSLiteValidationError(`Invalid regexp pattern: ${error.message}`); }
+    this._checkRegexpBacktracking(value);
+    if (options.case_insensitive) return { sql: `regexp(?, ${this._quoteField(field)}, 'i')`, params: [pattern] };
+    return { sql: `${this._quoteField(field)} REGEXP ?`, params: [pattern] };
+  }
+  /**
+   * Rejects patterns that can backtrack catastrophically, which would block the connection while they run on every row:
+   * patterns longer than MAX_REGEXP_LENGTH, repeated groups that contain a repetition (`(a+)+`, `(\w*){2,}`) and backreferences.
+   * Overlapping alternatives such as `(a|a)+` are not detected.
+   */
+  private _checkRegexpBacktracking(value: string): void {
+    if (value.length > ZDSLite.MAX_REGEXP_LENGTH) throw new ZDSLiteValidationError(`A regexp pattern cannot be longer than ${ZDSLite.MAX_REGEXP_LENGTH} characters.`);
+    const repeats = (i: number) => value[i] === '*' || value[i] === '+' || /^\{\d+(,\d*)?\}/.test(value.slice(i, i + 24));
+    // Whether each open group (and the pattern itself) contains a repetition.
+    const groups: boolean[] = [false];
+    for (let i = 0; i < value.length; i++) {
+      const c = value[i];
+      if (c === '\\') {
+        if (/[1-9k]/.test(value[i + 1] || '')) throw new ZDSLiteValidationError('Backreferences are not supported in regexp patterns.');
+        i++;
+      } else if (c === '[') {
+        for (i++; i < value.length && value[i] !== ']'; i++) if (value[i] === '\\') i++;
+      } else if (c === '(') {
+        groups.push(false);
+        if (value[i + 1] === '?') i++; // (?: and lookarounds: the '?' is not a quantifier.
+      } else if (c === ')') {
+        const inner = groups.length > 1 ? groups.pop()! : false;
+        const repeated = repeats(i + 1);
+        if (inner && repeated) throw new ZDSLiteValidationError(`Nested repetition in regexp pattern '${value}': a repeated group cannot contain '*', '+' or '{n,m}'.`);
+        if (inner || repeated) groups[groups.length - 1] = true;
+      } else if (repeats(i)) {
+        groups[groups.length - 1] = true;
+      }
+    }
+  }
+  private _parseFuzzy(fuzzyObj: FuzzyQuery): SqlResult {
+    const { field, value, options } = this._parseTermLevel<{ fuzziness?: Fuzziness; prefix_length?: number; transpositions?: boolean }>(fuzzyObj.fuzzy, 'fuzzy');
+    const maxEdits = this._resolveFuzziness(options.fuzziness, value.length);
+    const quotedField = this._quoteField(field);
+    // The length check is a cheap prefilter: more edits than the length difference can never match.
+    const conditions = [`length(${quotedField}) BETWEEN ? AND ?`, `zdslite_edit_distance(${quotedField}, ?, ?) <= ?`];
+    const params: SqlValue[] = [Math.max(0, value.length - maxEdits), value.length + maxEdits, value, options.transpositions === false ? 0 : 1, maxEdits];
+    const prefixLength = options.prefix_length || 0;
+    if (prefixLength > 0) {
+      // The leading characters must match exactly, which narrows the candidates through an index.
+      const prefix = this._parsePrefix({ prefix: { [field]: value.slice(0, prefixLength) } });
+      conditions.unshift(prefix.sql); params.unshift(...prefix.params);
+    }
+    return { sql: `(${conditions.join(' AND ')})`, params };
+  }
+  // `AUTO` allows 0 edits for terms of 1-2 characters, 1 for 3-5 and 2 for longer terms, like Elasticsearch.
+  private _resolveFuzziness(fuzziness: Fuzziness | undefined, length: number): number {
+    if (fuzziness === undefined || fuzziness === 'AUTO') return length <= 2 ? 0 : length <= 5 ? 1 : 2;
+    if (typeof fuzziness !== 'number' || !Number.isInteger(fuzziness) || fuzziness < 0 || fuzziness > 2) {
+      throw new ZDSLiteValidationError('"fuzziness" must be "AUTO" or an integer from 0 to 2.');
+    }
+    return fuzziness;
+  }
+  // GLOB has no escape character: special characters are matched literally inside a bracket expression.
+  private _escapeGlob(text: string): string {
+    return text.replace(/[*?[]/g, char => `[${char}]`);
+  }
+  private _escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, char => `\\${char}`);
+  }
+  private _parseGeoPoint(point: GeoPoint, name: string): GeoPoint {
+    if (!point || typeof point.lat !== 'number' || typeof point.lon !== 'number' || !(Math.abs(point.lat) <= 90) || !(Math.abs(point.lon) <= 180)) {
+      throw new ZDSLiteValidationError(`"${name}" must be a point { lat, lon } in decimal degrees.`);
+    }
+    return point;
+  }
+  private _parseGeoFields(fields: GeoFields): { lat: string; lon: string } {
+    if (!fields || !fields.lat || !fields.lon) throw new ZDSLiteValidationError('Geo queries require "fields": { lat, lon }.');
+    return { lat: this._quoteField(fields.lat), lon: this._quoteField(fields.lon) };
+  }
+  // Converts a distance such as 5000, "5km" or "2.5mi" to meters.
+  private _parseDistance(distance: GeoDistance): number {
+    const match = String(distance).trim().match(/^(\d+(?:\.\d+)?)\s*(m|km|mi|yd|ft|nmi)?$/);
+    if (!match) throw new ZDSLiteValidationError(`Invalid distance: ${distance}. Use meters or a number with a unit (m, km, mi, yd, ft, nmi).`);
+    return Number(match[1]) * ZDSLite.DISTANCE_UNITS[(match[2] || 'm') as DistanceUnit];
+  }
+  private _parseGeoDistance(geo: GeoDistanceQuery['geo_distance']): SqlResult {
+    const { lat, lon } = this._parseGeoFields(geo.fields);
+    const origin = this._parseGeoPoint(geo.origin, 'origin');
+    const meters = this._parseDistance(geo.distance);
+    // A bounding box around the circle is checked first, so an index on the lat/lon fields can narrow the candidates
+    // before the exact haversine distance is computed.
+    const latDelta = (meters / ZDSLite.EARTH_RADIUS_M) * (180 / Math.PI);
+    const minLat = origin.lat - latDelta; const maxLat = origin.lat + latDelta;
+    const box: SqlResult = { sql: `${lat} BETWEEN ? AND ?`, params: [minLat, maxLat] };
+    if (minLat > -90 && maxLat < 90) {
+      const lonDelta = Math.asin(Math.min(1, Math.sin(meters / ZDSLite.EARTH_RADIUS_M) / Math.cos(origin.lat * Math.PI / 180))) * (180 / Math.PI);
+      const lonRange = this._parseLonRange(lon, origin.lon - lonDelta, origin.lon + lonDelta);
+      box.sql += ` AND ${lonRange.sql}`; box.params.push(...lonRange.params);
+    }
+    return {
+      sql: `(${box.sql} AND zdslite_haversine(?, ?, ${lat}, ${lon}) <= ?)`,
+      params: [...box.params, origin.lat, origin.lon, meters],
+    };
+  }
+  private _parseGeoBoundingBox(geo: GeoBoundingBoxQuery['geo_bounding_box']): SqlResult {
+    const { lat, lon } = this._parseGeoFields(geo.fields);
+    const topLeft = this._parseGeoPoint(geo.top_left, 'top_left');
+    const bottomRight = this._parseGeoPoint(geo.bottom_right, 'bottom_right');
+    if (bottomRight.lat > topLeft.lat) throw new ZDSLiteValidationError('"top_left" must be north of "bottom_right".');
+    // A box whose left edge is east of its right edge crosses the antimeridian.
+    const lonRange = topLeft.lon <= bottomRight.lon
+      ? { sql: `${lon} BETWEEN ? AND ?`, params: [topLeft.lon, bottomRight.lon] }
+      : { sql: `(${lon} >= ? OR ${lon} <= ?)`, params: [topLeft.lon, bottomRight.lon] };
+    return { sql: `(${lat} BETWEEN ? AND ? AND ${lonRange.sql})`, params: [bottomRight.lat, topLeft.lat, ...lonRange.params] };
+  }
+  // Builds a longitude range, wrapping around the antimeridian when it extends past ±180.
+  private _parseLonRange(lon: string, min: number, max: number): SqlResult {
+    if (max - min >= 360) return { sql: '1=1', params: [] };
+    if (min < -180) return { sql: `(${lon} >= ? OR ${lon} <= ?)`, params: [min + 360, max] };
+    if (max > 180) return { sql: `(${lon} >= ? OR ${lon} <= ?)`, params: [min, max - 360] };
+    return { sql: `${lon} BETWEEN ? AND ?`, params: [min, max] };
+  }
+  private _parseGeoDistanceSort(geo: GeoDistanceSort['_geo_distance']): SortEntry {
+    const { lat, lon } = this._parseGeoFields(geo.fields);
+    const origin = this._parseGeoPoint(geo.origin, 'origin');
+    const unit = geo.unit || 'm';
+    if (!(unit in ZDSLite.DISTANCE_UNITS)) throw new ZDSLiteValidationError(`Invalid distance unit: ${unit}`);
+    if (geo.distance_field !== undefined) this._validateIdentifier(geo.distance_field, 'distance field');
+    const direction = String(geo.order || 'asc').toUpperCase() === 'DESC' ? 'DESC' : 'ASC';
+    // (Safe: the origin and unit factor are validated numbers.) Sort keys are inlined rather than bound,
+    // because they are repeated in ORDER BY, cursor columns and search_after conditions.
+    const sql = `(zdslite_haversine(${Number(origin.lat)}, ${Number(origin.lon)}, ${lat}, ${lon}) / ${ZDSLite.DISTANCE_UNITS[unit]})`;
+    return { sql, direction, isScore: false, alias: geo.distance_field };
+  }
+  private _parseSort(sortArr?: DslSort[], hasScore: boolean = false): string {
+    const entries = this._parseSortEntries(sortArr, hasScore);
+    if (entries.length === 0) return '';
+    return `ORDER BY ${entries.map(e => `${e.sql} ${e.direction}`).join(', ')}`;
+  }
+  private _parseSortEntries(sortArr?: DslSort[], hasScore: boolean = false): SortEntry[] {
+    if (!Array.isArray(sortArr) || sortArr.length === 0) return [];
+    const entries: SortEntry[] = [];
+    sortArr.forEach(sortObj => {
+      if ('_geo_distance' in sortObj) { entries.push(this._parseGeoDistanceSort((sortObj as GeoDistanceSort)._geo_distance)); return; }
       const field = Object.keys(sortObj)[0];
-      let direction = String(sortObj[field]).toUpperCase();
+      let direction = String((sortObj as Record<string, string>)[field]).toUpperCase();
       if (direction !== 'ASC' && direction !== 'DESC') direction = 'ASC';
+      // `_score` only exists when the query contains full-text clauses.
+      if (field === '_score') { if (hasScore) entries.push({ sql: '`_score`', direction: direction as SortEntry['direction'], isScore: true }); return; }
       const fieldSql = this._quoteField(field); // (Safe)
-      return `${fieldSql} ${direction}`;
-    }); return `ORDER BY ${parts.join(', ')}`;
+      entries.push({ sql: fieldSql, direction: direction as SortEntry['direction'], isScore: false });
+    });
+    return entries;
   }
 }
\ No newline at end of file
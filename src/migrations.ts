@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Migration, MigrationStep } from './types';
+import { ZDSLiteMigrationError } from './errors';
+
+// Migration files are named "<version>_<name>.sql" or "<version>_<name>.js", e.g. "001_create_users.sql".
+const MIGRATION_FILE_REGEX = /^(\d+)[_-](.+)\.(sql|js|cjs)$/;
+
+// Section markers inside .sql files, e.g. "-- up" / "-- down" or "-- migrate:up" / "-- migrate:down".
+const SQL_SECTION_REGEX = /^--\s*(?:migrate:)?\s*(up|down)\s*$/i;
+
+/**
+ * Computes a stable checksum of a migration's up and down steps, used to detect drift
+ * between the migration source and what was applied to the database.
+ * @param migration The migration to fingerprint.
+ * @returns {string} A hex-encoded SHA-256 digest.
+ */
+export function migrationChecksum(migration: Migration): string {
+  const stepSource = (step?: MigrationStep) => (step === undefined ? '' : String(step).trim());
+  return createHash('sha256')
+    .update(stepSource(migration.up))
+    .update('\n--down--\n')
+    .update(stepSource(migration.down))
+    .digest('hex');
+}
+
+/**
+ * Compares two migration versions. Numeric versions are compared numerically, others lexically.
+ */
+export function compareVersions(a: string, b: string): number {
+  if (/^\d+$/.test(a) && /^\d+$/.test(b)) {
+    const diff = Number(a) - Number(b);
+    if (diff !== 0) return diff;
+  }
+  return a.localeCompare(b);
+}
+
+/**
+ * Loads migrations from a directory.
+ * `.sql` files are split into up/down sections by `-- up` and `-- down` marker lines (a file without markers is all "up").
+ * `.js` files must export `up` and optionally `down` as SQL strings or functions receiving the ZDSLite instance.
+ * @param dir The directory containing migration files.
+ * @returns {Migration[]} The migrations, sorted by version.
+ * @throws {ZDSLiteMigrationError} If the directory cannot be read or a file is malformed.
+ */
+export function loadMigrations(dir: string): Migration[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir);
+  } catch (error: any) {
+    throw new ZDSLiteMigrationError(`Cannot read migrations directory: ${dir}`, { cause: error });
+  }
+
+  const migrations: Migration[] = [];
+  for (const file of files) {
+    const match = file.match(MIGRATION_FILE_REGEX);
+    if (!match) continue;
+    const [, version, name, ext] = match;
+    const filePath = path.resolve(dir, file);
+
+    if (ext === 'sql') {
+      migrations.push({ version, name, ...parseSqlMigration(fs.readFileSync(filePath, 'utf8')) });
+    } else {
+      const mod = require(filePath);
+      const def = mod && mod.default ? mod.default : mod;
+      if (!def || (typeof def.up !== 'string' && typeof def.up !== 'function')) {
+        throw new ZDSLiteMigrationError(`Migration ${file} must export an "up" SQL string or function.`, { version });
+      }
+      migrations.push({ version, name: def.name && typeof def.name === 'string' ? def.name : name, up: def.up, down: def.down });
+    }
+  }
+
+  return migrations.sort((a, b) => compareVersions(String(a.version), String(b.version)));
+}
+
+function parseSqlMigration(source: string): { up: string; down?: string } {
+  const sections: Record<string, string[]> = { up: [] };
+  let current = 'up';
+  for (const line of source.split(/\r?\n/)) {
+    const marker = line.trim().match(SQL_SECTION_REGEX);
+    if (marker) {
+      current = marker[1].toLowerCase();
+      sections[current] = sections[current] || [];
+      continue;
+    }
+    sections[current].push(line);
+  }
+  const up = sections.up.join('\n').trim();
+  const down = sections.down ? sections.down.join('\n').trim() : undefined;
+  return { up, down: down || undefined };
+}
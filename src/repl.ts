@@ -0,0 +1,292 @@
+import * as repl from 'repl';
+import { AsyncCompleter } from 'readline';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import util from 'util';
+import { performance } from 'perf_hooks';
+import { ZDSLite } from './index';
+import { ZDSLiteValidationError } from './errors';
+import { DispatchPayload, dispatch, parsePayloads } from './dispatch';
+import { FormatOptions, OutputFormat, OUTPUT_FORMATS, formatResult, outputFormat } from './format';
+
+/**
+ * Completes the table and column names of a query being typed: table names in the first string argument
+ * of a `db.<method>(...)` call or in a `"table"` key, and the columns of that table after it.
+ * @param line The line up to the cursor.
+ * @param tables The table names.
+ * @param columnsOf Resolves the column names of a table.
+ * @returns {Promise<[string[], string] | null>} The completions and the text they replace, or null if there is nothing to complete.
+ */
+export async function completeQuery(line: string, tables: string[], columnsOf: (table: string) => Promise<string[]>): Promise<[string[], string] | null> {
+  const tableArg = line.match(/(?:\bdb\.\w+\(\s*|"table"\s*:\s*)['"`](\w*)$/);
+  if (tableArg) return [tables.filter(t => t.startsWith(tableArg[1])), tableArg[1]];
+
+  const named = [...line.matchAll(/(?:\bdb\.\w+\(\s*|"table"\s*:\s*)['"`](\w+)['"`]/g)];
+  const table = named.length > 0 ? named[named.length - 1][1] : null;
+  if (!table || !tables.includes(table)) return null;
+  // A column is completed from a partial word, or from an opening quote.
+  const [, quote, word] = line.match(/(['"`]?)(\w*)$/)!;
+  if (!word && !quote) return null;
+  const columns = (await columnsOf(table)).filter(c => c.startsWith(word));
+  return columns.length > 0 ? [columns, word] : null;
+}
+
+// Counts the brackets left open in JSON text, skipping strings; an unterminated string counts as one.
+function openBrackets(text: string): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === '\\') i++;
+      else if (c === '"') inString = false;
+    } else if (c === '"') {
+      inString = true;
+    } else if (c === '{' || c === '[') {
+      depth++;
+    } else if (c === '}' || c === ']') {
+      depth--;
+    }
+  }
+  return inString ? depth + 1 : depth;
+}
+
+/**
+ * Starts the interactive REPL mode.
+ */
+export function startRepl(dbPath: string) {
+  console.log(`Connecting to ${dbPath}...`);
+  let db: ZDSLite;
+  try {
+    db = new ZDSLite(dbPath);
+    console.log(`Connected. Welcome to ZDSLite REPL!`);
+    console.log(`Type .help for commands, or use the 'db' object.`);
+  } catch (e: any) {
+    console.error(`Failed to connect: ${e.message}`);
+    process.exit(1);
+  }
+
+  // Results are inspected as usual, or printed in the output format chosen with .format,
+  // followed by the time the command took (see .timing).
+  let format: OutputFormat | null = null;
+  let formatOpts: FormatOptions = {};
+  let timing = true;
+  let started: number | null = null;
+  const writer = (output: any) => {
+    const text = format && typeof output === 'object' && output !== null
+      ? formatResult(output, format, formatOpts).replace(/\n$/, '')
+      : util.inspect(output, { colors: true });
+    const elapsed = started === null ? null : performance.now() - started;
+    started = null;
+    return timing && elapsed !== null ? `${text}\n(${elapsed.toFixed(1)} ms)` : text;
+  };
+  const show = (result: any) => console.log(writer(result));
+
+  // Create the REPL server
+  const replServer = repl.start({
+    prompt: 'zdslite> ',
+    useColors: true,
+    writer,
+  });
+
+  // Inject the 'db' instance into the REPL's context
+  replServer.context.db = db;
+
+  // History is kept across sessions, in ~/.zdslite_repl_history unless ZDSLITE_REPL_HISTORY names another file
+  // (an empty value turns it off).
+  const historyFile = process.env.ZDSLITE_REPL_HISTORY ?? path.join(os.homedir(), '.zdslite_repl_history');
+  if (historyFile) {
+    replServer.setupHistory(historyFile, error => {
+      if (error) console.error('History will not be saved:', error.message);
+    });
+  }
+
+  // Runs one query, or a script of queries in order, stopping at the first failure.
+  const runQueries = async (payloads: DispatchPayload[], script: boolean) => {
+    if (!script) return dispatch(db, payloads[0], { local: true });
+    const results: any[] = [];
+    for (const payload of payloads) results.push(await dispatch(db, payload, { local: true }));
+    return results;
+  };
+
+  // In DSL mode, each input is a JSON query (the same shape as in single-command mode) instead of JavaScript.
+  let dslMode = false;
+  const jsEval = replServer.eval;
+  const dslEval: repl.REPLEval = (cmd, context, file, callback) => {
+    const text = cmd.trim();
+    if (!text) return callback(null, undefined);
+    // Keep reading lines until the brackets of the JSON are closed.
+    if (openBrackets(text) > 0) return callback(new repl.Recoverable(new SyntaxError('Unexpected end of JSON input')), undefined);
+    Promise.resolve()
+      .then(() => {
+        const { payloads, script } = parsePayloads(text);
+        return runQueries(payloads, script);
+      })
+      .then(result => callback(null, result), (e: any) => {
+        console.error('Query failed:', e.message);
+        callback(null, undefined);
+      });
+  };
+  (replServer as { eval: repl.REPLEval }).eval = (cmd, context, file, callback) => {
+    started = performance.now();
+    return (dslMode ? dslEval : jsEval).call(replServer, cmd, context, file, callback);
+  };
+
+  // Table and column names are completed inside queries; everything else is completed as JavaScript.
+  const jsCompleter = replServer.completer as AsyncCompleter;
+  const columnsOf = async (table: string) => (await db.describe(table)).columns.map(c => c.name);
+  (replServer as { completer: AsyncCompleter }).completer = (line, callback) => {
+    db.listTables()
+      .then(tables => completeQuery(line, tables, columnsOf))
+      .catch(() => null)
+      .then(result => (result ? callback(null, result) : jsCompleter.call(replServer, line, callback)));
+  };
+
+  // Add a custom .tables command
+  replServer.defineCommand('tables', {
+    help: 'List all tables in the database',
+    async action() {
+      this.clearBufferedCommand();
+      try {
+        started = performance.now();
+        show(await db.listTables());
+      } catch (e: any) {
+        console.error('Failed to list tables:', e.message);
+      }
+      this.displayPrompt();
+    }
+  });
+
+  // Add a custom .schema command
+  replServer.defineCommand('schema', {
+    help: 'Describe a table: columns, keys, indexes and special types (usage: .schema <table>)',
+    async action(table: string) {
+      this.clearBufferedCommand();
+      try {
+        if (!table.trim()) throw new ZDSLiteValidationError('Usage: .schema <table>');
+        console.log(util.inspect(await db.describe(table.trim()), { depth: null, colors: true }));
+      } catch (e: any) {
+        console.error('Failed to describe table:', e.message);
+      }
+      this.displayPrompt();
+    }
+  });
+
+  // Add a custom .indexes command
+  replServer.defineCommand('indexes', {
+    help: 'List the indexes of a table (usage: .indexes <table>)',
+    async action(table: string) {
+      this.clearBufferedCommand();
+      try {
+        if (!table.trim()) throw new ZDSLiteValidationError('Usage: .indexes <table>');
+        started = performance.now();
+        show(await db.listIndexes(table.trim()));
+      } catch (e: any) {
+        console.error('Failed to list indexes:', e.message);
+      }
+      this.displayPrompt();
+    }
+  });
+
+  // Add a custom .count command
+  replServer.defineCommand('count', {
+    help: 'Count the rows of a table, optionally matching a DSL query (usage: .count <table> [dsl_json])',
+    async action(input: string) {
+      this.clearBufferedCommand();
+      try {
+        const match = input.trim().match(/^(\S+)(?:\s+([\s\S]+))?$/);
+        if (!match) throw new ZDSLiteValidationError('Usage: .count <table> [dsl_json]');
+        started = performance.now();
+        show(await db.count(match[1], match[2] ? JSON.parse(match[2]) : {}));
+      } catch (e: any) {
+        console.error('Failed to count rows:', e.message);
+      }
+      this.displayPrompt();
+    }
+  });
+
+  // Add a custom .dsl command
+  replServer.defineCommand('dsl', {
+    help: 'Toggle DSL mode: type JSON queries, e.g. {"method": "search", "table": "users", "dsl": {}}, instead of JavaScript',
+    action() {
+      this.clearBufferedCommand();
+      dslMode = !dslMode;
+      // Undefined results (e.g. of a failed query) are not printed in DSL mode.
+      (replServer as { ignoreUndefined: boolean }).ignoreUndefined = dslMode;
+      replServer.setPrompt(dslMode ? 'zdslite(dsl)> ' : 'zdslite> ');
+      console.log(dslMode ? 'DSL mode: type JSON queries, or .dsl to go back to JavaScript.' : 'JavaScript mode.');
+      this.displayPrompt();
+    }
+  });
+
+  // Add a custom .read command
+  replServer.defineCommand('read', {
+    help: 'Run the queries of a file: a JSON query, a JSON array or NDJSON (usage: .read <file>)',
+    async action(file: string) {
+      this.clearBufferedCommand();
+      try {
+        if (!file.trim()) throw new ZDSLiteValidationError('Usage: .read <file>');
+        const { payloads, script } = parsePayloads(fs.readFileSync(path.resolve(file.trim()), 'utf8'));
+        started = performance.now();
+        show(await runQueries(payloads, script));
+      } catch (e: any) {
+        console.error('Failed to run file:', e.message);
+      }
+      this.displayPrompt();
+    }
+  });
+
+  // Add a custom .timing command
+  replServer.defineCommand('timing', {
+    help: 'Show or hide the time each command takes (usage: .timing <on|off>)',
+    action(input: string) {
+      this.clearBufferedCommand();
+      const value = input.trim();
+      if (value === 'on' || value === 'off') timing = value === 'on';
+      else console.error('Usage: .timing <on|off>');
+      this.displayPrompt();
+    }
+  });
+
+  // Add a custom .format command
+  replServer.defineCommand('format', {
+    help: `Print results as ${OUTPUT_FORMATS.join('|')}, or inspect them as usual (usage: .format <format|inspect> [max_width])`,
+    action(input: string) {
+      this.clearBufferedCommand();
+      try {
+        const [name, width] = input.trim().split(/\s+/);
+        if (!name) {
+          console.log(`Output format: ${format || 'inspect'}`);
+        } else {
+          const maxWidth = width !== undefined ? parseInt(width, 10) : undefined;
+          if (maxWidth !== undefined && !(maxWidth >= 0)) throw new ZDSLiteValidationError('Usage: .format <format|inspect> [max_width]');
+          format = name === 'inspect' ? null : outputFormat(name);
+          formatOpts = { maxWidth };
+        }
+      } catch (e: any) {
+        console.error('Failed to set the output format:', e.message);
+      }
+      this.displayPrompt();
+    }
+  });
+
+  // Add a custom .explain command
+  replServer.defineCommand('explain', {
+    help: 'Show the compiled SQL and query plan of a DSL query (usage: .explain <table> <dsl_json>)',
+    async action(input: string) {
+      this.clearBufferedCommand();
+      try {
+        const match = input.trim().match(/^(\S+)\s+([\s\S]+)$/);
+        if (!match) throw new ZDSLiteValidationError('Usage: .explain <table> <dsl_json>');
+        const dsl = JSON.parse(match[2]);
+        // A DSL with an `aggs` block is explained as an aggregation.
+        const result = await db.explain(match[1], dsl, { method: dsl.aggs ? 'aggregate' : 'search' });
+        console.log(util.inspect(result, { depth: null, colors: true }));
+      } catch (e: any) {
+        console.error('Failed to explain query:', e.message);
+      }
+      this.displayPrompt();
+    }
+  });
+}
@@ -0,0 +1,260 @@
+import { SchemaField, SchemaFieldType, SchemaViolation, TableSchema } from './types';
+import { ZDSLiteValidationError, ZDSLiteSchemaError } from './errors';
+import { parseDate } from './datemath';
+
+// The SQLite column type each schema type is stored as.
+const SQL_TYPES: Record<SchemaFieldType, string> = {
+  string: 'TEXT', integer: 'INTEGER', number: 'REAL', boolean: 'INTEGER', date: 'TEXT',
+  object: 'TEXT', array: 'TEXT', uuid: 'TEXT', hashed: 'TEXT',
+};
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Splits a JSON path key into its column and path, like ZDSLite's update keys ("meta.tags" or "meta->>tags").
+const JSON_PATH_KEY_REGEX = /^(.*?)(->>|->|\.)(.+)$/;
+
+const patterns = new Map<string, RegExp>();
+
+/**
+ * Checks that a schema definition is well-formed: known types, valid patterns and bounds, and defaults that match their field.
+ * @throws {ZDSLiteValidationError} If the definition is invalid.
+ */
+export function validateSchemaDefinition(schema: TableSchema): void {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) throw new ZDSLiteValidationError('A schema must be an object of field definitions.');
+  const problems: SchemaViolation[] = [];
+  Object.entries(schema).forEach(([name, field]) => checkDefinition(field, name, problems));
+  if (Object.values(schema).filter(f => f && f.primaryKey).length > 1) problems.push({ path: '', message: 'declares more than one primary key' });
+  if (problems.length > 0) {
+    throw new ZDSLiteValidationError(`Invalid schema: ${describeViolations(problems)}`, { errors: problems });
+  }
+}
+
+/**
+ * Builds the SQLite column definition for a schema field, e.g. "TEXT NOT NULL DEFAULT 'draft'".
+ */
+export function columnDefinition(field: SchemaField): string {
+  const parts = [SQL_TYPES[field.type]];
+  if (field.primaryKey) parts.push('PRIMARY KEY');
+  else if (field.required) parts.push('NOT NULL');
+  if (field.unique) parts.push('UNIQUE');
+  if (field.default !== undefined) parts.push(`DEFAULT ${sqlLiteral(storedValue(field, field.default))}`);
+  return parts.join(' ');
+}
+
+/**
+ * Prepares a document for insertion: fills in defaults, validates it, and converts booleans to 0/1.
+ * The document is modified in place.
+ * @param prefix Prepended to every violation path, e.g. "[2]" for the third document of a bulk insert.
+ * @returns {SchemaViolation[]} Every failing field; empty if the document is valid.
+ */
+export function prepareInsert(schema: TableSchema, doc: Record<string, any>, prefix = ''): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  applyDefaults(schema, doc);
+  for (const [name, field] of Object.entries(schema)) {
+    // UUID primary keys are generated after validation.
+    if (field.type === 'uuid' && field.primaryKey && (doc[name] === undefined || doc[name] === null)) continue;
+    checkValue(field, doc[name], joinPath(prefix, name), violations);
+  }
+  if (violations.length === 0) toStoredValues(schema, doc);
+  return violations;
+}
+
+/**
+ * Validates an update document, including the operands of update operators and JSON path keys, and converts booleans to 0/1.
+ * Values computed in SQL (e.g. the result of `$inc`) cannot be checked before the write.
+ * The document is modified in place.
+ * @param inserting True for an upsert, whose document must also be a valid new row: required fields must be present.
+ * @returns {SchemaViolation[]} Every failing field; empty if the document is valid.
+ */
+export function prepareUpdate(schema: TableSchema, doc: Record<string, any>, inserting = false): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const touched = new Set<string>();
+  const fieldFor = (key: string) => { touched.add(key.replace(JSON_PATH_KEY_REGEX, '$1')); return resolveField(schema, key); };
+  const expectTypes = (op: string, key: string, types: SchemaFieldType[]) => {
+    const field = fieldFor(key);
+    if (field && !types.includes(field.type)) violations.push({ path: key, message: `is a ${field.type} field and does not support ${op}` });
+  };
+
+  for (const [key, value] of Object.entries(doc)) {
+    const operands = typeof value === 'object' && value !== null ? value : {};
+    switch (key) {
+      case '$set': case '$min': case '$max':
+        Object.keys(operands).forEach(k => assignValue(fieldFor(k), operands, k, violations));
+        break;
+      case '$inc': case '$mul':
+        Object.keys(operands).forEach(k => expectTypes(key, k, ['integer', 'number']));
+        break;
+      case '$currentDate':
+        (Array.isArray(value) ? value : []).forEach(k => expectTypes(key, k, ['date', 'string']));
+        break;
+      case '$unset':
+        (Array.isArray(value) ? value : []).forEach(k => {
+          if (fieldFor(k)?.required) violations.push({ path: k, message: 'is required and cannot be unset' });
+        });
+        break;
+      case '$push':
+        Object.entries(operands).forEach(([k, item]) => {
+          const field = fieldFor(k);
+          if (!field) return;
+          if (field.type !== 'array') violations.push({ path: k, message: `is a ${field.type} field and does not support $push` });
+          else if (field.items) checkValue(field.items, item, `${k}[]`, violations);
+        });
+        break;
+      default:
+        if (!key.startsWith('$')) assignValue(fieldFor(key), doc, key, violations);
+    }
+  }
+
+  if (inserting) {
+    for (const [name, field] of Object.entries(schema)) {
+      const generated = field.type === 'uuid' && field.primaryKey;
+      if (field.required && !touched.has(name) && field.default === undefined && !generated) violations.push({ path: name, message: 'is required' });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Builds the error thrown for a document that does not match its table schema.
+ */
+export function schemaError(table: string, violations: SchemaViolation[]): ZDSLiteSchemaError {
+  return new ZDSLiteSchemaError(`Document does not match the schema of '${table}': ${describeViolations(violations)}`, { errors: violations });
+}
+
+function describeViolations(violations: SchemaViolation[]): string {
+  return violations.map(v => (v.path ? `${v.path} ${v.message}` : v.message)).join('; ');
+}
+
+function joinPath(prefix: string, name: string): string {
+  return prefix ? `${prefix}.${name}` : name;
+}
+
+function checkDefinition(field: SchemaField, path: string, problems: SchemaViolation[]): void {
+  if (typeof field !== 'object' || field === null) { problems.push({ path, message: 'must be a field definition object' }); return; }
+  if (!(field.type in SQL_TYPES)) { problems.push({ path, message: `has an unsupported type: ${field.type}` }); return; }
+  if (field.enum !== undefined && !Array.isArray(field.enum)) problems.push({ path, message: 'enum must be an array' });
+  for (const bound of ['min', 'max'] as const) {
+    if (field[bound] !== undefined && (typeof field[bound] !== 'number' || !Number.isFinite(field[bound]))) problems.push({ path, message: `${bound} must be a number` });
+  }
+  if (field.pattern !== undefined) {
+    try { compilePattern(field.pattern); } catch { problems.push({ path, message: `has an invalid pattern: ${field.pattern}` }); }
+  }
+  if (field.properties !== undefined) {
+    if (field.type !== 'object') problems.push({ path, message: 'properties are only allowed on object fields' });
+    else Object.entries(field.properties).forEach(([name, child]) => checkDefinition(child, `${path}.${name}`, problems));
+  }
+  if (field.items !== undefined) {
+    if (field.type !== 'array') problems.push({ path, message: 'items are only allowed on array fields' });
+    else checkDefinition(field.items, `${path}[]`, problems);
+  }
+  if (field.default !== undefined) {
+    // A default is written into the table definition, so a password default would be stored in plain text.
+    if (field.type === 'hashed') problems.push({ path, message: 'cannot have a default (hashed fields)' });
+    else {
+      const before = problems.length;
+      checkValue(field, field.default, path, problems);
+      problems.slice(before).forEach(p => { p.message = `has an invalid default: ${p.message}`; });
+    }
+  }
+}
+
+// Validates a value against a field, collecting every failure (including those of nested properties and items).
+function checkValue(field: SchemaField, value: any, path: string, violations: SchemaViolation[]): void {
+  if (value === undefined || value === null) {
+    if (field.required) violations.push({ path, message: 'is required' });
+    return;
+  }
+  const typeError = checkType(field.type, value);
+  if (typeError) { violations.push({ path, message: typeError }); return; }
+
+  if (field.enum && !field.enum.includes(value)) violations.push({ path, message: `must be one of: ${field.enum.map(v => JSON.stringify(v)).join(', ')}` });
+  const size = typeof value === 'number' || typeof value === 'bigint' ? Number(value) : (typeof value === 'string' || Array.isArray(value) ? value.length : undefined);
+  if (size !== undefined) {
+    // Numbers are compared by value ("must be >= 0"), strings and arrays by length ("must be at most 80 characters").
+    const unit = typeof value === 'string' ? ' characters' : (Array.isArray(value) ? ' items' : '');
+    const [atLeast, atMost] = unit ? ['at least', 'at most'] : ['>=', '<='];
+    if (field.min !== undefined && size < field.min) violations.push({ path, message: `must be ${atLeast} ${field.min}${unit}` });
+    if (field.max !== undefined && size > field.max) violations.push({ path, message: `must be ${atMost} ${field.max}${unit}` });
+  }
+  if (field.pattern !== undefined && typeof value === 'string' && !compilePattern(field.pattern).test(value)) {
+    violations.push({ path, message: `must match the pattern ${field.pattern}` });
+  }
+  if (field.type === 'object' && field.properties) {
+    Object.entries(field.properties).forEach(([name, child]) => checkValue(child, value[name], `${path}.${name}`, violations));
+  }
+  if (field.type === 'array' && field.items) {
+    (value as any[]).forEach((item, i) => checkValue(field.items!, item, `${path}[${i}]`, violations));
+  }
+}
+
+// Returns an error message if the value is not of the given type.
+function checkType(type: SchemaFieldType, value: any): string | null {
+  switch (type) {
+    case 'string': case 'hashed': return typeof value === 'string' ? null : 'must be a string';
+    case 'integer': return (typeof value === 'number' && Number.isInteger(value)) || typeof value === 'bigint' ? null : 'must be an integer';
+    case 'number': return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number';
+    case 'boolean': return typeof value === 'boolean' ? null : 'must be a boolean';
+    case 'object': return typeof value === 'object' && !Array.isArray(value) && !Buffer.isBuffer(value) ? null : 'must be an object';
+    case 'array': return Array.isArray(value) ? null : 'must be an array';
+    case 'uuid': return typeof value === 'string' && UUID_REGEX.test(value) ? null : 'must be a UUID';
+    case 'date':
+      if (typeof value !== 'string') return 'must be an ISO 8601 date string';
+      try { parseDate(value); return null; } catch { return 'must be an ISO 8601 date string'; }
+  }
+}
+
+// Validates an assigned value and converts it for storage in place.
+function assignValue(field: SchemaField | undefined, container: Record<string, any>, key: string, violations: SchemaViolation[]): void {
+  if (!field) return;
+  const before = violations.length;
+  checkValue(field, container[key], key, violations);
+  // Only whole columns are converted; booleans inside JSON documents stay true/false.
+  if (violations.length === before && !JSON_PATH_KEY_REGEX.test(key)) container[key] = storedValue(field, container[key]);
+}
+
+// Finds the field for a column or JSON path key ("meta.details.price", "meta->>tags[0]"). Undeclared paths return undefined.
+function resolveField(schema: TableSchema, key: string): SchemaField | undefined {
+  const match = key.match(JSON_PATH_KEY_REGEX);
+  if (!match) return schema[key];
+  let field: SchemaField | undefined = schema[match[1]];
+  for (const part of match[3].trim().split('.')) {
+    // "tags[0]" steps into the "tags" property, then into its items once per index.
+    const [, name, indexes] = part.match(/^([^[]*)(.*)$/)!;
+    if (name) field = field?.type === 'object' ? field.properties?.[name] : undefined;
+    for (let i = (indexes.match(/\[/g) || []).length; i > 0; i--) field = field?.type === 'array' ? field.items : undefined;
+  }
+  return field;
+}
+
+function applyDefaults(schema: Record<string, SchemaField>, doc: Record<string, any>): void {
+  for (const [name, field] of Object.entries(schema)) {
+    if (doc[name] === undefined && field.default !== undefined) doc[name] = structuredClone(field.default);
+    const value = doc[name];
+    if (field.type === 'object' && field.properties && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      applyDefaults(field.properties, value);
+    }
+  }
+}
+
+function toStoredValues(schema: TableSchema, doc: Record<string, any>): void {
+  for (const [name, field] of Object.entries(schema)) {
+    if (doc[name] !== undefined) doc[name] = storedValue(field, doc[name]);
+  }
+}
+
+function storedValue(field: SchemaField, value: any): any {
+  return field.type === 'boolean' && typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+function sqlLiteral(value: any): string {
+  if (value === null) return 'NULL';
+  // (Safe: only finite numbers are written as-is; everything else is a quoted string literal.)
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+function compilePattern(pattern: string): RegExp {
+  let regex = patterns.get(pattern);
+  if (!regex) { regex = new RegExp(pattern); patterns.set(pattern, regex); }
+  return regex;
+}
@@ -1,100 +1,440 @@
 import http from 'http';
-import { ZDSLite, ZDSLiteValidationError } from './index';
+import { ZDSLite, ZDSLiteError, ZDSLiteValidationError, DslQuery, ApiKeyInfo, ZDSLiteEventName, rootError, errorStatus } from './index';
+import { dispatch } from './dispatch';
+import { AccessCheck, accessChecks, bulkChecks, authorize, readableTables, roleOf } from './auth';
+import { parseBulkNdjson } from './bulk';
 
 interface ServerOptions {
   dbPath: string;
   port: number;
 }
 
+// The `operation` each committed write event is streamed as by `GET /_changes`.
+const CHANGE_OPERATIONS = { afterInsert: 'insert', afterUpdate: 'update', afterUpsert: 'upsert', afterDelete: 'delete' } as const;
+// Idle change streams send a comment this often, so that proxies do not close them.
+const HEARTBEAT_INTERVAL_MS = 15000;
+
 /**
- * Starts the ZDSLite API server.
- * @param options - The server options.
+ * An error of the HTTP layer (authentication, routing, request bodies), with the status and code it is reported with.
  */
-export function startServer(options: ServerOptions): void {
-  const { dbPath, port } = options;
-  const db = new ZDSLite(dbPath);
+class HttpError extends Error {
+  public status: number;
+  public code: string;
+  constructor(status: number, message: string, code: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
 
-  const requestHandler = async (req: http.IncomingMessage, res: http.ServerResponse) => {
-    if (req.method !== 'POST' || req.url !== '/query') {
-      res.writeHead(404, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Not Found. Please POST to /query.' }));
-      return;
+/**
+ * Creates the request handler of the API server: the resource-oriented, Elasticsearch-compatible routes
+ * (`/:table/_search`, `/:table/_doc/:id`, `/_bulk`, ...), schema discovery under `/_schema`, change events under `/_changes`,
+ * and the legacy `POST /query` endpoint.
+ * Once the database has an active API key, every request must send one (`Authorization: Bearer <key>`),
+ * and is limited to what the key's permissions allow.
+ * @param db The database to serve.
+ */
+export function createRequestHandler(db: ZDSLite): http.RequestListener {
+  return async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    let segments: string[];
+    try { segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent); }
+    catch { return sendError(res, new HttpError(400, 'Invalid URL encoding.', 'VALIDATION_FAILED')); }
+
+    let apiKey: ApiKeyInfo | null;
+    try { apiKey = await authenticate(db, req); }
+    catch (error: any) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="zdslite"');
+      return sendError(res, error);
     }
 
-    let body = '';
-    req.on('data', chunk => {
-      body += chunk.toString();
-    });
+    // Schema discovery: GET /_schema lists tables, GET /_schema/<table> describes one.
+    if (method === 'GET' && segments[0] === '_schema' && segments.length <= 2) {
+      try {
+        if (segments[1]) await checkAccess(db, apiKey, [{ table: segments[1], role: 'read' }]);
+        const tables = segments[1] ? [] : await db.listTables();
+        const result = segments[1] ? await db.describe(segments[1]) : { tables: apiKey ? readableTables(apiKey, tables) : tables };
+        sendJson(res, 200, result);
+      } catch (error: any) {
+        sendError(res, error);
+      }
+      return;
+    }
 
-    req.on('end', async () => {
+    // Bulk operations as NDJSON: POST /_bulk, or POST /<table>/_bulk to default `_index` to the table.
+    if (segments[segments.length - 1] === '_bulk' && segments.length <= 2) {
       try {
-        const payload = JSON.parse(body);
-        const { method } = payload;
-
-        if (!method || typeof (db as any)[method] !== 'function') {
-          res.writeHead(400, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: `Invalid or missing 'method' in request body.` }));
-          return;
-        }
-
-        let result: any;
-        const { table, dsl, data, query, doc, columns, conflictKey, fields, options, indexName } = payload;
-
-        // Construct arguments based on the method, similar to the CLI's single-command mode.
-        switch (method) {
-          case 'search':
-            if (!table || !dsl) throw new ZDSLiteValidationError('"table" and "dsl" are required for "search"');
-            result = await db.search(table, dsl);
-            break;
-          case 'aggregate':
-            if (!table || !dsl) throw new ZDSLiteValidationError('"table" and "dsl" are required for "aggregate"');
-            result = await db.aggregate(table, dsl);
-            break;
-          case 'insert':
-            if (!table || !data) throw new ZDSLiteValidationError('"table" and "data" are required for "insert"');
-            result = await db.insert(table, data);
-            break;
-          case 'update':
-            if (!table || !doc || !query) throw new ZDSLiteValidationError('"table", "doc", and "query" are required for "update"');
-            result = await db.update(table, doc, query);
-            break;
-          case 'delete':
-            if (!table || !query) throw new ZDSLiteValidationError('"table" and "query" are required for "delete"');
-            result = await db.delete(table, { query });
-            break;
-          case 'create':
-            if (!table || !columns) throw new ZDSLiteValidationError('"table" and "columns" are required for "create"');
-            result = await db.create(table, columns);
-            break;
-          case 'upsert':
-            if (!table || !doc || !conflictKey) throw new ZDSLiteValidationError('"table", "doc", and "conflictKey" are required for "upsert"');
-            result = await db.upsert(table, doc, conflictKey);
-            break;
-          // Add other methods as needed (drop, createIndex, etc.)
-          default:
-            // For simple methods, we can still use a generic approach if needed.
-            throw new ZDSLiteValidationError(`Method '${method}' is not supported via the API server yet.`);
-        }
-
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(result));
+        if (method !== 'POST') throw new HttpError(405, 'Method Not Allowed. Use POST /_bulk.', 'METHOD_NOT_ALLOWED');
+        const operations = parseBulkNdjson(await readText(req));
+        if (segments.length === 2) operations.forEach(op => { const meta = Object.values(op)[0]; if (meta._index === undefined) meta._index = segments[0]; });
+        await checkAccess(db, apiKey, bulkChecks(operations));
+        const chunkSize = url.searchParams.has('chunk_size') ? Number(url.searchParams.get('chunk_size')) : undefined;
+        sendJson(res, 200, await db.bulk(operations, { chunkSize }));
+      } catch (error: any) {
+        sendError(res, error);
+      }
+      return;
+    }
 
+    // Committed writes as Server-Sent Events: GET /_changes, or GET /_changes?table=a,b for some tables only.
+    if (segments.length === 1 && segments[0] === '_changes') {
+      try {
+        if (method !== 'GET') throw new HttpError(405, 'Method Not Allowed. Use GET /_changes.', 'METHOD_NOT_ALLOWED');
+        const tables = url.searchParams.getAll('table').flatMap(t => t.split(',')).map(t => t.trim()).filter(Boolean);
+        await checkAccess(db, apiKey, tables.map(table => ({ table, role: 'read' })));
+        streamChanges(db, apiKey, tables, req, res);
       } catch (error: any) {
-        res.writeHead(500, { 'Content-Type': 'application/json' });
-        // Handle both standard errors and our custom ZDSLite errors
-        const errorMessage = error.message || 'An internal server error occurred.';
-        res.end(JSON.stringify({ error: errorMessage, name: error.name }));
+        sendError(res, error);
       }
-    });
+      return;
+    }
+
+    if (segments.length === 1 && segments[0] === 'query') {
+      if (method !== 'POST') return sendError(res, new HttpError(405, 'Method Not Allowed. Use POST /query.', 'METHOD_NOT_ALLOWED'));
+      return handleLegacyQuery(db, apiKey, req, res);
+    }
+
+    const [table, action, id] = segments;
+    if (!table || table.startsWith('_') || segments.length > 3) {
+      return sendError(res, new HttpError(404, 'Not Found. Use /<table>/_search, /<table>/_doc/<id>, GET /_schema or POST /query.', 'NOT_FOUND'));
+    }
+
+    try {
+      const body = ['POST', 'PUT'].includes(method) || (method === 'GET' && action) ? await readBody(req) : {};
+      await checkAccess(db, apiKey, routeAccess(method, table, action, body));
+      if (action === '_stream' && id === undefined && (method === 'GET' || method === 'POST')) return await streamSearch(db, table, body, res);
+      const { status, result } = await handleTableRoute(db, method, table, action, id, body, url.searchParams);
+      sendJson(res, status, result);
+    } catch (error: any) {
+      sendError(res, error);
+    }
+  };
+}
+
+/**
+ * Handles the routes under `/:table`. Returns the status and body to send.
+ */
+async function handleTableRoute(db: ZDSLite, method: string, table: string, action: string | undefined, id: string | undefined, body: any, params: URLSearchParams): Promise<{ status: number; result: any }> {
+  const route = `${method} ${action === undefined ? '' : action}${id === undefined ? '' : '/:id'}`;
+  switch (route) {
+    case 'PUT ': {
+      if (!body.columns) throw new ZDSLiteValidationError('"columns" is required to create a table');
+      ensureAcknowledged(await db.create(table, body.columns));
+      return { status: 200, result: { acknowledged: true, index: table } };
+    }
+    case 'DELETE ': {
+      ensureAcknowledged(await db.drop(table));
+      return { status: 200, result: { acknowledged: true } };
+    }
+    case 'GET ':
+      return { status: 200, result: await db.describe(table) };
+
+    case 'GET _search': case 'POST _search': {
+      const started = Date.now();
+      const { aggs, ...dsl } = body as DslQuery;
+      for (const key of ['size', 'from'] as const) if (params.has(key)) dsl[key] = Number(params.get(key));
+      const pk = (await primaryKey(db, table)).column;
+      const { hits, total, next_cursor } = await db.searchHits(table, dsl);
+      const scores = hits.map(h => h._score).filter(s => typeof s === 'number');
+      const result: any = {
+        took: Date.now() - started,
+        timed_out: false,
+        hits: { total, max_score: scores.length > 0 ? Math.max(...scores) : null, hits: hits.map(row => toHit(table, pk, row)) },
+        next_cursor,
+      };
+      if (aggs) result.aggregations = await db.aggregate(table, { query: dsl.query, join: dsl.join, aggs });
+      return { status: 200, result };
+    }
+    case 'GET _count': case 'POST _count':
+      await db.describe(table);
+      return { status: 200, result: { count: await db.count(table, body) } };
+    case 'GET _aggregate': case 'POST _aggregate':
+      if (!body.aggs) throw new ZDSLiteValidationError('"aggs" is required for _aggregate');
+      await db.describe(table);
+      return { status: 200, result: await db.aggregate(table, body) };
+
+    case 'POST _doc': {
+      const pk = await primaryKey(db, table);
+      const inserted = ensureAcknowledged(await db.insert(table, body));
+      const docId = body[pk.column] ?? (pk.integer ? inserted.lastInsertRowid : null);
+      return { status: 201, result: { _index: table, _id: docId === null ? null : String(docId), result: 'created' } };
+    }
+    case 'GET _doc/:id': {
+      const pk = await primaryKey(db, table);
+      const [row] = await db.search(table, { query: { term: { [pk.column]: toIdValue(id!, pk.integer) } }, size: 1 });
+      return row
+        ? { status: 200, result: { _index: table, _id: id, found: true, _source: row } }
+        : { status: 404, result: { _index: table, _id: id, found: false } };
+    }
+    case 'PUT _doc/:id': {
+      // Creates the document, or updates the fields given in the body; fields that are not given are kept.
+      const pk = await primaryKey(db, table);
+      const key = toIdValue(id!, pk.integer);
+      const query = { term: { [pk.column]: key } };
+      // The check and the write share a transaction, so two PUTs of a new id cannot both insert it.
+      let exists = false;
+      await db.transaction(async tx => {
+        exists = (await tx.count(table, { query })) > 0;
+        if (exists) ensureAcknowledged(await tx.update(table, body, query));
+        else ensureAcknowledged(await tx.insert(table, { ...body, [pk.column]: key }));
+      });
+      return { status: exists ? 200 : 201, result: { _index: table, _id: id, result: exists ? 'updated' : 'created' } };
+    }
+    case 'DELETE _doc/:id': {
+      const pk = await primaryKey(db, table);
+      const { deletedCount } = ensureAcknowledged(await db.delete(table, { query: { term: { [pk.column]: toIdValue(id!, pk.integer) } } }));
+      return { status: deletedCount > 0 ? 200 : 404, result: { _index: table, _id: id, result: deletedCount > 0 ? 'deleted' : 'not_found' } };
+    }
+
+    case 'POST _update_by_query': {
+      if (!body.query || !body.doc) throw new ZDSLiteValidationError('"query" and "doc" are required for _update_by_query');
+      await db.describe(table);
+      const { updatedCount } = ensureAcknowledged(await db.update(table, body.doc, body.query));
+      return { status: 200, result: { updated: updatedCount } };
+    }
+    case 'POST _delete_by_query': {
+      if (!body.query) throw new ZDSLiteValidationError('"query" is required for _delete_by_query');
+      await db.describe(table);
+      const { deletedCount } = ensureAcknowledged(await db.delete(table, { query: body.query }));
+      return { status: 200, result: { deleted: deletedCount } };
+    }
+  }
+
+  const known = ['', '_search', '_stream', '_count', '_aggregate', '_doc', '_update_by_query', '_delete_by_query'];
+  if (known.includes(action || '') && (id === undefined || action === '_doc')) throw new HttpError(405, `Method ${method} is not allowed on this route.`, 'METHOD_NOT_ALLOWED');
+  throw new HttpError(404, `Unknown route: ${method} /${table}${action ? `/${action}` : ''}${id !== undefined ? '/<id>' : ''}`, 'NOT_FOUND');
+}
+
+/**
+ * Streams the rows of a search as NDJSON, one row per line, for `/:table/_stream`. Rows are read as the client
+ * consumes them (backpressure), and a client that disconnects stops the query. An error after the first row
+ * is reported as a last `{ "error": ... }` line, since the status has already been sent.
+ */
+async function streamSearch(db: ZDSLite, table: string, body: DslQuery, res: http.ServerResponse): Promise<void> {
+  await db.describe(table);
+  const rows = db.searchStream(table, body);
+  // Errors before the first row are reported with a status, like other routes.
+  let next = await rows.next();
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+  try {
+    for (; !next.done && !res.destroyed; next = await rows.next()) {
+      if (!res.write(JSON.stringify(next.value) + '\n')) await drained(res);
+    }
+  } catch (error: any) {
+    const root = rootError(error);
+    res.write(JSON.stringify({ error: root.message, name: root.name, code: root.code || 'INTERNAL_ERROR' }) + '\n');
+  } finally {
+    await rows.return(undefined);
+  }
+  res.end();
+}
+
+// Resolves when the response can be written to again, or when the client has gone.
+function drained(res: http.ServerResponse): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => { res.off('drain', done); res.off('close', done); resolve(); };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+/**
+ * Streams the committed writes of the server's connection as Server-Sent Events for `GET /_changes`, in commit order.
+ * Each event's data is the `after*` event (see `ZDSLite.on()`) with its `operation`: `insert`, `update`, `upsert` or `delete`.
+ * Writes made by other connections to the database file are not seen. With an API key, only tables the key can read
+ * are streamed; HASHED values are never sent, and documents are left out for tables the key may only read with an
+ * explicit `_source`.
+ */
+function streamChanges(db: ZDSLite, apiKey: ApiKeyInfo | null, tables: string[], req: http.IncomingMessage, res: http.ServerResponse): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  res.write(': connected\n\n');
+
+  let id = 0;
+  // Preparing an event waits for the table description; the chain keeps the events in order.
+  let sending = Promise.resolve();
+  const send = (operation: string, event: any) => {
+    if (tables.length > 0 && !tables.includes(event.table)) return;
+    if (apiKey && roleOf(apiKey.permissions, event.table) === null) return;
+    sending = sending
+      .then(() => changeEvent(db, apiKey, operation, event))
+      .then(change => {
+        if (!res.destroyed) res.write(`id: ${++id}\ndata: ${JSON.stringify(change, (_, v) => (typeof v === 'bigint' ? v.toString() : v))}\n\n`);
+      })
+      .catch(error => console.error('Failed to stream a change:', error));
   };
 
-  const server = http.createServer(requestHandler);
+  const names = Object.keys(CHANGE_OPERATIONS) as (keyof typeof CHANGE_OPERATIONS)[];
+  const unsubscribe = names.map(name => db.on(name as ZDSLiteEventName, (event: any) => send(CHANGE_OPERATIONS[name], event)));
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe.forEach(off => off());
+  });
+}
+
+// Prepares a write event for a change stream client: documents without their HASHED values, or no documents at all
+// if the API key may not read whole rows of the table.
+async function changeEvent(db: ZDSLite, apiKey: ApiKeyInfo | null, operation: string, event: any): Promise<any> {
+  const { docs, doc, ...change } = event;
+  if (apiKey && await authorize(db, apiKey, [{ table: event.table, role: 'read', rows: {} }])) return { operation, ...change };
+
+  let hashed: string[] = [];
+  try {
+    hashed = (await db.describe(event.table)).columns.filter(c => c.zdsliteType === 'HASHED').map(c => c.name);
+  } catch {
+    // The table has been dropped since the write.
+  }
+  // Update operators (`$set`, ...) hold column values too.
+  const strip = (values: Record<string, any>): Record<string, any> => Object.fromEntries(Object.entries(values)
+    .filter(([k]) => !hashed.includes(k))
+    .map(([k, v]) => [k, k.startsWith('$') && typeof v === 'object' && v !== null && !Array.isArray(v) ? strip(v) : v]));
+  return { operation, table: event.table, ...(docs ? { docs: docs.map(strip) } : {}), ...(doc ? { doc: strip(doc) } : {}), ...change };
+}
+
+/**
+ * Handles the legacy `POST /query` endpoint, which names a ZDSLite method and its arguments in the body.
+ */
+function handleLegacyQuery(db: ZDSLite, apiKey: ApiKeyInfo | null, req: http.IncomingMessage, res: http.ServerResponse): void {
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk.toString();
+  });
+
+  req.on('end', async () => {
+    try {
+      let payload: any;
+      try { payload = JSON.parse(body); }
+      catch { throw new HttpError(400, 'The request body must be a JSON object.', 'VALIDATION_FAILED'); }
+      const { method } = payload || {};
+
+      if (!method || (typeof (db as any)[method] !== 'function' && method !== 'transaction')) {
+        throw new HttpError(400, `Invalid or missing 'method' in request body.`, 'VALIDATION_FAILED');
+      }
+
+      await checkAccess(db, apiKey, accessChecks(payload));
+      const result = await dispatch(db, payload);
+      sendJson(res, 200, apiKey && method === 'listTables' ? readableTables(apiKey, result) : result);
+    } catch (error: any) {
+      sendError(res, error);
+    }
+  });
+}
+
+// Reads the API key of a request. Resolves with null when the database has no active keys, so no key is needed.
+async function authenticate(db: ZDSLite, req: http.IncomingMessage): Promise<ApiKeyInfo | null> {
+  if (!(await db.hasActiveApiKeys())) return null;
+  const match = (req.headers.authorization || '').match(/^(?:Bearer|ApiKey)\s+(\S+)$/i);
+  if (!match) throw new HttpError(401, 'An API key is required: send "Authorization: Bearer <key>".', 'UNAUTHORIZED');
+  const key = await db.verifyApiKey(match[1]);
+  if (!key) throw new HttpError(401, 'The API key is invalid or has been revoked.', 'UNAUTHORIZED');
+  return key;
+}
+
+// Reports a request the API key is not allowed to make as 403.
+async function checkAccess(db: ZDSLite, apiKey: ApiKeyInfo | null, checks: AccessCheck[]): Promise<void> {
+  if (!apiKey) return;
+  const denied = await authorize(db, apiKey, checks);
+  if (denied) throw new HttpError(403, denied, 'FORBIDDEN');
+}
+
+// The access a route under `/:table` needs: reads need `read`, documents and by-query changes `write`, and the table itself `admin`.
+function routeAccess(method: string, table: string, action: string | undefined, body: any): AccessCheck[] {
+  if (action === undefined) return [{ table, role: method === 'GET' ? 'read' : 'admin' }];
+  if (action === '_search' || action === '_stream') return accessChecks({ method: 'search', table, dsl: body });
+  if (action === '_count') return accessChecks({ method: 'count', table, dsl: body });
+  if (action === '_aggregate') return accessChecks({ method: 'aggregate', table, dsl: body });
+  // GET _doc/<id> returns the whole row.
+  if (action === '_doc' && method === 'GET') return [{ table, role: 'read', rows: {} }];
+  return [{ table, role: 'write' }];
+}
+
+// Resolves the primary key column of a table: its declared PRIMARY KEY, or `rowid`.
+async function primaryKey(db: ZDSLite, table: string): Promise<{ column: string; integer: boolean }> {
+  const description = await db.describe(table);
+  const keys = description.columns.filter(c => c.primaryKey);
+  if (keys.length > 1) throw new HttpError(400, `Table '${table}' has a composite primary key; documents cannot be addressed by a single id.`, 'VALIDATION_FAILED');
+  if (keys.length === 0) return { column: 'rowid', integer: true };
+  return { column: keys[0].name, integer: /INT/i.test(keys[0].type) };
+}
+
+// Ids in URLs are strings; integer keys (and rowids) are compared as numbers.
+function toIdValue(id: string, integer: boolean): string | number {
+  return integer && /^-?\d+$/.test(id) ? Number(id) : id;
+}
+
+// Converts a row into an Elasticsearch hit, moving `_score` and `_highlight` out of `_source`.
+function toHit(table: string, pk: string, row: any): any {
+  const { _score, _highlight, ...source } = row;
+  const hit: any = { _index: table, _id: source[pk] === undefined || source[pk] === null ? null : String(source[pk]), _score: _score ?? null, _source: source };
+  if (_highlight) hit.highlight = _highlight;
+  return hit;
+}
+
+// DML methods report failures in their result instead of throwing; the routes report them as errors.
+function ensureAcknowledged<T extends { acknowledged: boolean }>(result: T): Extract<T, { acknowledged: true }> {
+  if (!result.acknowledged) throw (result as any).error;
+  return result as Extract<T, { acknowledged: true }>;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<any> {
+  const body = await readText(req);
+  if (!body.trim()) return {};
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new Error('not an object');
+    return parsed;
+  } catch {
+    throw new HttpError(400, 'The request body must be a JSON object.', 'VALIDATION_FAILED');
+  }
+}
+
+function readText(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk.toString(); });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+// Reports an error as `{ error, name, code }` (and `errors` for schema violations), with the status of its code.
+// A transaction reports the error that made it roll back.
+function sendError(res: http.ServerResponse, error: any): void {
+  error = rootError(error);
+  const status = error instanceof HttpError ? error.status : errorStatus(error);
+  const code = error instanceof HttpError || error instanceof ZDSLiteError ? error.code : 'INTERNAL_ERROR';
+  const body: any = { error: error.message || 'An internal server error occurred.', name: error.name || 'Error', code };
+  if (error instanceof ZDSLiteValidationError && error.errors) body.errors = error.errors;
+  sendJson(res, status, body);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: any): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Starts the ZDSLite API server.
+ * @param options - The server options.
+ */
+export function startServer(options: ServerOptions): void {
+  const { dbPath, port } = options;
+  // Failed reads are reported to clients instead of answering with empty results.
+  const db = new ZDSLite(dbPath, { errorMode: 'throw' });
+
+  const server = http.createServer(createRequestHandler(db));
 
-  server.listen(port, () => {
+  server.listen(port, async () => {
     console.log(`🚀 ZDSLite API server running on http://localhost:${port}`);
     console.log(`Connected to database: ${dbPath}`);
-    console.log(`Send POST requests to /query`);
-    console.log(`Example: curl -X POST -H "Content-Type: application/json" -d '{"method": "search", "table": "users", "dsl": {}}' http://localhost:${port}/query`);
+    if (!(await db.hasActiveApiKeys())) {
+      console.warn(`⚠️  No API keys: every request has full access. Create one with "zdslite keys create --db ${dbPath} --name <name> --table '*:read'".`);
+    }
+    console.log(`Routes: /<table>/_search, /<table>/_stream, /<table>/_count, /<table>/_aggregate, /<table>/_doc[/<id>], /<table>/_update_by_query, /<table>/_delete_by_query, POST /_bulk, GET /_changes, POST /query`);
+    console.log(`Example: curl -X POST -H "Content-Type: application/json" -d '{"query": {"term": {"status": "active"}}}' http://localhost:${port}/users/_search`);
   });
 
   process.on('SIGINT', () => {
@@ -105,4 +445,4 @@ export function startServer(options: ServerOptions): void {
       process.exit(0);
     });
   });
-}
\ No newline at end of file
+}
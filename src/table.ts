@@ -0,0 +1,96 @@
+import type { ZDSLite } from './index';
+import {
+  DslQuery, DslQueryClause, UpdateDoc, InsertResult, UpdateResult, DeleteResult, UpsertResult,
+  SearchHitsResult, BucketAggregationResult, TypedQuery, TypedQueryClause, TypedUpdateDoc, TypedAggs, SourceField, Projection
+} from './types';
+
+/**
+ * A handle on one table whose queries and documents are checked against a row type.
+ * Created with `db.table<Row>(name)`; every method delegates to the matching `ZDSLite` method.
+ * @template T The row type of the table.
+ */
+export class Table<T extends object = Record<string, any>> {
+  private db: ZDSLite;
+  /** The name of the table. */
+  public readonly name: string;
+
+  constructor(db: ZDSLite, name: string) {
+    this.db = db;
+    this.name = name;
+  }
+
+  /**
+   * Searches the table. With `_source`, the result rows only have the selected columns and aliases.
+   * @param query A typed DSL query.
+   * @returns {Promise<Projection<T, S>[]>} A promise that resolves with the matching rows.
+   */
+  public async search<S extends SourceField<T> = never>(query: TypedQuery<T, S> = {}): Promise<Projection<T, S>[]> {
+    return this.db.search(this.name, query as DslQuery);
+  }
+
+  /**
+   * Searches the table and resolves with an Elasticsearch-style envelope (`hits`, `total`, `next_cursor`).
+   * @param query A typed DSL query.
+   * @returns {Promise<SearchHitsResult<Projection<T, S>>>} A promise that resolves with the hits envelope.
+   */
+  public async searchHits<S extends SourceField<T> = never>(query: TypedQuery<T, S> = {}): Promise<SearchHitsResult<Projection<T, S>>> {
+    return this.db.searchHits(this.name, query as DslQuery);
+  }
+
+  /**
+   * Streams the matching rows one at a time; all of them unless `size` is given. See `ZDSLite.searchStream()`.
+   * @param query A typed DSL query.
+   * @returns {AsyncGenerator<Projection<T, S>>} An async iterator over the matching rows.
+   */
+  public searchStream<S extends SourceField<T> = never>(query: TypedQuery<T, S> = {}): AsyncGenerator<Projection<T, S>, void, undefined> {
+    return this.db.searchStream(this.name, query as DslQuery);
+  }
+
+  /**
+   * Inserts a row or an array of rows.
+   * @param data The row(s) to insert. Columns with defaults or generated values may be omitted.
+   * @returns {Promise<InsertResult>} A promise that resolves with the insert result.
+   */
+  public async insert(data: Partial<T> | Partial<T>[]): Promise<InsertResult> {
+    return this.db.insert(this.name, data);
+  }
+
+  /**
+   * Updates the rows matching a query.
+   * @param doc Column values, JSON paths and update operators.
+   * @param query A typed query clause selecting the rows to update.
+   * @returns {Promise<UpdateResult>} A promise that resolves with the update result.
+   */
+  public async update(doc: TypedUpdateDoc<T>, query: TypedQueryClause<T>): Promise<UpdateResult> {
+    return this.db.update(this.name, doc as UpdateDoc, query as DslQueryClause);
+  }
+
+  /**
+   * Inserts a row, or updates it if it conflicts on a unique key.
+   * @param doc The row to insert, which may use update operators.
+   * @param conflictKey The column (or columns) with the UNIQUE constraint.
+   * @returns {Promise<UpsertResult>} A promise that resolves with the upsert result.
+   */
+  public async upsert(doc: TypedUpdateDoc<T>, conflictKey: (keyof T & string) | (keyof T & string)[]): Promise<UpsertResult> {
+    return this.db.upsert(this.name, doc as UpdateDoc, conflictKey);
+  }
+
+  /**
+   * Deletes the rows matching a query.
+   * @param query An object containing a `query` property with a typed query clause.
+   * @returns {Promise<DeleteResult>} A promise that resolves with the delete result.
+   */
+  public async delete(query: { query: TypedQueryClause<T> }): Promise<DeleteResult> {
+    return this.db.delete(this.name, query as { query: DslQueryClause });
+  }
+
+  /**
+   * Aggregates the table. With `aggs.buckets`, resolves with a bucket tree instead of rows.
+   * @param query A typed DSL query containing an `aggs` block.
+   */
+  public async aggregate(query: TypedQuery<T> & { aggs: TypedAggs<T> & { buckets: {} } }): Promise<BucketAggregationResult>;
+  public async aggregate(query: TypedQuery<T>): Promise<any[]>;
+  public async aggregate(query: TypedQuery<T>): Promise<any[] | BucketAggregationResult> {
+    return this.db.aggregate(this.name, query as DslQuery);
+  }
+}
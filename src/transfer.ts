@@ -0,0 +1,207 @@
+import { ZDSLiteValidationError } from './errors';
+
+/**
+ * A file format of `zdslite import` and `zdslite export`.
+ */
+export type TransferFormat = 'csv' | 'ndjson' | 'json';
+
+/**
+ * A document read from an import file, with its position in the file (1-based, not counting
+ * the CSV header or blank lines).
+ */
+export interface ImportRecord {
+  row: number;
+  doc: Record<string, any>;
+}
+
+/**
+ * A row of an import file that could not be read or inserted.
+ */
+export interface ImportRowError {
+  row: number;
+  error: string;
+  code: string;
+}
+
+const FORMATS: TransferFormat[] = ['csv', 'ndjson', 'json'];
+
+/**
+ * Resolves a format name, or the format of a file from its extension (`.csv`, `.ndjson`/`.jsonl`, `.json`).
+ * @throws {ZDSLiteValidationError} If the format is not supported.
+ */
+export function resolveFormat(format: string | undefined, file?: string): TransferFormat {
+  if (format !== undefined) {
+    if (!FORMATS.includes(format as TransferFormat)) throw new ZDSLiteValidationError(`Unsupported format "${format}". Use ${FORMATS.join(', ')}.`);
+    return format as TransferFormat;
+  }
+  const ext = (file || '').toLowerCase().split('.').pop();
+  if (ext === 'csv' || ext === 'ndjson' || ext === 'json') return ext;
+  if (ext === 'jsonl') return 'ndjson';
+  throw new ZDSLiteValidationError(`Cannot tell the format of "${file}" from its extension; use --format ${FORMATS.join('|')}.`);
+}
+
+/**
+ * Parses CSV text (RFC 4180): fields are separated by commas, and quoted fields may contain commas,
+ * line breaks and doubled quotes. Blank lines are ignored.
+ * @throws {ZDSLiteValidationError} If a quoted field is not closed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+  // Skip a byte order mark.
+  for (let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c !== '"') field += c;
+      else if (text[i + 1] === '"') { field += '"'; i++; }
+      else quoted = false;
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) throw new ZDSLiteValidationError('Invalid CSV: a quoted field is not closed.');
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Reads the documents of an import file. CSV files start with a header row of column names; empty cells
+ * are read as null, and numbers (without leading zeros) as numbers. NDJSON files have one object per line,
+ * and JSON files an array of objects. Rows that cannot be read are returned as errors, so the other rows
+ * can still be imported.
+ * @throws {ZDSLiteValidationError} If the file cannot be read at all (an invalid JSON file or CSV header).
+ */
+export function parseRecords(text: string, format: TransferFormat): { records: ImportRecord[]; errors: ImportRowError[] } {
+  const records: ImportRecord[] = [];
+  const errors: ImportRowError[] = [];
+  const reject = (row: number, error: string) => errors.push({ row, error, code: 'VALIDATION_FAILED' });
+
+  if (format === 'csv') {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return { records, errors };
+    const names = header.map(name => name.trim());
+    if (names.some(name => name === '')) throw new ZDSLiteValidationError('Invalid CSV: the header row has an empty column name.');
+    rows.forEach((values, i) => {
+      if (values.length !== names.length) return reject(i + 1, `Expected ${names.length} fields, got ${values.length}.`);
+      records.push({ row: i + 1, doc: Object.fromEntries(names.map((name, j) => [name, csvValue(values[j])])) });
+    });
+  } else if (format === 'ndjson') {
+    text.split(/\r?\n/).filter(line => line.trim() !== '').forEach((line, i) => {
+      let doc: any;
+      try { doc = JSON.parse(line); }
+      catch (error: any) { return reject(i + 1, `Invalid JSON (${error.message}).`); }
+      if (!isObject(doc)) return reject(i + 1, 'Expected a JSON object.');
+      records.push({ row: i + 1, doc });
+    });
+  } else {
+    let docs: any;
+    try { docs = JSON.parse(text); }
+    catch (error: any) { throw new ZDSLiteValidationError(`Invalid JSON file (${error.message}).`); }
+    if (!Array.isArray(docs)) throw new ZDSLiteValidationError('A JSON import file must contain an array of objects.');
+    docs.forEach((doc, i) => (isObject(doc) ? records.push({ row: i + 1, doc }) : reject(i + 1, 'Expected a JSON object.')));
+  }
+  return { records, errors };
+}
+
+/**
+ * Infers `create()` column definitions from documents: INTEGER when every value is an integer,
+ * REAL when every value is a number, and TEXT otherwise (objects and arrays are stored as JSON text).
+ * @param options `uuid` names a UUID PRIMARY KEY column, `hashed` the HASHED columns, and `primaryKey`
+ * a column to declare as the PRIMARY KEY with its inferred type.
+ */
+export function inferColumns(docs: Record<string, any>[], options: { primaryKey?: string; uuid?: string; hashed?: string[] } = {}): Record<string, string> {
+  if (options.uuid && options.primaryKey && options.uuid !== options.primaryKey) {
+    throw new ZDSLiteValidationError('A table has one primary key: use either a UUID primary key or another primary key column.');
+  }
+  const names = new Set<string>();
+  if (options.uuid) names.add(options.uuid);
+  docs.forEach(doc => Object.keys(doc).forEach(name => names.add(name)));
+  (options.hashed || []).forEach(name => names.add(name));
+  if (names.size === 0) throw new ZDSLiteValidationError('Cannot infer columns: the file has no documents.');
+
+  const columns: Record<string, string> = {};
+  for (const name of names) {
+    if (name === options.uuid) { columns[name] = 'UUID PRIMARY KEY'; continue; }
+    if (options.hashed?.includes(name)) { columns[name] = 'HASHED'; continue; }
+    const values = docs.map(doc => doc[name]).filter(v => v !== null && v !== undefined);
+    const type = values.length > 0 && values.every(v => Number.isInteger(v) || typeof v === 'boolean') ? 'INTEGER'
+      : values.length > 0 && values.every(v => typeof v === 'number') ? 'REAL'
+      : 'TEXT';
+    columns[name] = name === options.primaryKey ? `${type} PRIMARY KEY` : type;
+  }
+  return columns;
+}
+
+/**
+ * Stores booleans as 0/1, since SQLite has no boolean type. Tables with a registered schema
+ * convert their boolean fields themselves.
+ */
+export function toSqliteValues(doc: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(doc).map(([k, v]) => [k, typeof v === 'boolean' ? (v ? 1 : 0) : v]));
+}
+
+/**
+ * Formats rows as they are read, yielding one chunk of text per row. CSV output has a header row with
+ * the columns of the first row, unless `header` is false; objects are written as JSON text. JSON output
+ * is a single array.
+ */
+export async function* formatRows(rows: AsyncIterable<Record<string, any>>, format: TransferFormat, options: { header?: boolean } = {}): AsyncGenerator<string> {
+  let columns: string[] | null = null;
+  let count = 0;
+  for await (const row of rows) {
+    if (format === 'ndjson') {
+      yield JSON.stringify(row) + '\n';
+    } else if (format === 'json') {
+      yield (count === 0 ? '[\n' : ',\n') + JSON.stringify(row);
+    } else {
+      if (!columns) {
+        columns = Object.keys(row);
+        if (options.header ?? true) yield csvRow(columns);
+      }
+      yield csvRow(columns.map(c => row[c]));
+    }
+    count++;
+  }
+  if (format === 'json') yield count === 0 ? '[]\n' : '\n]\n';
+}
+
+/**
+ * Formats one CSV line, quoting fields that contain commas, quotes, line breaks or edge spaces.
+ */
+export function csvRow(values: any[]): string {
+  return values.map(value => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\n';
+}
+
+// Numbers with a leading zero (zip codes, phone numbers) stay text.
+function csvValue(value: string): any {
+  if (value === '') return null;
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(value)) {
+    const number = Number(value);
+    if (Number.isFinite(number) && (!Number.isInteger(number) || Number.isSafeInteger(number))) return number;
+  }
+  return value;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,4 +1,5 @@
 import Database from 'better-sqlite3';
+import type { ZDSLite } from './index';
 
 export type SqlValue = string | number | null | Buffer;
 export type SqlResult = { sql: string; params: SqlValue[] };
@@ -10,7 +11,34 @@ export type MatchPhraseQuery = { match_phrase: { [field: string]: string } };
 export type MultiMatchQuery = { multi_match: { query: string; fields: string[] } };
 export type PasswordVerifyQuery = { password_verify: { field: string; value: string } };
 export type ExistsQuery = { exists: { field: string } };
-export type RangeOps = { gt?: number; gte?: number; lt?: number; lte?: number };
+export type PrefixQuery = { prefix: { [field: string]: string | { value: string; case_insensitive?: boolean } } };
+export type WildcardQuery = { wildcard: { [field: string]: string | { value: string; case_insensitive?: boolean } } };
+export type RegexpQuery = { regexp: { [field: string]: string | { value: string; case_insensitive?: boolean } } };
+export type Fuzziness = number | 'AUTO';
+export type FuzzyQuery = { fuzzy: { [field: string]: string | { value: string; fuzziness?: Fuzziness; prefix_length?: number; transpositions?: boolean } } };
+/** A point as `{ lat, lon }` in decimal degrees. */
+export type GeoPoint = { lat: number; lon: number };
+/** The fields holding a point's latitude and longitude. JSON paths such as `meta->>geo.lat` are allowed. */
+export type GeoFields = { lat: string; lon: string };
+export type DistanceUnit = 'm' | 'km' | 'mi' | 'yd' | 'ft' | 'nmi';
+/** A distance in meters, or a string with a unit such as `"5km"` or `"2.5mi"`. */
+export type GeoDistance = number | `${number}${DistanceUnit}`;
+export type GeoDistanceQuery = { geo_distance: { fields: GeoFields; origin: GeoPoint; distance: GeoDistance } };
+export type GeoBoundingBoxQuery = { geo_bounding_box: { fields: GeoFields; top_left: GeoPoint; bottom_right: GeoPoint } };
+/**
+ * How dates are stored in a column: ISO 8601 strings, or epoch milliseconds / seconds in an INTEGER column.
+ */
+export type DateFormat = 'iso' | 'epoch_millis' | 'epoch_second';
+/**
+ * Range bounds. Strings may use date math ("now-7d/d", "2025-01-01||+1M"), which is resolved to a value in
+ * `format` (default 'iso'). With `format` or `time_zone`, every string bound is read as a date.
+ */
+export type RangeOps = {
+  gt?: number | string; gte?: number | string; lt?: number | string; lte?: number | string;
+  format?: DateFormat;
+  /** A UTC offset ("+01:00") or IANA time zone used for rounding and for dates without an offset. */
+  time_zone?: string;
+};
 export type RangeQuery = { range: { [field: string]: RangeOps } };
 export type BoolQuery = {
   bool: {
@@ -21,7 +49,8 @@ export type BoolQuery = {
   };
 };
 
-export type DslQueryClause = TermQuery | TermsQuery | MatchQuery | MatchPhraseQuery | MultiMatchQuery | ExistsQuery | RangeQuery | BoolQuery | PasswordVerifyQuery;
+export type DslQueryClause = TermQuery | TermsQuery | MatchQuery | MatchPhraseQuery | MultiMatchQuery | ExistsQuery | RangeQuery | BoolQuery | PasswordVerifyQuery
+  | PrefixQuery | WildcardQuery | RegexpQuery | FuzzyQuery | GeoDistanceQuery | GeoBoundingBoxQuery;
 
 export interface DslJoin {
   type?: 'LEFT' | 'INNER' | 'RIGHT' | 'FULL';
@@ -29,13 +58,76 @@ export interface DslJoin {
   on: { left: string; right: string; op?: string; };
 }
 
-export interface DslSort { [field: string]: 'asc' | 'desc'; }
+export interface DslFieldSort { [field: string]: 'asc' | 'desc'; }
+
+/**
+ * Sorts by distance from `origin`. With `distance_field`, the distance is also returned in each result under that name.
+ */
+export interface GeoDistanceSort {
+  _geo_distance: { fields: GeoFields; origin: GeoPoint; order?: 'asc' | 'desc'; unit?: DistanceUnit; distance_field?: string };
+}
+
+export type DslSort = DslFieldSort | GeoDistanceSort;
+
+export interface DslTopHits { size?: number; sort?: DslSort[]; _source?: string[] }
+
+export type DslMetric =
+  | { count: string } | { sum: string } | { avg: string } | { min: string } | { max: string }
+  | { value_count: string } | { cardinality: string } | { median: string }
+  | { percentiles: { field: string; percents?: number[] } }
+  | { stats: string } | { extended_stats: string }
+  | { top_hits: DslTopHits };
+
+export interface DslAggMetrics { [metricName: string]: DslMetric; }
 
-export interface DslAggMetrics { [metricName: string]: | { count: string } | { sum: string } | { avg: string } | { min: string } | { max: string }; }
+export type CalendarInterval = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type DslTermsAgg = { terms: { field: string; size?: number; order?: { [key: string]: 'asc' | 'desc' }; missing?: SqlValue } };
+export type DslHistogramAgg = { histogram: { field: string; interval: number; offset?: number; min_doc_count?: number } };
+export type DslDateHistogramAgg = { date_histogram: { field: string; calendar_interval?: CalendarInterval; fixed_interval?: string; min_doc_count?: number; format?: DateFormat; time_zone?: string } };
+export type DslRangeAgg = { range: { field: string; ranges: { key?: string; from?: number; to?: number }[] } };
+export type DslDateRangeAgg = { date_range: { field: string; format?: DateFormat; time_zone?: string; ranges: { key?: string; from?: number | string; to?: number | string }[] } };
+
+/**
+ * A bucket aggregation, with optional per-bucket metrics and nested sub-aggregations.
+ */
+export type DslBucketAgg = (DslTermsAgg | DslHistogramAgg | DslDateHistogramAgg | DslRangeAgg | DslDateRangeAgg) & {
+  metrics?: DslAggMetrics;
+  /** Keeps only the buckets matching this clause. Fields refer to `doc_count` and metric aliases. */
+  bucket_selector?: DslQueryClause;
+  aggs?: { [name: string]: DslBucketAgg };
+};
 
 export interface DslAggs {
   group_by?: string[];
   metrics?: DslAggMetrics;
+  /** Keeps only the groups matching this clause. Fields refer to `group_by` fields and metric aliases. */
+  having?: DslQueryClause;
+  /** Named bucket aggregations. When present, `aggregate()` returns a nested bucket tree instead of rows. */
+  buckets?: { [name: string]: DslBucketAgg };
+}
+
+export interface AggregationBucket {
+  key: SqlValue;
+  key_as_string?: string;
+  doc_count: number;
+  [metricOrSubAggregation: string]: any;
+}
+
+/**
+ * The nested result of bucket aggregations: top-level metrics as values, bucket aggregations as `{ buckets }`.
+ */
+export interface BucketAggregationResult {
+  [name: string]: { buckets: AggregationBucket[] } | any;
+}
+
+export interface DslHighlight {
+  /** Fields to highlight. Must be part of the table's full-text index. */
+  fields: string[] | { [field: string]: object };
+  pre_tags?: string[];
+  post_tags?: string[];
+  /** When set, returns a snippet of at most this many tokens instead of the whole field. */
+  fragment_size?: number;
 }
 
 export interface DslQuery {
@@ -44,19 +136,52 @@ export interface DslQuery {
   join?: DslJoin[];
   sort?: DslSort[];
   aggs?: DslAggs;
+  highlight?: DslHighlight;
   size?: number;
   from?: number;
+  /** Sort values of the last hit of the previous page, or the `next_cursor` returned by `searchHits`. */
+  search_after?: SqlValue[] | string;
+  /** `true` counts all hits, a number counts up to that many, `false` skips counting. Used by `searchHits`. */
+  track_total_hits?: boolean | number;
+}
+
+export interface SearchHitsResult<T = any> {
+  hits: T[];
+  total: { value: number; relation: 'eq' | 'gte' } | null;
+  next_cursor: string | null;
 }
 
 export type DslRunResult = Database.RunResult & { error?: any };
 
+/**
+ * Update operators accepted by `update()` and `upsert()`. Keys may be columns or JSON paths ("meta.views").
+ */
+export interface UpdateOperators {
+  $set?: Record<string, any>;
+  $unset?: string[];
+  $inc?: Record<string, number>;
+  $mul?: Record<string, number>;
+  $min?: Record<string, SqlValue>;
+  $max?: Record<string, SqlValue>;
+  /** Sets each field to the current time as an ISO 8601 UTC string. */
+  $currentDate?: string[];
+  /** Appends a value to the JSON array at each path, creating the array if needed. */
+  $push?: Record<string, any>;
+}
+
+/**
+ * An update document: column values, JSON path keys and update operators.
+ */
+export type UpdateDoc = Record<string, any> & UpdateOperators;
+
 export type CreateResult = { acknowledged: true; table: string } | { acknowledged: false; error: Error };
 
 export type DropResult = { acknowledged: true; table: string } | { acknowledged: false; error: Error };
 
 export type IndexResult = { acknowledged: true; indexName: string } | { acknowledged: false; error: Error };
 
-export type InsertResult = { acknowledged: true; insertedCount: number } | { acknowledged: false; error: Error };
+/** `lastInsertRowid` is the rowid of the last inserted document (its INTEGER PRIMARY KEY, if the table has one). */
+export type InsertResult = { acknowledged: true; insertedCount: number; lastInsertRowid: number | bigint } | { acknowledged: false; error: Error };
 
 export type UpdateResult = { acknowledged: true; updatedCount: number } | { acknowledged: false; error: Error };
 
@@ -64,6 +189,413 @@ export type DeleteResult = { acknowledged: true; deletedCount: number } | { ackn
 
 export type UpsertResult = { acknowledged: true; changes: number; lastInsertRowid: number | bigint } | { acknowledged: false; error: Error };
 
+/**
+ * The event of a `beforeInsert` hook. A hook may edit or replace `docs`; the documents are validated and
+ * hashed after every hook has run.
+ */
+export interface BeforeInsertEvent {
+  table: string;
+  docs: Record<string, any>[];
+}
+
+/** `docs` are the documents as stored: passwords hashed and UUID primary keys filled in. */
+export interface AfterInsertEvent extends BeforeInsertEvent {
+  insertedCount: number;
+  lastInsertRowid: number | bigint;
+}
+
+/** The event of a `beforeUpdate` hook. A hook may edit or replace `doc` and `query`. */
+export interface BeforeUpdateEvent {
+  table: string;
+  doc: UpdateDoc;
+  query: DslQueryClause;
+}
+
+export interface AfterUpdateEvent extends BeforeUpdateEvent {
+  updatedCount: number;
+}
+
+/** The event of a `beforeUpsert` hook. A hook may edit or replace `doc`. */
+export interface BeforeUpsertEvent {
+  table: string;
+  doc: UpdateDoc;
+  conflictKey: string | string[];
+}
+
+export interface AfterUpsertEvent extends BeforeUpsertEvent {
+  changes: number;
+  lastInsertRowid: number | bigint;
+}
+
+/** The event of a `beforeDelete` hook. A hook may edit or replace `query`. */
+export interface BeforeDeleteEvent {
+  table: string;
+  query: DslQueryClause;
+}
+
+export interface AfterDeleteEvent extends BeforeDeleteEvent {
+  deletedCount: number;
+}
+
+/**
+ * The write events of `ZDSLite.on()`. `before*` hooks run before the write and may change it, or veto it by throwing.
+ * `after*` events are emitted once the write is committed: right away outside of a transaction, and at COMMIT
+ * inside one (they are dropped if the transaction, or the savepoint of the write, is rolled back).
+ */
+export interface ZDSLiteEvents {
+  beforeInsert: BeforeInsertEvent;
+  afterInsert: AfterInsertEvent;
+  beforeUpdate: BeforeUpdateEvent;
+  afterUpdate: AfterUpdateEvent;
+  beforeUpsert: BeforeUpsertEvent;
+  afterUpsert: AfterUpsertEvent;
+  beforeDelete: BeforeDeleteEvent;
+  afterDelete: AfterDeleteEvent;
+}
+
+export type ZDSLiteEventName = keyof ZDSLiteEvents;
+
+/** `before*` hooks are awaited in the order they were added; `after*` listeners are not awaited. */
+export type ZDSLiteEventListener<E extends ZDSLiteEventName> = (event: ZDSLiteEvents[E]) => void | Promise<void>;
+
+/**
+ * An action of `bulk()`. `_index` is the table and `_id` the value of its primary key (or rowid).
+ * `index` inserts the document, or updates the row with the `_id` if there is one; `create` only inserts.
+ * `update` and `delete` select the rows by `_id` or by `query`.
+ */
+export type BulkOperation =
+  | { index: { _index: string; _id?: string | number; doc: Record<string, any> } }
+  | { create: { _index: string; _id?: string | number; doc: Record<string, any> } }
+  | { update: { _index: string; _id?: string | number; query?: DslQueryClause; doc: UpdateDoc } }
+  | { upsert: { _index: string; doc: UpdateDoc; conflictKey: string | string[] } }
+  | { delete: { _index: string; _id?: string | number; query?: DslQueryClause } };
+
+export type BulkAction = 'index' | 'create' | 'update' | 'upsert' | 'delete';
+
+export interface BulkOptions {
+  /** Commits every this many operations instead of once at the end. */
+  chunkSize?: number;
+  /** Rolls back every operation if one fails, and throws the failure. Inside a transaction, only the operations are rolled back. Cannot be combined with `chunkSize`. */
+  atomic?: boolean;
+}
+
+/**
+ * The outcome of one bulk operation, with the HTTP-style status Elasticsearch would report for it.
+ */
+export interface BulkItemResult {
+  _index: string;
+  _id: string | null;
+  status: number;
+  result?: 'created' | 'updated' | 'deleted' | 'not_found' | 'noop';
+  /** The number of rows changed by an update or delete by `query`. */
+  count?: number;
+  error?: { type: string; reason: string; code: string };
+}
+
+/**
+ * The result of `bulk()`, in the shape of an Elasticsearch bulk response: one item per operation, in order,
+ * keyed by its action. `errors` is true if any operation failed.
+ */
+export interface BulkResult {
+  took: number;
+  errors: boolean;
+  items: { [action in BulkAction]?: BulkItemResult }[];
+}
+
+export type ZDSLiteColumnType = 'UUID' | 'HASHED';
+
+export type ColumnTypeResult = { acknowledged: true; table: string; column: string; type: ZDSLiteColumnType } | { acknowledged: false; error: Error };
+
+/**
+ * Field types of a table schema. `object` and `array` are stored as JSON text, `boolean` as 0/1,
+ * `date` as an ISO 8601 string, `uuid` as TEXT (auto-generated when it is the primary key) and `hashed` as a password hash.
+ */
+export type SchemaFieldType = 'string' | 'integer' | 'number' | 'boolean' | 'date' | 'object' | 'array' | 'uuid' | 'hashed';
+
+/**
+ * A field of a table schema, validated on every write.
+ */
+export interface SchemaField {
+  type: SchemaFieldType;
+  /** The field must be present and not null on insert, and cannot be unset or set to null (NOT NULL). */
+  required?: boolean;
+  /** The allowed values. */
+  enum?: SqlValue[];
+  /** The minimum number, or the minimum length of a string or array. */
+  min?: number;
+  /** The maximum number, or the maximum length of a string or array. */
+  max?: number;
+  /** A regular expression that strings must match. */
+  pattern?: string;
+  /** The value used when the field is missing on insert (also the column's DEFAULT). */
+  default?: any;
+  primaryKey?: boolean;
+  unique?: boolean;
+  /** The shape of an `object` field. Undeclared keys are allowed. */
+  properties?: Record<string, SchemaField>;
+  /** The schema of each item of an `array` field. */
+  items?: SchemaField;
+}
+
+/**
+ * A table schema: one field definition per column.
+ */
+export type TableSchema = Record<string, SchemaField>;
+
+/**
+ * One failing field of a document, e.g. `{ path: 'meta.tags[1]', message: 'must be a string' }`.
+ * Paths of bulk inserts are prefixed with the document index (`[2].email`).
+ */
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+/**
+ * How failed calls are reported. With `'result'`, writes and DDL resolve with `{ acknowledged: false, error }` and
+ * reads with an empty result (the error is logged). With `'throw'`, every failure rejects with a `ZDSLiteError`
+ * subclass. Inside a transaction, failures always throw so that the transaction rolls back.
+ */
+export type ErrorMode = 'result' | 'throw';
+
+export interface ZDSLiteOptions {
+  /** How failed calls are reported. Defaults to `'result'`. */
+  errorMode?: ErrorMode;
+  /**
+   * Called when an `after*` listener throws or rejects. The write is already committed, so the error cannot fail it.
+   * Defaults to logging the error with `console.error`.
+   */
+  onListenerError?: (error: unknown, name: ZDSLiteEventName, event: ZDSLiteEvents[ZDSLiteEventName]) => void;
+}
+
+export type SchemaResult = { acknowledged: true; table: string } | { acknowledged: false; error: Error };
+
+/**
+ * What an API key may do on a table: `read` (search, count, aggregate, describe), `write` (read plus insert, update,
+ * upsert and delete) or `admin` (write plus create, drop and index management).
+ */
+export type ApiKeyRole = 'read' | 'write' | 'admin';
+
+export interface ApiKeyPermissions {
+  /** The role of the key on each table. `'*'` applies to tables that are not listed. */
+  tables: Record<string, ApiKeyRole>;
+  /**
+   * Tables that cannot be read with `_source: ['*']` (or without `_source`): queries must list their columns.
+   * `'HASHED'` stands for every table with a HASHED column. Defaults to `['HASHED']`.
+   */
+  explicitSource?: string[];
+}
+
+/**
+ * An API key as listed by `listApiKeys()`. The key itself is only returned once, by `createApiKey()`.
+ */
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  permissions: ApiKeyPermissions;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export type ApiKeyResult = { acknowledged: true; id: string; name: string; key: string; permissions: ApiKeyPermissions } | { acknowledged: false; error: Error };
+
+export type RevokeApiKeyResult = { acknowledged: true; id: string; revoked: boolean } | { acknowledged: false; error: Error };
+
+export interface ColumnDescription {
+  name: string;
+  /** The declared SQLite type (e.g. 'TEXT', 'INTEGER'). */
+  type: string;
+  notNull: boolean;
+  /** The default value expression, as written in the table definition. */
+  defaultValue: string | null;
+  primaryKey: boolean;
+  /** The special ZDSLite type registered for this column, if any. */
+  zdsliteType: ZDSLiteColumnType | null;
+}
+
+export interface ForeignKeyDescription {
+  column: string;
+  references: { table: string; column: string | null };
+  onUpdate: string;
+  onDelete: string;
+}
+
+export interface IndexDescription {
+  name: string;
+  unique: boolean;
+  /** 'c' for CREATE INDEX, 'u' for a UNIQUE constraint, 'pk' for a PRIMARY KEY constraint. */
+  origin: string;
+  partial: boolean;
+  /** Indexed column names; `null` marks an expression (e.g. a JSON accessor), see `sql`. */
+  columns: (string | null)[];
+  /** The CREATE INDEX statement, or null for indexes created by constraints. */
+  sql: string | null;
+}
+
+export interface TableDescription {
+  table: string;
+  columns: ColumnDescription[];
+  foreignKeys: ForeignKeyDescription[];
+  indexes: IndexDescription[];
+  /** The FTS5 full-text index definition, if the table has one. */
+  fullText: { fields: string[]; tokenizer: string } | null;
+  /** The registered schema, if the table has one. */
+  schema: TableSchema | null;
+}
+
+export type CompileMethod = 'search' | 'searchHits' | 'aggregate';
+
+export interface QueryPlanStep {
+  id: number;
+  parent: number;
+  detail: string;
+  /** True when the step scans a whole table without using an index. */
+  fullScan: boolean;
+}
+
+export interface ExplainResult extends SqlResult {
+  plan: QueryPlanStep[];
+  /** Names of the tables that are scanned in full. */
+  fullScans: string[];
+}
+
 export type TxResult = { acknowledged: true; committed: true } | { acknowledged: false; rolledBack: true; error: Error };
 
-export type ManualTxResult = { acknowledged: true } | { acknowledged: false; error: Error };
\ No newline at end of file
+export type ManualTxResult = { acknowledged: true } | { acknowledged: false; error: Error };
+
+export type MigrationStep = string | ((db: ZDSLite) => Promise<void> | void);
+
+export interface Migration {
+  /** Ordering key. Numeric versions are compared numerically, others lexically. */
+  version: string | number;
+  name: string;
+  /** Raw SQL (may contain several statements) or a function that uses the ZDSLite API. */
+  up: MigrationStep;
+  down?: MigrationStep;
+}
+
+export interface MigrateOptions {
+  direction?: 'up' | 'down';
+  /** Target version. Up: apply up to and including it. Down: roll back everything after it. */
+  to?: string | number;
+  /** Maximum number of migrations to apply or roll back. Defaults to all for 'up' and 1 for 'down'. */
+  steps?: number;
+}
+
+export type MigrateResult = { acknowledged: true; direction: 'up' | 'down'; migrations: string[] };
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  /** 'drifted' means the migration changed after it was applied; 'missing' means it was applied but is no longer defined. */
+  state: 'applied' | 'pending' | 'drifted' | 'missing';
+  appliedAt: string | null;
+}
+
+// --- Typed table handles (`db.table<Row>()`) ---
+
+type JsonLeaf = string | number | boolean | bigint | symbol | null | undefined | Date | Buffer | readonly any[];
+
+// Keys of a JSON object, with nested keys joined by dots ("details.price"). Deeper levels accept any path.
+type JsonKeys<V, Depth extends unknown[] = []> = NonNullable<V> extends JsonLeaf ? never
+  : Depth['length'] extends 4 ? string
+  : { [K in keyof NonNullable<V> & string]: K | `${K}.${JsonKeys<NonNullable<V>[K], [...Depth, unknown]>}` }[keyof NonNullable<V> & string];
+
+/**
+ * The fields of a row type that a query can refer to: its columns, and JSON accessor paths into its object columns
+ * ("meta->>details.price"). Columns typed `any` accept any JSON path.
+ */
+export type FieldPath<T> = { [K in keyof T & string]: K | `${K}->>${JsonKeys<T[K]>}` | `${K}->${JsonKeys<T[K]>}` }[keyof T & string];
+
+/**
+ * The keys an update document can set: columns, JSON accessor paths, and dotted JSON paths ("meta.details.price").
+ */
+export type UpdatePath<T> = FieldPath<T> | { [K in keyof T & string]: `${K}.${JsonKeys<T[K]>}` }[keyof T & string];
+
+/**
+ * An entry of `_source`: a field, a field with an alias ("name as label"), or `*`.
+ */
+export type SourceField<T> = FieldPath<T> | `${FieldPath<T>} as ${string}` | '*';
+
+/**
+ * The rows returned for a `_source` list: the selected columns and aliases. Without `_source` (or with `*`), the whole row.
+ * JSON paths need an alias ("meta->>price as price") to appear in the result type.
+ */
+export type Projection<T, S extends string> = [S] extends [never] ? T : '*' extends S ? T
+  : { [K in S as K extends keyof T ? K : K extends `${string} as ${infer A}` ? A : never]: K extends keyof T ? T[K] : K extends `${infer F} as ${string}` ? (F extends keyof T ? T[F] : unknown) : never };
+
+type FieldMap<T, V> = { [F in FieldPath<T>]?: V };
+type TypedGeoFields<T> = { lat: FieldPath<T>; lon: FieldPath<T> };
+
+/**
+ * A query clause whose fields are checked against a row type.
+ */
+export type TypedQueryClause<T> =
+  | { term: FieldMap<T, SqlValue> }
+  | { terms: FieldMap<T, SqlValue[]> }
+  | { match: FieldMap<T, string> }
+  | { match_phrase: FieldMap<T, string> }
+  | { multi_match: { query: string; fields: FieldPath<T>[] } }
+  | { exists: { field: FieldPath<T> } }
+  | { range: FieldMap<T, RangeOps> }
+  | { prefix: FieldMap<T, PrefixQuery['prefix'][string]> }
+  | { wildcard: FieldMap<T, WildcardQuery['wildcard'][string]> }
+  | { regexp: FieldMap<T, RegexpQuery['regexp'][string]> }
+  | { fuzzy: FieldMap<T, FuzzyQuery['fuzzy'][string]> }
+  | { password_verify: { field: keyof T & string; value: string } }
+  | { geo_distance: Omit<GeoDistanceQuery['geo_distance'], 'fields'> & { fields: TypedGeoFields<T> } }
+  | { geo_bounding_box: Omit<GeoBoundingBoxQuery['geo_bounding_box'], 'fields'> & { fields: TypedGeoFields<T> } }
+  | { bool: { must?: TypedQueryClause<T>[]; filter?: TypedQueryClause<T>[]; should?: TypedQueryClause<T>[]; must_not?: TypedQueryClause<T>[] } };
+
+export type TypedSort<T> = FieldMap<T, 'asc' | 'desc'>
+  | { _geo_distance: Omit<GeoDistanceSort['_geo_distance'], 'fields'> & { fields: TypedGeoFields<T> } };
+
+type FieldMetric = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'value_count' | 'cardinality' | 'median' | 'stats' | 'extended_stats';
+
+export type TypedMetric<T> = { [Op in FieldMetric]: { [K in Op]: FieldPath<T> | (Op extends 'count' ? '*' : never) } }[FieldMetric]
+  | { percentiles: { field: FieldPath<T>; percents?: number[] } }
+  | { top_hits: { size?: number; sort?: TypedSort<T>[]; _source?: SourceField<T>[] } };
+
+// Replaces the `field` of each bucket aggregation with a checked field.
+type WithField<A, F> = { [K in keyof A]: Omit<A[K], 'field'> & { field: F } };
+
+export type TypedBucketAgg<T> = WithField<DslTermsAgg | DslHistogramAgg | DslDateHistogramAgg | DslRangeAgg | DslDateRangeAgg, FieldPath<T>> & {
+  metrics?: { [metricName: string]: TypedMetric<T> };
+  bucket_selector?: DslQueryClause;
+  aggs?: { [name: string]: TypedBucketAgg<T> };
+};
+
+export interface TypedAggs<T> extends Omit<DslAggs, 'group_by' | 'metrics' | 'buckets'> {
+  group_by?: FieldPath<T>[];
+  metrics?: { [metricName: string]: TypedMetric<T> };
+  buckets?: { [name: string]: TypedBucketAgg<T> };
+}
+
+/**
+ * A DSL query whose fields are checked against a row type. `_source` narrows the result rows.
+ * Joins are not part of a typed query; use `db.search()` for them.
+ */
+export interface TypedQuery<T, S extends string = never> extends Omit<DslQuery, '_source' | 'query' | 'join' | 'sort' | 'aggs' | 'highlight'> {
+  _source?: S[];
+  query?: TypedQueryClause<T>;
+  sort?: TypedSort<T>[];
+  aggs?: TypedAggs<T>;
+  highlight?: Omit<DslHighlight, 'fields'> & { fields: FieldPath<T>[] | FieldMap<T, object> };
+}
+
+type UpdateValue<T, F> = F extends keyof T ? T[F] : any;
+type UpdateMap<T, V = never> = { [F in UpdatePath<T>]?: [V] extends [never] ? UpdateValue<T, F> : V };
+
+/**
+ * An update document whose columns, JSON paths and operator fields are checked against a row type.
+ */
+export type TypedUpdateDoc<T> = UpdateMap<T> & {
+  $set?: UpdateMap<T>;
+  $unset?: UpdatePath<T>[];
+  $inc?: UpdateMap<T, number>;
+  $mul?: UpdateMap<T, number>;
+  $min?: UpdateMap<T>;
+  $max?: UpdateMap<T>;
+  $currentDate?: UpdatePath<T>[];
+  $push?: UpdateMap<T, unknown>;
+};